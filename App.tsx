@@ -1,15 +1,65 @@
-import React, { useState, useCallback, useRef, useEffect } from 'react';
-import { AudioSegment, SegmentStatus, VOICES, ProjectState } from './types';
-import { generateSpeechSegment, createWavUrl } from './services/geminiService';
+import React, { useState, useCallback, useRef, useEffect, useSyncExternalStore } from 'react';
+import { AudioSegment, SegmentStatus, VOICES, SPEAKING_RATES, ProjectState, Lexicon, LexiconEntry, ExportFormat, ExportSettings, MusicBedSettings, MusicTrack, SpeakerVoice, VoiceOverrides, ApiKeyEntry, SegmentTake, AudioEdit, SchedulerSettings, AudioCacheSettings } from './types';
+import { fetchPcm, formatDuration } from './services/audioUtils';
+import { encodeAudio, withFormatExtension, stripAudioExtension } from './services/audioEncoder';
+import { analyzeSilence, needsSilenceAnalysis } from './services/silenceTrim';
+import { DEFAULT_MUSIC_BED, createMusicBedStage, measureMusicTrack } from './services/musicBed';
+import { segmentDialogue, detectSpeakers, assignSpeakerVoices, DialogueChunk } from './services/dialogue';
+import { resolveSegmentVoice, withOverrides } from './services/voiceOverrides';
+import { ProjectHistory, createHistory, isUndoableUpdate, recordChange, undoChange, redoChange, restoreSnapshot, collectAudioUrls } from './services/history';
+import { editSegmentText, splitSegment, joinWithNext, insertSegments, moveSegment } from './services/segmentEditor';
+import { addTake, chooseTake, deleteTake, syncChosenTake, MAX_TAKES_PER_RUN } from './services/takes';
+import { applyAudioEdit, withAudioEdit } from './services/audioEdit';
+import { int16ToFloat } from './services/loudness';
+import { buildCaptions, createSubtitleUrl, SUBTITLE_FORMATS } from './services/subtitleService';
+import { EXPORT_FORMATS } from './services/encoders';
+import { renderMergedAudio, MergedAudio, MixStage, buildTimeline, getTimelineDuration, isExportable, DEFAULT_EXPORT_SETTINGS } from './services/exportService';
+import { TTS_PROVIDERS, DEFAULT_PROVIDER_ID, getProvider } from './services/providerRegistry';
+import { TtsProvider, TtsRequest, getErrorCode } from './services/ttsProvider';
+import { GEMINI_PROVIDER_ID } from './services/geminiService';
+import { exportProjectBundle, importProjectBundle, BUNDLE_EXTENSION } from './services/projectBundle';
+import { segmentText, DEFAULT_MAX_CHUNK_LENGTH, MIN_CHUNK_LENGTH } from './services/segmenter';
+import { importSourceFile, IMPORT_EXTENSIONS } from './services/textImport';
+import { getChapters, getChapterMarkers, markHeadingChapters, setChapterTitle, formatChapterFileName } from './services/chapters';
+import { createZip } from './services/zipService';
+import { buildSpokenText, SpokenTextOptions } from './services/spokenText';
+import { loadGlobalLexicons, saveGlobalLexicons, mergeLexicons } from './services/lexicon';
+import { loadKeyPool, saveKeyPool, addKeys, updateKey, pickKey, recordRequest, recordSuccess, recordFailure } from './services/keyPool';
+import { createGenerationScheduler, loadSchedulerSettings, saveSchedulerSettings, GenerationJob, GenerationScheduler } from './services/scheduler';
+import { loadWorkspace, saveProjects, saveAudio, pruneAudio } from './services/storageService';
+import { loadAudioCacheSettings, saveAudioCacheSettings, getCachedAudio, putCachedAudio } from './services/audioCache';
 import SegmentList from './components/SegmentList';
-import { Split, PlayCircle, Loader2, Trash2, StopCircle, FileAudio, RotateCcw, Plus, X, FolderOpen, Edit2, Volume2, Square, Settings } from 'lucide-react';
-
-// Maximum characters per chunk (approx 1.5 mins of speech depending on speed)
-const MAX_CHUNK_LENGTH = 1000;
+import LexiconPanel from './components/LexiconPanel';
+import ExportSettingsPanel from './components/ExportSettingsPanel';
+import MusicBedPanel from './components/MusicBedPanel';
+import SpeakerPanel from './components/SpeakerPanel';
+import BulkOverridePanel from './components/BulkOverridePanel';
+import ApiKeyPanel from './components/ApiKeyPanel';
+import AudioCacheSettingsSection from './components/AudioCacheSettings';
+import SchedulerPanel from './components/SchedulerPanel';
+import ProjectPlayer from './components/ProjectPlayer';
+import ChapterPanel from './components/ChapterPanel';
+import { Split, PlayCircle, Loader2, Trash2, StopCircle, FileAudio, RotateCcw, Plus, X, FolderOpen, Edit2, Volume2, Square, Settings, Package, Upload, BookA, SlidersHorizontal, Captions, Music, Wand2, Undo2, Redo2, ListOrdered, Pause, Play, Layers, FileUp, BookOpen } from 'lucide-react';
+
+// Delay before autosaving project state to IndexedDB
+const AUTOSAVE_DELAY_MS = 800;
+
+// Short request used to check that an API key works
+const KEY_TEST_TEXT = "পরীক্ষা";
 
 // Simple, robust ID generator that works in all contexts
 const generateId = () => Date.now().toString(36) + Math.random().toString(36).substring(2);
 
+// Triggers a browser download for an object URL
+const triggerDownload = (url: string, fileName: string) => {
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+};
+
 const STYLE_PRESETS = [
   { label: 'Romantic', text: 'Say it romantically.' },
   { label: 'Sylheti', text: 'Speak with a Sylheti accent.' },
@@ -28,9 +78,18 @@ const createNewProject = (index: number): ProjectState => ({
   isProcessing: false,
   isExporting: false,
   hasExported: false,
+  providerId: DEFAULT_PROVIDER_ID,
   selectedVoice: VOICES[0].name,
   speakingRate: 'Normal',
   exportFilename: "",
+  maxChunkLength: DEFAULT_MAX_CHUNK_LENGTH,
+  normalizeText: false,
+  lexicon: [],
+  globalLexiconIds: [],
+  exportSettings: { ...DEFAULT_EXPORT_SETTINGS },
+  musicBed: { ...DEFAULT_MUSIC_BED, tracks: [] },
+  dialogueMode: false,
+  speakers: [],
   progress: { current: 0, total: 0 },
 });
 
@@ -43,45 +102,173 @@ function App() {
 
   // Global Settings State
   const [showSettings, setShowSettings] = useState(false);
-  const [apiKeys, setApiKeys] = useState<string[]>([]);
-  const [apiKeyInput, setApiKeyInput] = useState(""); // For the textarea input
+  const [keyPool, setKeyPool] = useState<ApiKeyEntry[]>([]);
+  const [testingKeys, setTestingKeys] = useState<Set<string>>(new Set());
+  const [audioCacheSettings, setAudioCacheSettings] = useState<AudioCacheSettings>(() => loadAudioCacheSettings());
 
   // Preview state
   const [previewAudio, setPreviewAudio] = useState<HTMLAudioElement | null>(null);
   const [isPreviewLoading, setIsPreviewLoading] = useState(false);
 
+  // Pronunciation lexicons shared by all projects
+  const [globalLexicons, setGlobalLexicons] = useState<Lexicon[]>(() => loadGlobalLexicons());
+  const [showLexicon, setShowLexicon] = useState(false);
+
+  const [showExportSettings, setShowExportSettings] = useState(false);
+  const [showMusicBed, setShowMusicBed] = useState(false);
+  const [showBulkOverrides, setShowBulkOverrides] = useState(false);
+  const [bulkTakeCount, setBulkTakeCount] = useState(3);
+  // Whole-project playback
+  const [playingSegmentId, setPlayingSegmentId] = useState<string | null>(null);
+  const [followPlayback, setFollowPlayback] = useState(true);
+  const [showScheduler, setShowScheduler] = useState(false);
+  const [showChapters, setShowChapters] = useState(false);
+  // Per-chapter export of one project at a time
+  const [chapterExport, setChapterExport] = useState<{ projectId: string; current: number; total: number } | null>(null);
+  // Encoding progress (0..1) of the running merged export, keyed by project id
+  const [encodeProgress, setEncodeProgress] = useState<Record<string, number>>({});
+
+  // Project bundle import/export state
+  const [isBundleBusy, setIsBundleBusy] = useState(false);
+  const bundleInputRef = useRef<HTMLInputElement>(null);
+
+  // Source file import (text, Word, ePub, subtitles)
+  const [isImportingText, setIsImportingText] = useState(false);
+  const [isDraggingFile, setIsDraggingFile] = useState(false);
+  const textFileInputRef = useRef<HTMLInputElement>(null);
+
   // Refs for managing independent processing loops
   const stopSignalsRef = useRef<Record<string, boolean>>({});
 
+  // Persistence state: nothing is saved until the stored workspace has been restored
+  const [isHydrated, setIsHydrated] = useState(false);
+  // Segment id -> blob URL whose audio is already on disk
+  const persistedAudioRef = useRef<Record<string, string>>({});
+  // Tail of the autosave chain; saves run one at a time
+  const autosaveRef = useRef<Promise<void>>(Promise.resolve());
+
   // Derived state: The currently active project
   const activeProject = projects.find(p => p.id === activeProjectId) || projects[0];
 
-  // Load API Keys from local storage on mount
+  // Latest projects for recording undo steps outside of state updaters
+  const projectsRef = useRef(projects);
+  projectsRef.current = projects;
+  const historyRef = useRef<Record<string, ProjectHistory>>({});
+  // Latest key pool, read by the scheduler whenever it starts a request
+  const keyPoolRef = useRef<ApiKeyEntry[]>([]);
+  const schedulerRef = useRef<GenerationScheduler | null>(null);
+  if (!schedulerRef.current) {
+    schedulerRef.current = createGenerationScheduler(() => keyPoolRef.current, loadSchedulerSettings());
+  }
+  const scheduler = schedulerRef.current;
+  const schedulerState = useSyncExternalStore(scheduler.subscribe, scheduler.getSnapshot);
+  const activeProvider = getProvider(activeProject.providerId);
+
+  // Load the API key pool from local storage on mount
+  useEffect(() => {
+    const pool = loadKeyPool();
+    keyPoolRef.current = pool;
+    setKeyPool(pool);
+  }, []);
+
+  // The scheduler drops the queued work of closed projects
+  const projectIdsKey = projects.map(p => p.id).join(',');
+  useEffect(() => {
+    scheduler.setProjects(projectIdsKey.split(','));
+  }, [projectIdsKey]);
+
+  // Keys enabled, added or out of cooldown may unblock waiting requests
+  useEffect(() => {
+    scheduler.refresh();
+  }, [keyPool]);
+
+  // Restore saved projects and audio on startup
   useEffect(() => {
-    const storedKeys = localStorage.getItem('gemini_api_keys');
-    if (storedKeys) {
+    loadWorkspace()
+      .then(workspace => {
+        if (!workspace) return;
+        workspace.projects.forEach(project => [...project.segments.flatMap<{ id: string; audioUrl?: string }>(s => s.takes ?? [s]), ...project.musicBed.tracks].forEach(s => {
+          if (s.audioUrl) persistedAudioRef.current[s.id] = s.audioUrl;
+        }));
+        setProjects(workspace.projects);
+        const restoredActive = workspace.projects.find(p => p.id === workspace.activeProjectId);
+        setActiveProjectId(restoredActive ? restoredActive.id : workspace.projects[0].id);
+      })
+      .catch(e => console.error("Failed to restore saved projects", e))
+      .finally(() => setIsHydrated(true));
+  }, []);
+
+  // Autosave projects and any newly generated audio
+  useEffect(() => {
+    if (!isHydrated) return;
+
+    const timer = setTimeout(() => {
+      // Chained so an older save cannot finish last and prune audio a newer one just wrote
+      autosaveRef.current = autosaveRef.current.then(async () => {
         try {
-            const parsed = JSON.parse(storedKeys);
-            if (Array.isArray(parsed)) {
-                setApiKeys(parsed);
-                setApiKeyInput(parsed.join('\n'));
+          await saveProjects(projects, activeProjectId);
+
+          const liveIds = new Set<string>();
+          for (const project of projects) {
+            for (const segment of project.segments) {
+              // Audio is stored per take; segments from before takes keep theirs under the segment id
+              const audioItems = segment.takes
+                ?? (segment.status === SegmentStatus.COMPLETED ? [segment] : []);
+              for (const item of audioItems) {
+                liveIds.add(item.id);
+                if (!item.audioUrl || persistedAudioRef.current[item.id] === item.audioUrl) continue;
+
+                const blob = await (await fetch(item.audioUrl)).blob();
+                await saveAudio(item.id, blob);
+                persistedAudioRef.current[item.id] = item.audioUrl;
+              }
             }
-        } catch (e) {
-            // Fallback for migration from single key string if needed, or just ignore
-            if (!storedKeys.startsWith('[')) {
-                setApiKeys([storedKeys]);
-                setApiKeyInput(storedKeys);
+            for (const track of project.musicBed.tracks) {
+              liveIds.add(track.id);
+              if (!track.audioUrl || persistedAudioRef.current[track.id] === track.audioUrl) continue;
+
+              const blob = await (await fetch(track.audioUrl)).blob();
+              await saveAudio(track.id, blob);
+              persistedAudioRef.current[track.id] = track.audioUrl;
             }
+          }
+
+          await pruneAudio(liveIds);
+          Object.keys(persistedAudioRef.current)
+            .filter(id => !liveIds.has(id))
+            .forEach(id => delete persistedAudioRef.current[id]);
+        } catch (e) {
+          console.error("Autosave failed", e);
         }
-    } else {
-        // Fallback: check old single key storage
-        const oldKey = localStorage.getItem('gemini_api_key');
-        if (oldKey) {
-            setApiKeys([oldKey]);
-            setApiKeyInput(oldKey);
-        }
-    }
-  }, []);
+      });
+    }, AUTOSAVE_DELAY_MS);
+
+    return () => clearTimeout(timer);
+  }, [projects, activeProjectId, isHydrated]);
+
+  // Measure audio restored without a duration (older saves, imported bundles),
+  // and re-analyze silence when the trim threshold changes
+  const measuringRef = useRef<Set<string>>(new Set());
+  useEffect(() => {
+    projects.forEach(project => project.segments.forEach(segment => {
+      if (!isExportable(segment) || measuringRef.current.has(segment.id)) return;
+      if (segment.duration !== undefined && !needsSilenceAnalysis(segment, project.exportSettings)) return;
+      measuringRef.current.add(segment.id);
+      const { silenceThresholdDb } = project.exportSettings;
+      fetchPcm(segment.audioUrl!)
+        .then(({ samples, sampleRate }) => {
+          const duration = samples.length / sampleRate;
+          // Silence is measured on the audio as edited, since that is what gets trimmed
+          const edited = segment.edit ? applyAudioEdit(int16ToFloat(samples), sampleRate, segment.edit) : samples;
+          const silence = analyzeSilence(edited, sampleRate, silenceThresholdDb);
+          updateProject(project.id, prev => ({
+            segments: prev.segments.map(s => s.id === segment.id && s.audioUrl === segment.audioUrl && s.edit === segment.edit ? syncChosenTake({ ...s, duration, silence }) : s)
+          }), false);
+        })
+        .catch(e => console.warn(`Could not measure segment ${segment.id}`, e))
+        .finally(() => measuringRef.current.delete(segment.id));
+    }));
+  }, [projects]);
 
   // Cleanup preview audio on unmount
   useEffect(() => {
@@ -92,22 +279,111 @@ function App() {
     };
   }, [previewAudio]);
 
-  const saveApiKeys = () => {
-      // Split by newline, trim, remove empty lines
-      const keys = apiKeyInput
-        .split('\n')
-        .map(k => k.trim())
-        .filter(k => k.length > 0);
-      
-      setApiKeys(keys);
-      localStorage.setItem('gemini_api_keys', JSON.stringify(keys));
-      // Clean up old single key storage
-      localStorage.removeItem('gemini_api_key');
-      setShowSettings(false);
+  // --- API KEY POOL ---
+
+  const updateKeyPool = (update: (entries: ApiKeyEntry[]) => ApiKeyEntry[]) => {
+    const next = update(keyPoolRef.current);
+    keyPoolRef.current = next;
+    setKeyPool(next);
+    saveKeyPool(next);
+  };
+
+  // Runs a provider request, recording the pool key's usage and outcome
+  const generateWithKey = async (provider: TtsProvider, request: TtsRequest): Promise<string> => {
+    const { apiKey } = request;
+    if (!apiKey || !keyPoolRef.current.some(e => e.key === apiKey)) return provider.generate(request);
+
+    updateKeyPool(entries => updateKey(entries, apiKey, e => recordRequest(e, request.text.length)));
+    try {
+      const url = await provider.generate(request);
+      updateKeyPool(entries => updateKey(entries, apiKey, recordSuccess));
+      return url;
+    } catch (error) {
+      updateKeyPool(entries => updateKey(entries, apiKey, e => recordFailure(e, error)));
+      throw error;
+    }
   };
 
+  const handleSchedulerSettingsChange = (updates: Partial<SchedulerSettings>) => {
+    const next = { ...schedulerState.settings, ...updates };
+    scheduler.updateSettings(next);
+    saveSchedulerSettings(next);
+  };
+
+  const handleAudioCacheSettingsChange = (updates: Partial<AudioCacheSettings>) => {
+    const next = { ...audioCacheSettings, ...updates };
+    setAudioCacheSettings(next);
+    saveAudioCacheSettings(next);
+  };
+
+  const handleTestKey = async (key: string) => {
+    const provider = getProvider(GEMINI_PROVIDER_ID);
+    setTestingKeys(prev => new Set(prev).add(key));
+    try {
+      const url = await generateWithKey(provider, { text: KEY_TEST_TEXT, voice: provider.voices[0].name, apiKey: key });
+      URL.revokeObjectURL(url);
+    } catch (e) {
+      console.warn("Key test failed", e);
+    } finally {
+      setTestingKeys(prev => {
+        const next = new Set(prev);
+        next.delete(key);
+        return next;
+      });
+    }
+  };
+
+  const handleGlobalLexiconsChange = (lexicons: Lexicon[]) => {
+      setGlobalLexicons(lexicons);
+      saveGlobalLexicons(lexicons);
+  };
+
+  // Lexicon and normalization settings that turn a project's segment text into spoken text
+  const getSpokenTextOptions = (project: ProjectState): SpokenTextOptions => ({
+      normalize: project.normalizeText,
+      lexicon: mergeLexicons(
+        project.lexicon,
+        globalLexicons.filter(l => project.globalLexiconIds.includes(l.id)).flatMap(l => l.entries)
+      ),
+  });
+
   // Helper to update a specific project by ID
-  const updateProject = (id: string, updates: Partial<ProjectState> | ((prev: ProjectState) => Partial<ProjectState>)) => {
+  // Revokes the given object URLs unless a project or an undo step still uses them
+  const revokeUnusedAudio = (urls: Iterable<string>) => {
+    const kept = collectAudioUrls([
+      ...projectsRef.current,
+      ...Object.values(historyRef.current).flatMap(h => [...h.past, ...h.future]),
+    ]);
+    for (const url of urls) if (!kept.has(url)) URL.revokeObjectURL(url);
+  };
+
+  // Drops history for states that are gone, revoking audio no state still uses
+  const releaseHistory = (dropped: ProjectState[]) => {
+    if (dropped.length === 0) return;
+    revokeUnusedAudio(collectAudioUrls(dropped));
+  };
+
+  // Takes pushed out past MAX_TAKES, released once the update that dropped them has rendered
+  const droppedTakeUrlsRef = useRef<Set<string>>(new Set());
+  useEffect(() => {
+    if (droppedTakeUrlsRef.current.size === 0) return;
+    const urls = droppedTakeUrlsRef.current;
+    droppedTakeUrlsRef.current = new Set();
+    revokeUnusedAudio(urls);
+  }, [projects]);
+
+  // Edits are recorded for undo; pass recordHistory = false for background updates
+  const updateProject = (id: string, updates: Partial<ProjectState> | ((prev: ProjectState) => Partial<ProjectState>), recordHistory = true) => {
+    const before = projectsRef.current.find(p => p.id === id);
+    if (recordHistory && before) {
+      const preview = typeof updates === 'function' ? updates(before) : updates;
+      if (isUndoableUpdate(preview)) {
+        const { history, dropped } = recordChange(historyRef.current[id] ?? createHistory(), before, preview);
+        historyRef.current[id] = history;
+        releaseHistory(dropped);
+      }
+    }
+
     setProjects(prevProjects => prevProjects.map(p => {
       if (p.id !== id) return p;
       const newValues = typeof updates === 'function' ? updates(p) : updates;
@@ -120,6 +396,42 @@ function App() {
     updateProject(activeProjectId, updates);
   };
 
+  const applyHistoryStep = (step: typeof undoChange) => {
+    const current = projectsRef.current.find(p => p.id === activeProjectId);
+    const result = current && step(historyRef.current[activeProjectId] ?? createHistory(), current);
+    if (!result) return;
+    historyRef.current[activeProjectId] = result.history;
+    setProjects(prev => prev.map(p => p.id === activeProjectId ? restoreSnapshot(result.snapshot, p) : p));
+  };
+
+  const handleUndo = () => applyHistoryStep(undoChange);
+  const handleRedo = () => applyHistoryStep(redoChange);
+
+  const canUndo = (historyRef.current[activeProjectId]?.past.length ?? 0) > 0;
+  const canRedo = (historyRef.current[activeProjectId]?.future.length ?? 0) > 0;
+
+  // Ctrl/Cmd+Z, Ctrl/Cmd+Shift+Z and Ctrl+Y; text fields keep their own undo
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.altKey) return;
+      const target = e.target as HTMLElement | null;
+      const isTextField = target instanceof HTMLTextAreaElement || target?.isContentEditable
+        || (target instanceof HTMLInputElement && !['checkbox', 'radio', 'range', 'button'].includes(target.type));
+      if (isTextField) return;
+
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        handleUndo();
+      } else if ((key === 'z' && e.shiftKey) || (key === 'y' && !e.metaKey)) {
+        e.preventDefault();
+        handleRedo();
+      }
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  });
+
   // Reset export status if segments change
   useEffect(() => {
     if (activeProject.hasExported) {
@@ -149,6 +461,10 @@ function App() {
 
     const newProjects = projects.filter(p => p.id !== projectId);
     setProjects(newProjects);
+
+    const history = historyRef.current[projectId];
+    delete historyRef.current[projectId];
+    if (history) releaseHistory([...history.past, ...history.future]);
     
     if (activeProjectId === projectId) {
       setActiveProjectId(newProjects[newProjects.length - 1].id);
@@ -168,6 +484,53 @@ function App() {
       setEditingProjectId(null);
   };
 
+  const handleProviderChange = (providerId: string) => {
+    const provider = getProvider(providerId);
+    updateActiveProject(prev => ({
+      providerId: provider.id,
+      selectedVoice: provider.voices.some(v => v.name === prev.selectedVoice) 
+        ? prev.selectedVoice 
+        : provider.voices[0].name,
+    }));
+  };
+
+  // --- PROJECT BUNDLE HANDLERS ---
+
+  const handleExportProject = async () => {
+    setIsBundleBusy(true);
+    try {
+      const blob = await exportProjectBundle(activeProject);
+      const url = URL.createObjectURL(blob);
+      const baseName = activeProject.name.trim().replace(/[\\/:*?"<>|]+/g, '_') || 'project';
+      triggerDownload(url, `${baseName}${BUNDLE_EXTENSION}`);
+      setTimeout(() => URL.revokeObjectURL(url), 10000);
+    } catch (e) {
+      console.error("Project export failed", e);
+      alert("Failed to export project.");
+    } finally {
+      setIsBundleBusy(false);
+    }
+  };
+
+  const handleImportProject = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+
+    setIsBundleBusy(true);
+    try {
+      const imported = await importProjectBundle(file, generateId);
+      const newProject: ProjectState = { id: generateId(), ...imported };
+      setProjects(prev => [...prev, newProject]);
+      setActiveProjectId(newProject.id);
+    } catch (err: any) {
+      console.error("Project import failed", err);
+      alert(`Failed to import project: ${err?.message || 'Unknown error'}`);
+    } finally {
+      setIsBundleBusy(false);
+    }
+  };
+
   // --- PREVIEW HANDLER ---
   const handlePreviewVoice = async () => {
     // If currently playing, stop it
@@ -179,19 +542,17 @@ function App() {
 
     setIsPreviewLoading(true);
     try {
-      // Pick a random key from the list to spread load, or undefined if list empty
-      const keyToUse = apiKeys.length > 0 
-        ? apiKeys[Math.floor(Math.random() * apiKeys.length)] 
-        : undefined;
+      // Least-used healthy key, or the environment key if the pool has none
+      const keyToUse = activeProvider.capabilities.requiresApiKey ? pickKey(keyPoolRef.current) : undefined;
 
       const previewText = "হ্যালো, আমি আপনার নির্বাচিত ভয়েস।";
-      const url = await generateSpeechSegment(
-        previewText, 
-        activeProject.selectedVoice, 
-        activeProject.styleInstruction,
-        activeProject.speakingRate,
-        keyToUse
-      );
+      const url = await generateWithKey(activeProvider, {
+        text: buildSpokenText(previewText, getSpokenTextOptions(activeProject)),
+        voice: activeProject.selectedVoice,
+        styleInstruction: activeProject.styleInstruction,
+        speakingRate: activeProject.speakingRate,
+        apiKey: keyToUse,
+      });
       
       const audio = new Audio(url);
       audio.onended = () => {
@@ -210,53 +571,91 @@ function App() {
 
   // --- AUDIO LOGIC HANDLERS ---
 
+  // Never exceed what the selected provider accepts in one request
+  const maxChunkLength = Math.min(activeProject.maxChunkLength, activeProvider.capabilities.maxCharsPerRequest);
+
+  const chunkIntoSegments = (text: string) => {
+    const chunks: DialogueChunk[] = activeProject.dialogueMode
+      ? segmentDialogue(text, { maxChunkLength })
+      : segmentText(text, { maxChunkLength });
+
+    const newSegments: AudioSegment[] = chunks.map(chunk => ({
+      id: generateId(),
+      text: chunk.text,
+      status: SegmentStatus.IDLE,
+      volume: 1.0,
+      isSelected: false,
+      boundary: chunk.boundary,
+      speaker: chunk.speaker,
+      heading: chunk.heading,
+    }));
+
+    const speakerNames = Array.from(new Set(chunks.map(c => c.speaker).filter((name): name is string => !!name)));
+    return { newSegments, speakerNames };
+  };
+
   const handleChunkText = () => {
     if (!activeProject.inputText.trim()) return;
 
-    // Simple heuristic to split by sentence endings while respecting max length
-    const rawSegments = activeProject.inputText
-      .replace(/([।?!])/g, "$1|")
-      .split("|")
-      .map(s => s.trim())
-      .filter(s => s.length > 0);
-
-    const newSegments: AudioSegment[] = [];
-    let currentChunk = "";
-
-    rawSegments.forEach((sentence) => {
-      if ((currentChunk.length + sentence.length) < MAX_CHUNK_LENGTH) {
-        currentChunk += (currentChunk ? " " : "") + sentence;
-      } else {
-        if (currentChunk) {
-          newSegments.push({
-            id: generateId(),
-            text: currentChunk,
-            status: SegmentStatus.IDLE,
-            volume: 1.0,
-            isSelected: false,
-          });
-        }
-        currentChunk = sentence;
-      }
-    });
-    
-    if (currentChunk) {
-      newSegments.push({
-        id: generateId(),
-        text: currentChunk,
-        status: SegmentStatus.IDLE,
-        volume: 1.0,
-        isSelected: false,
-      });
-    }
+    const { newSegments, speakerNames } = chunkIntoSegments(activeProject.inputText);
 
     updateActiveProject((prev) => ({
       segments: [...prev.segments, ...newSegments],
+      speakers: assignSpeakerVoices(prev.speakers, speakerNames, activeProvider.voices, prev.selectedVoice),
       inputText: "", // Clear input after chunking
       hasExported: false
     }));
   };
 
+  // Documents land in the input text for review; subtitle cues go straight to the queue with their times
+  const handleImportSourceFile = async (file: File) => {
+    setIsImportingText(true);
+    try {
+      const source = await importSourceFile(file);
+      if (source.kind === 'text') {
+        updateActiveProject(prev => ({
+          inputText: prev.inputText.trim() ? `${prev.inputText.trimEnd()}\n\n${source.text}` : source.text,
+        }));
+        return;
+      }
+
+      const newSegments: AudioSegment[] = source.cues.flatMap(cue =>
+        segmentText(cue.text, { maxChunkLength }).map((chunk, i) => ({
+          id: generateId(),
+          text: chunk.text,
+          status: SegmentStatus.IDLE,
+          volume: 1.0,
+          isSelected: false,
+          // Cue times, not paragraph gaps, space the lines out
+          boundary: chunk.boundary === 'paragraph' ? 'sentence' : chunk.boundary,
+          timecode: i === 0 ? { startSeconds: cue.startSeconds, endSeconds: cue.endSeconds } : undefined,
+        }))
+      );
+      updateActiveProject((prev) => ({
+        segments: [...prev.segments, ...newSegments],
+        hasExported: false
+      }));
+    } catch (err: any) {
+      console.error("Text import failed", err);
+      alert(`Failed to import ${file.name}: ${err?.message || 'Unknown error'}`);
+    } finally {
+      setIsImportingText(false);
+    }
+  };
+
+  const handleTextFileSelected = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (file) handleImportSourceFile(file);
+  };
+
+  const handleTextFileDrop = (e: React.DragEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    setIsDraggingFile(false);
+    const file = e.dataTransfer.files[0];
+    if (file) handleImportSourceFile(file);
+  };
+
   const processQueue = useCallback(async (projectIdToRun: string) => {
     const currentProject = projects.find(p => p.id === projectIdToRun);
     if (!currentProject || currentProject.isProcessing) return;
@@ -265,7 +664,8 @@ function App() {
     stopSignalsRef.current[projectIdToRun] = false;
 
     const segmentsToProcess = currentProject.segments.filter(s => s.status === SegmentStatus.IDLE || s.status === SegmentStatus.QUEUED);
-    const total = segmentsToProcess.length;
+    const takesFor = (segment: AudioSegment) => Math.min(MAX_TAKES_PER_RUN, Math.max(1, segment.takesRequested ?? 1));
+    const total = segmentsToProcess.reduce((sum, s) => sum + takesFor(s), 0);
 
     if (total === 0) {
         updateProject(projectIdToRun, { isProcessing: false });
@@ -279,84 +679,165 @@ function App() {
             progress: { current: 0, total },
             segments: p.segments.map(s => 
                 segmentsToProcess.some(sp => sp.id === s.id) 
-                ? { ...s, status: SegmentStatus.PROCESSING, error: undefined } 
+                ? { ...s, status: SegmentStatus.PROCESSING, error: undefined, errorCode: undefined } 
                 : s
             )
         };
     }));
 
-    const { selectedVoice, styleInstruction, speakingRate } = currentProject;
-    const CONCURRENCY_LIMIT = 2; 
-    const executing = new Set<Promise<void>>();
+    const { exportSettings } = currentProject;
+    const provider = getProvider(currentProject.providerId);
+    const spokenTextOptions = getSpokenTextOptions(currentProject);
     let completedCount = 0;
-    
-    // Round Robin Key Index
-    let keyIndex = 0;
+    const shouldStop = () => !!stopSignalsRef.current[projectIdToRun];
 
-    for (const segment of segmentsToProcess) {
-      if (stopSignalsRef.current[projectIdToRun]) break;
+    const updateSegment = (id: string, update: Partial<AudioSegment> | ((segment: AudioSegment) => AudioSegment)) => {
+        setProjects(prev => prev.map(p => {
+            if (p.id !== projectIdToRun) return p;
+            return { ...p, segments: p.segments.map(s => s.id !== id ? s : typeof update === 'function' ? update(s) : { ...s, ...update }) };
+        }));
+    };
 
-      // Select Key for this specific request
-      const keyToUse = apiKeys.length > 0 
-        ? apiKeys[keyIndex++ % apiKeys.length] 
-        : undefined;
+    const countCompleted = () => {
+        completedCount++;
+        setProjects(prev => prev.map(p => {
+            if (p.id !== projectIdToRun) return p;
+            return { ...p, progress: { ...p.progress, current: completedCount } };
+        }));
+    };
+
+    // A segment settles once all of its takes for this run have finished
+    const runs: Record<string, { pending: number; added: number; error?: unknown }> = {};
+
+    const settleSegment = (id: string) => {
+        const run = runs[id];
+        if (--run.pending > 0) return;
+        if (run.added > 0) {
+            updateSegment(id, { status: SegmentStatus.COMPLETED, bypassCache: undefined, takesRequested: undefined });
+        } else if (run.error !== undefined) {
+            const message = run.error instanceof Error ? run.error.message : String(run.error);
+            updateSegment(id, { status: SegmentStatus.ERROR, error: message || 'Generation failed', errorCode: getErrorCode(run.error) });
+        } else {
+            // Stopped before any take finished: leave it queued for the next run
+            updateSegment(id, { status: SegmentStatus.QUEUED });
+        }
+    };
+
+    // Measures a new take for export, then keeps it as the chosen take
+    const completeTake = async (id: string, take: Omit<SegmentTake, 'id' | 'createdAt'>) => {
+        const { samples, sampleRate } = await fetchPcm(take.audioUrl!);
+        const duration = samples.length / sampleRate;
+        const silence = analyzeSilence(samples, sampleRate, exportSettings.silenceThresholdDb);
+
+        const added: SegmentTake = { ...take, id: generateId(), createdAt: Date.now(), duration, silence };
+        updateSegment(id, segment => {
+            const { segment: next, dropped } = addTake(segment, added);
+            dropped.forEach(t => { if (t.audioUrl) droppedTakeUrlsRef.current.add(t.audioUrl); });
+            return next;
+        });
+        runs[id].added++;
+        countCompleted();
+    };
 
-      const p = (async () => {
+    // Requests run on the shared scheduler, which picks the key and the moment.
+    // Each segment is submitted as soon as its cache lookup misses, so generation
+    // starts while later segments are still being looked up.
+    const submissions: Promise<void>[] = [];
+    for (const segment of segmentsToProcess) {
+      const spokenText = buildSpokenText(segment.text, spokenTextOptions);
+      const { voice, styleInstruction, speakingRate } = resolveSegmentVoice(currentProject, segment, provider.voices);
+      const cacheParts = { providerId: provider.id, model: provider.model, text: spokenText, voice, styleInstruction, speakingRate };
+      const takeCount = takesFor(segment);
+      runs[segment.id] = { pending: takeCount, added: 0 };
+
+      // Audio made earlier for the same request, by any project, needs no new one.
+      // Asking for several takes means asking for fresh variations, so it skips the cache.
+      if (audioCacheSettings.enabled && takeCount === 1 && !segment.bypassCache && !shouldStop()) {
         try {
-            const audioUrl = await generateSpeechSegment(segment.text, selectedVoice, styleInstruction, speakingRate, keyToUse);
-            
-            if (stopSignalsRef.current[projectIdToRun]) return;
-            
-            setProjects(prev => prev.map(p => {
-                if (p.id !== projectIdToRun) return p;
-                return {
-                    ...p,
-                    segments: p.segments.map(s => s.id === segment.id ? { ...s, status: SegmentStatus.COMPLETED, audioUrl } : s)
-                };
-            }));
-
-        } catch (error: any) {
-            if (stopSignalsRef.current[projectIdToRun]) return;
-            
-            console.error(`Segment ${segment.id} failed:`, error);
-            setProjects(prev => prev.map(p => {
-                if (p.id !== projectIdToRun) return p;
-                return {
-                    ...p,
-                    segments: p.segments.map(s => s.id === segment.id ? { ...s, status: SegmentStatus.ERROR, error: error.message || 'Generation failed' } : s)
-                };
-            }));
-        } finally {
-            if (!stopSignalsRef.current[projectIdToRun]) {
-                completedCount++;
-                setProjects(prev => prev.map(p => {
-                    if (p.id !== projectIdToRun) return p;
-                    return { ...p, progress: { ...p.progress, current: completedCount } };
-                }));
-            }
+          const blob = await getCachedAudio(cacheParts);
+          if (blob) {
+            await completeTake(segment.id, { audioUrl: URL.createObjectURL(blob), spokenText, voice, styleInstruction, speakingRate, cached: true });
+            settleSegment(segment.id);
+            continue;
+          }
+        } catch (e) {
+          console.warn(`Cache lookup for segment ${segment.id} failed`, e);
         }
-      })();
+      }
 
-      executing.add(p);
-      const clean = () => executing.delete(p);
-      p.then(clean).catch(clean);
+      const jobs: GenerationJob[] = [];
+      for (let take = 1; take <= takeCount; take++) {
+        jobs.push({
+          id: takeCount > 1 ? `${segment.id}:${take}` : segment.id,
+          projectId: projectIdToRun,
+          providerId: provider.id,
+          requiresApiKey: provider.capabilities.requiresApiKey,
+          run: async (apiKey) => {
+            try {
+                const audioUrl = await generateWithKey(provider, {
+                  text: spokenText,
+                  voice,
+                  styleInstruction,
+                  speakingRate,
+                  apiKey,
+                });
+
+                // Stopped while generating: this take is not kept
+                if (shouldStop()) {
+                    settleSegment(segment.id);
+                    return;
+                }
+
+                await completeTake(segment.id, { audioUrl, spokenText, voice, styleInstruction, speakingRate });
+                settleSegment(segment.id);
+                if (audioCacheSettings.enabled) {
+                    putCachedAudio(cacheParts, audioUrl, audioCacheSettings.maxSizeMb)
+                      .catch(e => console.warn(`Could not cache audio for segment ${segment.id}`, e));
+                }
 
-      if (executing.size >= CONCURRENCY_LIMIT) {
-        await Promise.race(executing);
+            } catch (error) {
+                // Stopped while generating: not retried and not a failure
+                if (shouldStop()) {
+                    settleSegment(segment.id);
+                    return;
+                }
+                throw error;
+            }
+          },
+          onRetry: (error, attempt, delayMs) => {
+            console.warn(`Segment ${segment.id} failed (attempt ${attempt}), retrying in ${delayMs}ms:`, error);
+          },
+          onFail: (error) => {
+            console.error(`Segment ${segment.id} failed:`, error);
+            runs[segment.id].error = error;
+            countCompleted();
+            settleSegment(segment.id);
+          },
+          onCancel: () => settleSegment(segment.id),
+        });
       }
+
+      // Stopped during the cache lookups: the rest stay queued for the next run
+      if (shouldStop()) jobs.forEach(job => job.onCancel());
+      else submissions.push(scheduler.submit(projectIdToRun, jobs));
     }
 
-    await Promise.all(executing);
+    await Promise.all(submissions);
 
     updateProject(projectIdToRun, { 
         isProcessing: false, 
         progress: { current: 0, total: 0 } 
     });
 
-  }, [projects, apiKeys]); 
+  }, [projects, globalLexicons, audioCacheSettings]); 
+
+  // Latest processQueue, for runs started right after a state update
+  const processQueueRef = useRef(processQueue);
+  processQueueRef.current = processQueue;
 
   const handleStop = () => {
     stopSignalsRef.current[activeProjectId] = true;
+    scheduler.cancel(activeProjectId);
     updateActiveProject({ isProcessing: false });
   };
 
@@ -370,16 +851,52 @@ function App() {
     }
   };
 
-  const handleRetry = useCallback((id: string) => {
+  // Bypassing the cache asks the provider for a fresh take, which also replaces the cached audio
+  const handleRetry = useCallback((id: string, bypassCache = false) => {
     updateActiveProject((prev) => ({
         hasExported: false,
-        segments: prev.segments.map(s => s.id === id ? { ...s, status: SegmentStatus.IDLE, error: undefined } : s)
+        segments: prev.segments.map(s => s.id === id ? { ...s, status: SegmentStatus.IDLE, error: undefined, errorCode: undefined, bypassCache: bypassCache || undefined } : s)
     }));
     
     setTimeout(() => {
-        processQueue(activeProjectId);
+        processQueueRef.current(activeProjectId);
+    }, 100);
+  }, [activeProjectId]); 
+
+  // Queues `count` new takes for each selected segment; the newest becomes the chosen take
+  const handleGenerateTakes = (count: number) => {
+    updateActiveProject(prev => ({
+        hasExported: false,
+        segments: prev.segments.map(s => s.isSelected && s.status !== SegmentStatus.PROCESSING
+          ? { ...s, status: SegmentStatus.QUEUED, error: undefined, errorCode: undefined, takesRequested: count }
+          : s)
+    }));
+
+    setTimeout(() => {
+        processQueueRef.current(activeProjectId);
     }, 100);
-  }, [activeProjectId, processQueue]); 
+  };
+
+  // Choosing between takes is not an undo step; every take stays available
+  const handleChooseTake = (id: string, takeId: string) => {
+    updateProject(activeProjectId, prev => ({
+        hasExported: false,
+        segments: prev.segments.map(s => s.id === id ? chooseTake(s, takeId) : s)
+    }), false);
+  };
+
+  const handleAudioEditChange = (id: string, edit: AudioEdit | undefined) => {
+    updateActiveProject(prev => ({
+        hasExported: false,
+        segments: prev.segments.map(s => s.id === id ? withAudioEdit(s, edit) : s)
+    }));
+  };
+
+  const handleDeleteTake = (id: string, takeId: string) => {
+    updateProject(activeProjectId, prev => ({
+        segments: prev.segments.map(s => s.id === id ? deleteTake(s, takeId) : s)
+    }), false);
+  };
 
   const handleDeleteSegment = useCallback((id: string) => {
     updateActiveProject((prev) => ({
@@ -395,6 +912,160 @@ function App() {
     }));
   };
 
+  // Marks segments for regeneration, e.g. after a lexicon entry they use has changed
+  const handleRequeueSegments = (ids: string[]) => {
+    if (ids.length === 0) return;
+    updateActiveProject(prev => ({
+        hasExported: false,
+        segments: prev.segments.map(s => ids.includes(s.id) ? { ...s, status: SegmentStatus.QUEUED, error: undefined, errorCode: undefined } : s)
+    }));
+  };
+
+  const handleOverridesChange = (id: string, overrides: VoiceOverrides | undefined) => {
+    updateActiveProject(prev => ({
+        hasExported: false,
+        segments: prev.segments.map(s => s.id === id ? withOverrides(s, overrides) : s)
+    }));
+  };
+
+  const handleBulkOverrides = (overrides: VoiceOverrides | undefined) => {
+    updateActiveProject(prev => ({
+        hasExported: false,
+        segments: prev.segments.map(s => s.isSelected ? withOverrides(s, overrides) : s)
+    }));
+    setShowBulkOverrides(false);
+  };
+
+  // A speaker's new voice or style only affects that speaker's segments
+  const handleSpeakerChange = (name: string, updates: Partial<Omit<SpeakerVoice, 'name'>>) => {
+    updateActiveProject(prev => {
+      const exists = prev.speakers.some(s => s.name === name);
+      const speakers = exists
+        ? prev.speakers.map(s => s.name === name ? { ...s, ...updates } : s)
+        : [...prev.speakers, { name, voice: prev.selectedVoice, styleInstruction: '', ...updates }];
+      return {
+        speakers,
+        hasExported: false,
+        segments: prev.segments.map(s =>
+          s.speaker === name && (s.status === SegmentStatus.COMPLETED || s.status === SegmentStatus.ERROR)
+            ? { ...s, status: SegmentStatus.QUEUED, error: undefined, errorCode: undefined }
+            : s
+        )
+      };
+    });
+  };
+
+  const handleSegmentTextChange = (id: string, text: string) => {
+    updateActiveProject(prev => ({
+        hasExported: false,
+        segments: editSegmentText(prev.segments, id, text)
+    }));
+  };
+
+  const handleSplitSegment = (id: string, text: string, offset: number) => {
+    updateActiveProject(prev => ({
+        hasExported: false,
+        segments: splitSegment(prev.segments, id, text, offset, generateId())
+    }));
+  };
+
+  const handleJoinSegment = (id: string) => {
+    updateActiveProject(prev => ({
+        hasExported: false,
+        segments: joinWithNext(prev.segments, id)
+    }));
+  };
+
+  const handleInsertSegments = (index: number, text: string) => {
+    const { newSegments, speakerNames } = chunkIntoSegments(text);
+    updateActiveProject(prev => ({
+        hasExported: false,
+        segments: insertSegments(prev.segments, index, newSegments),
+        speakers: assignSpeakerVoices(prev.speakers, speakerNames, activeProvider.voices, prev.selectedVoice)
+    }));
+  };
+
+  const handleMoveSegment = (id: string, toIndex: number) => {
+    updateActiveProject(prev => ({
+        hasExported: false,
+        segments: moveSegment(prev.segments, id, toIndex)
+    }));
+  };
+
+  const handleChapterChange = (id: string, title: string | undefined) => {
+    updateActiveProject(prev => ({
+        segments: setChapterTitle(prev.segments, id, title),
+        hasExported: false
+    }));
+  };
+
+  const handleMarkHeadingChapters = () => {
+    updateActiveProject(prev => ({
+        segments: markHeadingChapters(prev.segments),
+        hasExported: false
+    }));
+  };
+
+  const handleToggleGlobalLexicon = (lexiconId: string) => {
+    updateActiveProject(prev => ({
+        globalLexiconIds: prev.globalLexiconIds.includes(lexiconId)
+          ? prev.globalLexiconIds.filter(id => id !== lexiconId)
+          : [...prev.globalLexiconIds, lexiconId]
+    }));
+  };
+
+  const handlePauseAfterChange = (id: string, pauseAfterMs: number | undefined) => {
+    updateActiveProject(prev => ({
+        segments: prev.segments.map(s => s.id === id ? { ...s, pauseAfterMs } : s),
+        hasExported: false
+    }));
+  };
+
+  const handleMusicBedChange = (updates: Partial<MusicBedSettings>) => {
+    updateActiveProject(prev => ({
+        musicBed: { ...prev.musicBed, ...updates },
+        hasExported: false
+    }));
+  };
+
+  const handleAddMusicTracks = async (files: File[]) => {
+    const projectId = activeProject.id;
+    const added: MusicTrack[] = [];
+    for (const file of files) {
+      const audioUrl = URL.createObjectURL(file);
+      try {
+        const duration = await measureMusicTrack(audioUrl);
+        added.push({ id: generateId(), name: file.name, audioUrl, duration });
+      } catch (e) {
+        console.error(`Could not decode ${file.name}`, e);
+        URL.revokeObjectURL(audioUrl);
+        alert(`"${file.name}" could not be read as audio by this browser.`);
+      }
+    }
+    if (added.length === 0) return;
+    updateProject(projectId, prev => ({
+        musicBed: { ...prev.musicBed, enabled: true, tracks: [...prev.musicBed.tracks, ...added] },
+        hasExported: false
+    }));
+  };
+
+  // The track's audio stays alive for undo and is released with its history
+  const handleRemoveMusicTrack = (id: string) => {
+    handleMusicBedChange({ tracks: activeProject.musicBed.tracks.filter(t => t.id !== id) });
+  };
+
+  const handleExportSettingsChange = (updates: Partial<ExportSettings>) => {
+    updateActiveProject(prev => ({
+        exportSettings: { ...prev.exportSettings, ...updates },
+        hasExported: false
+    }));
+  };
+
+  // Switching format resets the bitrate to that format's default
+  const handleExportFormatChange = (format: ExportFormat) => {
+    handleExportSettingsChange({ format, bitrateKbps: EXPORT_FORMATS[format].defaultBitrate || DEFAULT_EXPORT_SETTINGS.bitrateKbps });
+  };
+
   const handleToggleSelect = (id: string) => {
     updateActiveProject(prev => ({
         segments: prev.segments.map(s => s.id === id ? { ...s, isSelected: !s.isSelected } : s)
@@ -420,84 +1091,153 @@ function App() {
       });
   };
 
+  const hasMusicBed = (project: ProjectState) =>
+    project.musicBed.enabled && project.musicBed.tracks.some(t => t.audioUrl);
+
+  // Stages run on the merged narration before limiting
+  const getMixStages = (project: ProjectState): MixStage[] =>
+    hasMusicBed(project) ? [createMusicBedStage(project.musicBed)] : [];
+
+  // Captions use the same timeline as the merged audio so they stay in sync
+  const downloadSubtitles = (merged: MergedAudio) => {
+    const { subtitleFormat } = activeProject.exportSettings;
+    const captions = buildCaptions(activeProject.segments, merged.timeline);
+    const baseName = stripAudioExtension(activeProject.exportFilename.trim() || "rakib");
+    triggerDownload(createSubtitleUrl(captions, subtitleFormat), `${baseName}${SUBTITLE_FORMATS[subtitleFormat].extension}`);
+  };
+
+  const handleExportSubtitles = async () => {
+    if (!activeProject.segments.some(isExportable)) {
+      alert("No audio generated yet to caption.");
+      return;
+    }
+
+    updateActiveProject({ isExporting: true });
+    try {
+      downloadSubtitles(await renderMergedAudio(activeProject.segments, activeProject.exportSettings, getMixStages(activeProject)));
+    } catch (e) {
+      console.error("Subtitle export failed", e);
+      alert("Failed to build subtitles.");
+    } finally {
+      updateActiveProject({ isExporting: false });
+    }
+  };
+
   const handleExportMerged = async () => {
-    const completedSegments = activeProject.segments.filter(s => s.status === SegmentStatus.COMPLETED && s.audioUrl);
+    const completedSegments = activeProject.segments.filter(isExportable);
     
     if (completedSegments.length === 0) {
       alert("No audio generated yet to export.");
       return;
     }
 
+    const projectId = activeProject.id;
+    const { format, bitrateKbps } = activeProject.exportSettings;
     updateActiveProject({ isExporting: true });
 
     try {
-      const buffers: Uint8Array[] = [];
-      let totalLength = 0;
-
-      for (const segment of completedSegments) {
-        if (!segment.audioUrl) continue;
-        const response = await fetch(segment.audioUrl);
-        const arrayBuffer = await response.arrayBuffer();
-        
-        if (arrayBuffer.byteLength > 44) {
-             const rawData = new Uint8Array(arrayBuffer.slice(44));
-             const volume = segment.volume !== undefined ? segment.volume : 1.0;
-             
-             if (Math.abs(volume - 1.0) > 0.01) {
-                const int16View = new Int16Array(rawData.buffer, rawData.byteOffset, rawData.byteLength / 2);
-                for (let i = 0; i < int16View.length; i++) {
-                    let val = int16View[i] * volume;
-                    if (val > 32767) val = 32767;
-                    if (val < -32768) val = -32768;
-                    int16View[i] = val;
-                }
-             }
-             buffers.push(rawData);
-             totalLength += rawData.length;
-        }
-      }
+      const merged = await renderMergedAudio(activeProject.segments, activeProject.exportSettings, getMixStages(activeProject));
 
-      if (totalLength === 0) {
+      if (merged.samples.length === 0) {
         alert("No valid audio data to export.");
         updateActiveProject({ isExporting: false });
         return;
       }
 
-      const mergedBuffer = new Uint8Array(totalLength);
-      let offset = 0;
-      for (const buffer of buffers) {
-        mergedBuffer.set(buffer, offset);
-        offset += buffer.length;
-      }
-
-      const mergedUrl = createWavUrl(mergedBuffer, 24000);
-      const link = document.createElement('a');
-      link.href = mergedUrl;
+      setEncodeProgress(prev => ({ ...prev, [projectId]: 0 }));
+      const chapters = getChapterMarkers(getChapters(activeProject.segments), merged.timeline);
+      const mergedUrl = await encodeAudio(merged, format, bitrateKbps, (fraction) => {
+        setEncodeProgress(prev => ({ ...prev, [projectId]: fraction }));
+      }, chapters);
       
-      let fileName = activeProject.exportFilename.trim() || "rakib";
-      if (!fileName.toLowerCase().endsWith('.wav')) {
-        fileName += '.wav';
-      }
+      const fileName = withFormatExtension(activeProject.exportFilename.trim() || "rakib", format);
       
-      link.download = fileName;
-      document.body.appendChild(link);
-      link.click();
-      document.body.removeChild(link);
+      triggerDownload(mergedUrl, fileName);
+
+      if (activeProject.exportSettings.includeSubtitles) {
+        downloadSubtitles(merged);
+      }
 
       updateActiveProject({ hasExported: true });
 
-    } catch (e) {
+    } catch (e: any) {
       console.error("Merge failed", e);
-      alert("Failed to merge audio files.");
+      alert(`Failed to merge audio files.${e?.message ? `\n${e.message}` : ''}`);
     } finally {
-      updateActiveProject({ isExporting: false });
+      updateProject(projectId, { isExporting: false });
+      setEncodeProgress(prev => {
+        const { [projectId]: _, ...rest } = prev;
+        return rest;
+      });
+    }
+  };
+
+  // Each chapter is rendered and encoded on its own, then all are zipped into one download
+  const handleExportChapters = async () => {
+    const project = activeProject;
+    const chapters = getChapters(project.segments).filter(c => c.segments.some(isExportable));
+    if (chapters.length === 0) {
+      alert("No chapter has generated audio yet.");
+      return;
+    }
+
+    const { format, bitrateKbps, chapterFileTemplate } = project.exportSettings;
+    const baseName = stripAudioExtension(project.exportFilename.trim() || "rakib");
+    const files: { name: string; data: Uint8Array }[] = [];
+    updateProject(project.id, { isExporting: true });
+
+    try {
+      for (let i = 0; i < chapters.length; i++) {
+        setChapterExport({ projectId: project.id, current: i + 1, total: chapters.length });
+        const chapter = chapters[i];
+        const merged = await renderMergedAudio(chapter.segments, project.exportSettings, getMixStages(project));
+        if (merged.samples.length === 0) continue;
+
+        const url = await encodeAudio(merged, format, bitrateKbps, undefined, [{ title: chapter.title, startSeconds: 0 }]);
+        try {
+          files.push({
+            name: withFormatExtension(formatChapterFileName(chapterFileTemplate, { number: i + 1, count: chapters.length, title: chapter.title }, baseName), format),
+            data: new Uint8Array(await (await fetch(url)).arrayBuffer()),
+          });
+        } finally {
+          URL.revokeObjectURL(url);
+        }
+      }
+
+      const zipUrl = URL.createObjectURL(createZip(files));
+      triggerDownload(zipUrl, `${baseName} - chapters.zip`);
+      setTimeout(() => URL.revokeObjectURL(zipUrl), 1000);
+    } catch (e: any) {
+      console.error("Chapter export failed", e);
+      alert(`Failed to export chapters.${e?.message ? `\n${e.message}` : ''}`);
+    } finally {
+      updateProject(project.id, { isExporting: false });
+      setChapterExport(null);
     }
   };
 
   const completedCount = activeProject.segments.filter(s => s.status === SegmentStatus.COMPLETED).length;
+  const pendingSpeakers = activeProject.dialogueMode ? detectSpeakers(activeProject.inputText) : [];
+  const speakerSegmentCounts = activeProject.segments.reduce<Record<string, number>>((counts, s) => {
+    if (s.speaker) counts[s.speaker] = (counts[s.speaker] || 0) + 1;
+    return counts;
+  }, {});
+  const musicLeadSeconds = hasMusicBed(activeProject) ? (activeProject.musicBed.introMs + activeProject.musicBed.outroMs) / 1000 : 0;
+  const mergedDuration = getTimelineDuration(buildTimeline(activeProject.segments, activeProject.exportSettings)) + (completedCount > 0 ? musicLeadSeconds : 0);
   const hasCompleted = completedCount > 0;
   
+  const activeQueue = schedulerState.projects.find(p => p.projectId === activeProject.id);
+
   const selectedCount = activeProject.segments.filter(s => s.isSelected).length;
+
+  // Everything the merged render depends on; the player re-renders when it changes
+  const playbackKey = JSON.stringify([
+    activeProject.segments.filter(isExportable).map(s => [s.id, s.audioUrl, s.volume, s.pauseAfterMs, s.boundary, s.edit, s.timecode]),
+    activeProject.exportSettings,
+    hasMusicBed(activeProject) ? activeProject.musicBed : null,
+  ]);
+  const activeChapters = getChapters(activeProject.segments);
+  const segmentNumbers = Object.fromEntries(activeProject.segments.map((s, i) => [s.id, i + 1]));
   const allSelected = activeProject.segments.length > 0 && selectedCount === activeProject.segments.length;
   const isIndeterminate = selectedCount > 0 && !allSelected;
   
@@ -587,6 +1327,17 @@ function App() {
                     <span className="text-xs font-mono text-slate-500 block uppercase tracking-wider">Current Project</span>
                     <span className="text-sm font-semibold text-blue-300">{activeProject.name}</span>
                 </div>
+                <button 
+                  onClick={() => setShowScheduler(true)}
+                  className="flex items-center gap-1.5 text-xs text-slate-400 hover:text-blue-400 transition-colors bg-slate-900 hover:bg-slate-800 px-2 py-1 rounded border border-slate-700"
+                  title="Generation queue shared by all projects"
+                >
+                   <ListOrdered size={14} />
+                   <span>Queue</span>
+                   {schedulerState.running > 0 && (
+                     <span className="text-[10px] font-mono text-blue-300">{schedulerState.running}/{schedulerState.concurrencyLimit}</span>
+                   )}
+                </button>
                 <button 
                   onClick={() => setShowSettings(true)}
                   className="flex items-center gap-1.5 text-xs text-slate-400 hover:text-blue-400 transition-colors bg-slate-900 hover:bg-slate-800 px-2 py-1 rounded border border-slate-700"
@@ -594,10 +1345,53 @@ function App() {
                    <Settings size={14} />
                    <span>Settings</span>
                 </button>
+                <div className="flex gap-2">
+                    <button 
+                      onClick={handleExportProject}
+                      disabled={isBundleBusy || activeProject.segments.length === 0}
+                      className="flex items-center gap-1.5 text-xs text-slate-400 hover:text-emerald-400 transition-colors bg-slate-900 hover:bg-slate-800 px-2 py-1 rounded border border-slate-700 disabled:opacity-40 disabled:cursor-not-allowed"
+                      title="Save this project (text, settings and generated audio) as a single archive"
+                    >
+                       {isBundleBusy ? <Loader2 size={14} className="animate-spin" /> : <Package size={14} />}
+                       <span>Export Project</span>
+                    </button>
+                    <button 
+                      onClick={() => bundleInputRef.current?.click()}
+                      disabled={isBundleBusy}
+                      className="flex items-center gap-1.5 text-xs text-slate-400 hover:text-emerald-400 transition-colors bg-slate-900 hover:bg-slate-800 px-2 py-1 rounded border border-slate-700 disabled:opacity-40 disabled:cursor-not-allowed"
+                      title="Open a project archive in a new tab"
+                    >
+                       <Upload size={14} />
+                       <span>Import Project</span>
+                    </button>
+                    <input 
+                      ref={bundleInputRef}
+                      type="file"
+                      accept=".zip,application/zip"
+                      onChange={handleImportProject}
+                      className="hidden"
+                    />
+                </div>
             </div>
           </header>
 
           <div className="flex flex-col gap-4 mb-4">
+            <div>
+              <label className="block text-xs font-semibold text-slate-500 uppercase tracking-wider mb-2">
+                Speech Engine
+              </label>
+              <select 
+                value={activeProvider.id} 
+                onChange={(e) => handleProviderChange(e.target.value)}
+                disabled={activeProject.isProcessing}
+                className="w-full bg-slate-900 border border-slate-700 rounded p-2 text-sm focus:border-blue-500 outline-none disabled:opacity-50"
+              >
+                {TTS_PROVIDERS.map(p => (
+                  <option key={p.id} value={p.id}>{p.label}</option>
+                ))}
+              </select>
+            </div>
+
             <div className="flex gap-4">
               <div className="flex-1">
                 <label className="block text-xs font-semibold text-slate-500 uppercase tracking-wider mb-2">
@@ -609,7 +1403,7 @@ function App() {
                       onChange={(e) => updateActiveProject({ selectedVoice: e.target.value })}
                       className="flex-1 bg-slate-900 border border-slate-700 rounded p-2 text-sm focus:border-blue-500 outline-none"
                     >
-                      {VOICES.map(v => (
+                      {activeProvider.voices.map(v => (
                         <option key={v.name} value={v.name}>{v.label}</option>
                       ))}
                     </select>
@@ -639,12 +1433,12 @@ function App() {
                 <select 
                   value={activeProject.speakingRate} 
                   onChange={(e) => updateActiveProject({ speakingRate: e.target.value })}
-                  className="w-full bg-slate-900 border border-slate-700 rounded p-2 text-sm focus:border-blue-500 outline-none"
+                  disabled={!activeProvider.capabilities.speakingRate}
+                  className="w-full bg-slate-900 border border-slate-700 rounded p-2 text-sm focus:border-blue-500 outline-none disabled:opacity-50"
                 >
-                  <option value="Slow">Slow</option>
-                  <option value="Normal">Normal</option>
-                  <option value="Fast">Fast</option>
-                  <option value="Very Fast">Very Fast</option>
+                  {SPEAKING_RATES.map(rate => (
+                    <option key={rate} value={rate}>{rate}</option>
+                  ))}
                 </select>
               </div>
             </div>
@@ -670,25 +1464,117 @@ function App() {
               <textarea 
                 value={activeProject.styleInstruction} 
                 onChange={(e) => updateActiveProject({ styleInstruction: e.target.value })}
-                placeholder="e.g. Speak calm and clearly suitable for a documentary narration..."
-                className="w-full bg-slate-900 border border-slate-700 rounded p-2 text-sm focus:border-blue-500 outline-none resize-none h-20 placeholder-slate-600"
+                disabled={!activeProvider.capabilities.styleInstructions}
+                placeholder={activeProvider.capabilities.styleInstructions 
+                  ? "e.g. Speak calm and clearly suitable for a documentary narration..." 
+                  : `${activeProvider.label} ignores style instructions.`}
+                className="w-full bg-slate-900 border border-slate-700 rounded p-2 text-sm focus:border-blue-500 outline-none resize-none h-20 placeholder-slate-600 disabled:opacity-50"
               />
             </div>
+
+            {activeProject.dialogueMode && (
+              <SpeakerPanel
+                speakers={activeProject.speakers}
+                pendingSpeakers={pendingSpeakers}
+                segmentCounts={speakerSegmentCounts}
+                voices={activeProvider.voices}
+                narratorVoice={activeProject.selectedVoice}
+                supportsStyle={activeProvider.capabilities.styleInstructions}
+                onChange={handleSpeakerChange}
+              />
+            )}
           </div>
 
-          <div className="flex-1 flex flex-col min-h-0 mb-4">
-            <label className="block text-xs font-semibold text-slate-500 uppercase tracking-wider mb-2">
-              Input Text (Bengali)
-            </label>
+          <div
+            className="flex-1 flex flex-col min-h-0 mb-4"
+            onDragOver={(e) => {
+              if (!e.dataTransfer.types.includes('Files')) return;
+              e.preventDefault();
+              setIsDraggingFile(true);
+            }}
+            onDragLeave={(e) => {
+              if (!e.currentTarget.contains(e.relatedTarget as Node | null)) setIsDraggingFile(false);
+            }}
+            onDrop={handleTextFileDrop}
+          >
+            <div className="flex justify-between items-center mb-2">
+              <label className="block text-xs font-semibold text-slate-500 uppercase tracking-wider">
+                Input Text (Bengali)
+              </label>
+              <button
+                type="button"
+                onClick={() => textFileInputRef.current?.click()}
+                disabled={isImportingText}
+                className="flex items-center gap-1 text-xs text-slate-500 hover:text-blue-400 transition-colors cursor-pointer disabled:opacity-50 disabled:cursor-wait"
+                title="Import text from a file, or drop one on the text box. Subtitle cues are added to the queue with their times."
+              >
+                {isImportingText ? <Loader2 size={14} className="animate-spin" /> : <FileUp size={14} />}
+                Import {IMPORT_EXTENSIONS.join(' ')}
+              </button>
+              <input
+                ref={textFileInputRef}
+                type="file"
+                accept={IMPORT_EXTENSIONS.join(',')}
+                onChange={handleTextFileSelected}
+                className="hidden"
+              />
+            </div>
             <textarea
-              className="flex-1 bg-slate-900 border border-slate-700 rounded-lg p-4 text-slate-200 resize-none focus:ring-2 focus:ring-blue-500/50 outline-none font-bengali leading-relaxed text-lg"
-              placeholder="আপনার বাংলা পাঠ্য এখানে পেস্ট করুন (Paste your Bangla text here)..."
+              className={`flex-1 bg-slate-900 border rounded-lg p-4 ${isDraggingFile ? 'border-blue-500 ring-2 ring-blue-500/50' : 'border-slate-700'} text-slate-200 resize-none focus:ring-2 focus:ring-blue-500/50 outline-none font-bengali leading-relaxed text-lg`}
+              placeholder="আপনার বাংলা পাঠ্য এখানে পেস্ট করুন (Paste your Bangla text here)... Start a paragraph with # and a space to mark a heading."
               value={activeProject.inputText}
               onChange={(e) => updateActiveProject({ inputText: e.target.value })}
             ></textarea>
-            <p className="text-right text-xs text-slate-500 mt-2">
-              {activeProject.inputText.length} characters
-            </p>
+            <div className="flex justify-between items-center mt-2">
+              <label className="flex items-center gap-2 text-xs text-slate-500" title="Longest segment the text will be split into">
+                Max chars per segment
+                <input 
+                  type="number"
+                  min={MIN_CHUNK_LENGTH}
+                  max={activeProvider.capabilities.maxCharsPerRequest}
+                  step={100}
+                  value={activeProject.maxChunkLength}
+                  onChange={(e) => {
+                    const value = parseInt(e.target.value, 10);
+                    if (!isNaN(value)) updateActiveProject({ maxChunkLength: value });
+                  }}
+                  onBlur={() => updateActiveProject(prev => ({ 
+                    maxChunkLength: Math.max(MIN_CHUNK_LENGTH, Math.min(prev.maxChunkLength, activeProvider.capabilities.maxCharsPerRequest)) 
+                  }))}
+                  className="w-20 bg-slate-900 border border-slate-700 rounded px-2 py-1 text-xs text-slate-300 focus:border-blue-500 outline-none"
+                />
+              </label>
+              <label className="flex items-center gap-2 text-xs text-slate-500 cursor-pointer select-none" title="Expand numbers, dates, times, currency and symbols into spoken Bengali before generating">
+                <input 
+                  type="checkbox"
+                  checked={activeProject.normalizeText}
+                  onChange={(e) => updateActiveProject({ normalizeText: e.target.checked })}
+                  className="w-3.5 h-3.5 rounded border-slate-600 bg-slate-800 text-blue-500 cursor-pointer"
+                />
+                Normalize numbers
+              </label>
+              <label className="flex items-center gap-2 text-xs text-slate-500 cursor-pointer select-none" title='Lines tagged like "রহিম: ..." are voiced per speaker'>
+                <input 
+                  type="checkbox"
+                  checked={activeProject.dialogueMode}
+                  onChange={(e) => updateActiveProject({ dialogueMode: e.target.checked })}
+                  className="w-3.5 h-3.5 rounded border-slate-600 bg-slate-800 text-blue-500 cursor-pointer"
+                />
+                Dialogue
+              </label>
+              <button 
+                type="button"
+                onClick={() => setShowLexicon(true)}
+                className="flex items-center gap-1 text-xs text-slate-500 hover:text-blue-400 transition-colors cursor-pointer"
+                title="Pronunciation lexicon for names and loanwords"
+              >
+                <BookA size={14} />
+                Lexicon ({activeProject.lexicon.length + globalLexicons.filter(l => activeProject.globalLexiconIds.includes(l.id)).reduce((n, l) => n + l.entries.length, 0)})
+              </button>
+              <p className="text-xs text-slate-500">
+                {activeProject.inputText.length} characters
+              </p>
+            </div>
           </div>
 
           <button
@@ -712,15 +1598,25 @@ function App() {
                     <span className="bg-slate-700 text-slate-300 text-xs px-2 py-0.5 rounded-full">
                     {activeProject.segments.length}
                     </span>
+                    {mergedDuration > 0 && (
+                        <span className="text-xs font-mono font-normal text-slate-500" title="Length of the merged export, including pauses">
+                        {formatDuration(mergedDuration)}
+                        </span>
+                    )}
                 </h2>
                 {activeProject.isProcessing && (
-                    <p className="text-xs text-blue-400 mt-1 animate-pulse">
-                    Processing {activeProject.progress.current} of {activeProject.progress.total}...
+                    <p className={`text-xs mt-1 ${activeQueue?.paused ? 'text-amber-400' : 'text-blue-400 animate-pulse'}`}>
+                    Processing {activeProject.progress.current} of {activeProject.progress.total}
+                    {activeQueue?.paused
+                      ? ' (paused)'
+                      : activeQueue && activeQueue.running === 0 && activeQueue.queued > 0 ? ' (waiting for the queue)...' : '...'}
                     </p>
                 )}
                 {activeProject.isExporting && (
                     <p className="text-xs text-emerald-400 mt-1 animate-pulse">
-                    Merging {completedCount} clips...
+                    {encodeProgress[activeProject.id] !== undefined
+                      ? `Encoding ${EXPORT_FORMATS[activeProject.exportSettings.format].label}... ${Math.round(encodeProgress[activeProject.id] * 100)}%`
+                      : `Merging ${completedCount} clips...`}
                 </p>
                 )}
                 </div>
@@ -736,7 +1632,67 @@ function App() {
                         className="w-32 bg-slate-800 border border-slate-700 text-slate-200 text-sm rounded-l px-3 py-2 outline-none focus:border-blue-500 placeholder-slate-600 transition-all focus:w-48"
                         title="Export filename"
                     />
-                    <span className="bg-slate-800 border border-l-0 border-slate-700 text-slate-500 text-xs px-2 py-2.5 rounded-r select-none">.wav</span>
+                    <select
+                        value={activeProject.exportSettings.format}
+                        onChange={(e) => handleExportFormatChange(e.target.value as ExportFormat)}
+                        disabled={activeProject.isExporting}
+                        className="bg-slate-800 border border-l-0 border-slate-700 text-slate-400 text-xs px-2 py-2.5 rounded-r outline-none focus:border-blue-500 cursor-pointer"
+                        title="Export format"
+                    >
+                        {(Object.keys(EXPORT_FORMATS) as ExportFormat[]).map(format => (
+                            <option key={format} value={format}>{EXPORT_FORMATS[format].extension}</option>
+                        ))}
+                    </select>
+                    {EXPORT_FORMATS[activeProject.exportSettings.format].bitrates.length > 0 && (
+                        <select
+                            value={activeProject.exportSettings.bitrateKbps}
+                            onChange={(e) => handleExportSettingsChange({ bitrateKbps: parseInt(e.target.value, 10) })}
+                            disabled={activeProject.isExporting}
+                            className="ml-1 bg-slate-800 border border-slate-700 text-slate-400 text-xs px-2 py-2.5 rounded outline-none focus:border-blue-500 cursor-pointer"
+                            title="Bitrate"
+                        >
+                            {EXPORT_FORMATS[activeProject.exportSettings.format].bitrates.map(kbps => (
+                                <option key={kbps} value={kbps}>{kbps} kbps</option>
+                            ))}
+                        </select>
+                    )}
+                    <button 
+                        type="button"
+                        onClick={() => setShowExportSettings(true)}
+                        className="ml-1 p-2 bg-slate-800 hover:bg-slate-700 text-slate-400 hover:text-white rounded border border-slate-700 transition-colors cursor-pointer"
+                        title="Export settings"
+                    >
+                        <SlidersHorizontal size={16} />
+                    </button>
+                    <button 
+                        type="button"
+                        onClick={() => setShowMusicBed(true)}
+                        className={`ml-1 p-2 bg-slate-800 hover:bg-slate-700 rounded border transition-colors cursor-pointer ${
+                            hasMusicBed(activeProject) ? 'text-blue-400 border-blue-500/50' : 'text-slate-400 hover:text-white border-slate-700'
+                        }`}
+                        title={hasMusicBed(activeProject) ? `Background music: ${activeProject.musicBed.tracks.length} track(s)` : "Background music"}
+                    >
+                        <Music size={16} />
+                    </button>
+                    <button 
+                        type="button"
+                        onClick={() => setShowChapters(true)}
+                        className={`ml-1 p-2 bg-slate-800 hover:bg-slate-700 rounded border transition-colors cursor-pointer ${
+                            activeChapters.length > 0 ? 'text-amber-300 border-amber-700/50' : 'text-slate-400 hover:text-white border-slate-700'
+                        }`}
+                        title={activeChapters.length > 0 ? `Chapters: ${activeChapters.length}` : "Chapters"}
+                    >
+                        <BookOpen size={16} />
+                    </button>
+                    <button 
+                        type="button"
+                        onClick={handleExportSubtitles}
+                        disabled={activeProject.isExporting || !hasCompleted}
+                        className="ml-1 p-2 bg-slate-800 hover:bg-slate-700 text-slate-400 hover:text-white rounded border border-slate-700 transition-colors cursor-pointer disabled:opacity-50 disabled:cursor-not-allowed"
+                        title={`Download ${SUBTITLE_FORMATS[activeProject.exportSettings.subtitleFormat].label} captions for the merged audio`}
+                    >
+                        <Captions size={16} />
+                    </button>
                 </div>
 
                 {/* Merge / New Project Button */}
@@ -758,13 +1714,24 @@ function App() {
                         ? 'bg-gradient-to-r from-emerald-600 to-teal-600 hover:from-emerald-500 hover:to-teal-500 text-white shadow-emerald-900/20 cursor-pointer' 
                         : 'bg-slate-800 text-slate-500 cursor-not-allowed'
                     }`}
-                    title="Join all completed segments serially into one WAV file"
+                    title="Join all completed segments serially into one audio file"
                     >
                         {activeProject.isExporting ? <Loader2 size={18} className="animate-spin" /> : <FileAudio size={18} />}
                         Merge & Download
                     </button>
                 )}
 
+                {activeProject.isProcessing && (
+                    <button
+                    type="button"
+                    onClick={() => scheduler.setPaused(activeProjectId, !activeQueue?.paused)}
+                    className="px-3 py-2 bg-slate-800 hover:bg-slate-700 text-slate-300 rounded border border-slate-700 text-sm flex items-center gap-2 cursor-pointer"
+                    title={activeQueue?.paused ? "Resume generating this project" : "Pause after the requests already running"}
+                    >
+                    {activeQueue?.paused ? <Play size={16} /> : <Pause size={16} />}
+                    </button>
+                )}
+
                 {activeProject.isProcessing ? (
                     <button 
                     onClick={handleStop}
@@ -783,6 +1750,27 @@ function App() {
                     </button>
                 )}
                 
+                <div className="flex">
+                    <button
+                        type="button"
+                        onClick={handleUndo}
+                        disabled={!canUndo}
+                        className="px-2 py-2 bg-slate-800 hover:bg-slate-700 text-slate-400 hover:text-white rounded-l border border-slate-700 transition-colors disabled:opacity-30 disabled:hover:bg-slate-800 cursor-pointer disabled:cursor-not-allowed"
+                        title="Undo (Ctrl+Z)"
+                    >
+                        <Undo2 size={16} />
+                    </button>
+                    <button
+                        type="button"
+                        onClick={handleRedo}
+                        disabled={!canRedo}
+                        className="px-2 py-2 bg-slate-800 hover:bg-slate-700 text-slate-400 hover:text-white rounded-r border border-l-0 border-slate-700 transition-colors disabled:opacity-30 disabled:hover:bg-slate-800 cursor-pointer disabled:cursor-not-allowed"
+                        title="Redo (Ctrl+Shift+Z)"
+                    >
+                        <Redo2 size={16} />
+                    </button>
+                </div>
+
                 {/* Conditional small trash button */}
                 {!activeProject.hasExported && (
                     <button 
@@ -834,6 +1822,42 @@ function App() {
                                 : "Adjusting All"}
                          </span>
                      </div>
+
+                     <button
+                        type="button"
+                        onClick={() => setShowBulkOverrides(true)}
+                        disabled={selectedCount === 0}
+                        className="flex items-center gap-1 text-xs text-slate-400 hover:text-fuchsia-300 transition-colors cursor-pointer disabled:opacity-40 disabled:cursor-not-allowed"
+                        title={selectedCount > 0 ? `Set voice, style and pace for ${selectedCount} selected segments` : "Select segments to override their voice"}
+                     >
+                        <Wand2 size={14} />
+                        Voice overrides
+                     </button>
+
+                     <div className="flex items-center gap-1">
+                        <button
+                           type="button"
+                           onClick={() => handleGenerateTakes(bulkTakeCount)}
+                           disabled={selectedCount === 0}
+                           className="flex items-center gap-1 text-xs text-slate-400 hover:text-amber-300 transition-colors cursor-pointer disabled:opacity-40 disabled:cursor-not-allowed"
+                           title={selectedCount > 0 ? `Generate ${bulkTakeCount} new takes for each of ${selectedCount} selected segments` : "Select segments to generate more takes"}
+                        >
+                           <Layers size={14} />
+                           Generate
+                        </button>
+                        <select
+                           value={bulkTakeCount}
+                           onChange={(e) => setBulkTakeCount(parseInt(e.target.value, 10))}
+                           disabled={selectedCount === 0}
+                           className="bg-slate-900 border border-slate-700 rounded px-1 py-0.5 text-xs text-slate-300 focus:border-blue-500 outline-none disabled:opacity-40"
+                           title="Takes per segment"
+                        >
+                           {Array.from({ length: MAX_TAKES_PER_RUN - 1 }, (_, i) => i + 2).map(n => (
+                              <option key={n} value={n}>{n}</option>
+                           ))}
+                        </select>
+                        <span className={`text-xs text-slate-400 ${selectedCount === 0 ? 'opacity-40' : ''}`}>takes</span>
+                     </div>
                 </div>
             )}
           </div>
@@ -845,67 +1869,132 @@ function App() {
               onDelete={handleDeleteSegment}
               onVolumeChange={handleVolumeChange}
               onToggleSelect={handleToggleSelect}
+              spokenTextOptions={getSpokenTextOptions(activeProject)}
+              exportSettings={activeProject.exportSettings}
+              onPauseAfterChange={handlePauseAfterChange}
+              voices={activeProvider.voices}
+              supportsStyle={activeProvider.capabilities.styleInstructions}
+              supportsPace={activeProvider.capabilities.speakingRate}
+              getVoiceDefaults={(segment) => resolveSegmentVoice(activeProject, { speaker: segment.speaker }, activeProvider.voices)}
+              onOverridesChange={handleOverridesChange}
+              maxTextLength={activeProvider.capabilities.maxCharsPerRequest}
+              onTextChange={handleSegmentTextChange}
+              onSplit={handleSplitSegment}
+              onJoinWithNext={handleJoinSegment}
+              onInsert={handleInsertSegments}
+              onMove={handleMoveSegment}
+              onChooseTake={handleChooseTake}
+              onDeleteTake={handleDeleteTake}
+              onAudioEditChange={handleAudioEditChange}
+              playingSegmentId={playingSegmentId}
+              followPlayback={followPlayback}
+              onChapterChange={handleChapterChange}
             />
           </div>
+
+          {hasCompleted && (
+            <ProjectPlayer
+              key={activeProject.id}
+              renderKey={playbackKey}
+              segmentNumbers={segmentNumbers}
+              onRender={() => renderMergedAudio(activeProject.segments, activeProject.exportSettings, getMixStages(activeProject))}
+              onPlayingSegmentChange={setPlayingSegmentId}
+              follow={followPlayback}
+              onFollowChange={setFollowPlayback}
+            />
+          )}
           
           {/* Footer info */}
           <div className="p-2 text-center text-xs text-slate-600 border-t border-slate-800 bg-slate-950">
-            Audio Format: WAV 24kHz. Merging happens locally in browser.
+            Export: WAV, MP3, Opus or M4B with chapters. Merging and encoding happen locally in browser. Projects autosave to this browser.
           </div>
         </div>
       </div>
 
+      {showLexicon && (
+        <LexiconPanel 
+          projectEntries={activeProject.lexicon}
+          onProjectEntriesChange={(lexicon: LexiconEntry[]) => updateActiveProject({ lexicon })}
+          globalLexicons={globalLexicons}
+          onGlobalLexiconsChange={handleGlobalLexiconsChange}
+          enabledGlobalIds={activeProject.globalLexiconIds}
+          onToggleGlobal={handleToggleGlobalLexicon}
+          segments={activeProject.segments}
+          onRequeue={handleRequeueSegments}
+          generateId={generateId}
+          onClose={() => setShowLexicon(false)}
+        />
+      )}
+
+      {showBulkOverrides && (
+        <BulkOverridePanel
+          selectedCount={selectedCount}
+          voices={activeProvider.voices}
+          supportsStyle={activeProvider.capabilities.styleInstructions}
+          supportsPace={activeProvider.capabilities.speakingRate}
+          onApply={handleBulkOverrides}
+          onClose={() => setShowBulkOverrides(false)}
+        />
+      )}
+
+      {showMusicBed && (
+        <MusicBedPanel
+          settings={activeProject.musicBed}
+          onChange={handleMusicBedChange}
+          onAddTracks={handleAddMusicTracks}
+          onRemoveTrack={handleRemoveMusicTrack}
+          onClose={() => setShowMusicBed(false)}
+        />
+      )}
+
+      {showExportSettings && (
+        <ExportSettingsPanel 
+          settings={activeProject.exportSettings}
+          onChange={handleExportSettingsChange}
+          onClose={() => setShowExportSettings(false)}
+        />
+      )}
+
+      {showChapters && (
+        <ChapterPanel
+          chapters={activeChapters}
+          exportSettings={activeProject.exportSettings}
+          projectName={stripAudioExtension(activeProject.exportFilename.trim() || "rakib")}
+          hasHeadings={activeProject.segments.some(s => s.heading)}
+          exportProgress={chapterExport?.projectId === activeProject.id ? chapterExport : null}
+          onTitleChange={handleChapterChange}
+          onDetectHeadings={handleMarkHeadingChapters}
+          onTemplateChange={(chapterFileTemplate) => handleExportSettingsChange({ chapterFileTemplate })}
+          onExport={handleExportChapters}
+          onClose={() => setShowChapters(false)}
+        />
+      )}
+
+      {showScheduler && (
+        <SchedulerPanel
+          state={schedulerState}
+          projects={projects}
+          onSettingsChange={handleSchedulerSettingsChange}
+          onPause={scheduler.setPaused}
+          onPriorityChange={scheduler.setPriority}
+          onMove={scheduler.moveProject}
+          onClose={() => setShowScheduler(false)}
+        />
+      )}
+
       {/* API Key Settings Modal */}
       {showSettings && (
-        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/80 backdrop-blur-sm">
-          <div className="bg-slate-900 border border-slate-700 rounded-xl p-6 w-full max-w-md shadow-2xl relative animate-in fade-in zoom-in duration-200">
-            <button 
-              onClick={() => setShowSettings(false)}
-              className="absolute top-4 right-4 text-slate-500 hover:text-white"
-            >
-              <X size={20} />
-            </button>
-            
-            <h2 className="text-xl font-bold text-white mb-4 flex items-center gap-2">
-              <Settings className="text-blue-400" /> API Configuration
-            </h2>
-            
-            <div className="space-y-4">
-              <div>
-                <label className="block text-sm font-medium text-slate-400 mb-1">
-                  Custom Gemini API Keys (Bulk)
-                </label>
-                <textarea 
-                  value={apiKeyInput}
-                  onChange={(e) => setApiKeyInput(e.target.value)}
-                  placeholder="AIzaSy... (Key 1)&#10;AIzaSy... (Key 2)&#10;AIzaSy... (Key 3)"
-                  className="w-full bg-slate-950 border border-slate-700 rounded-lg px-4 py-2 text-white focus:ring-2 focus:ring-blue-500 outline-none font-mono text-sm h-32 resize-none leading-relaxed"
-                />
-                <div className="flex justify-between items-start mt-2">
-                    <p className="text-xs text-slate-500">
-                    Enter one key per line. The app will cycle through them automatically to distribute the load.
-                    </p>
-                    <span className="text-xs text-blue-400 bg-blue-900/20 px-2 py-0.5 rounded border border-blue-900/50 whitespace-nowrap">
-                        {apiKeyInput.split('\n').filter(k => k.trim()).length} keys loaded
-                    </span>
-                </div>
-              </div>
-              
-              <div className="bg-blue-900/20 border border-blue-900/50 rounded-lg p-3 text-xs text-blue-200">
-                Don't have a key? Get one for free at <a href="https://aistudio.google.com/app/apikey" target="_blank" rel="noreferrer" className="underline hover:text-white">Google AI Studio</a>.
-              </div>
-
-              <div className="flex justify-end pt-2">
-                <button 
-                  onClick={saveApiKeys}
-                  className="px-4 py-2 bg-blue-600 hover:bg-blue-500 text-white rounded-lg text-sm font-medium transition-colors cursor-pointer"
-                >
-                  Save & Close
-                </button>
-              </div>
-            </div>
-          </div>
-        </div>
+        <ApiKeyPanel
+          entries={keyPool}
+          testingKeys={testingKeys}
+          onAddKeys={(keys) => updateKeyPool(entries => addKeys(entries, keys))}
+          onToggleKey={(key) => updateKeyPool(entries => updateKey(entries, key, e => ({ ...e, enabled: !e.enabled })))}
+          onRemoveKey={(key) => updateKeyPool(entries => entries.filter(e => e.key !== key))}
+          onTestKey={handleTestKey}
+          onClose={() => setShowSettings(false)}
+        >
+          <AudioCacheSettingsSection settings={audioCacheSettings} onChange={handleAudioCacheSettingsChange} />
+        </ApiKeyPanel>
       )}
     </div>
   );
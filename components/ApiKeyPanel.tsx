@@ -0,0 +1,168 @@
+import React, { useEffect, useState } from 'react';
+import { ApiKeyEntry, ApiKeyHealth } from '../types';
+import { getKeyHealth, getTodayUsage, maskKey } from '../services/keyPool';
+import { Settings, X, Plus, Trash2, Loader2, Power, Stethoscope } from 'lucide-react';
+
+interface ApiKeyPanelProps {
+  entries: ApiKeyEntry[];
+  testingKeys: Set<string>;
+  onAddKeys: (keys: string[]) => void;
+  onToggleKey: (key: string) => void;
+  onRemoveKey: (key: string) => void;
+  onTestKey: (key: string) => void;
+  onClose: () => void;
+  children?: React.ReactNode; // More settings sections, below the keys
+}
+
+const HEALTH_STYLES: Record<ApiKeyHealth, { label: string; className: string }> = {
+  healthy: { label: 'Healthy', className: 'text-emerald-300 bg-emerald-900/30 border-emerald-800' },
+  cooldown: { label: 'Cooldown', className: 'text-amber-300 bg-amber-900/30 border-amber-800' },
+  disabled: { label: 'Disabled', className: 'text-slate-400 bg-slate-800 border-slate-700' },
+  invalid: { label: 'Invalid', className: 'text-red-300 bg-red-900/30 border-red-800' },
+};
+
+const ApiKeyPanel: React.FC<ApiKeyPanelProps> = ({ entries, testingKeys, onAddKeys, onToggleKey, onRemoveKey, onTestKey, onClose, children }) => {
+  const [input, setInput] = useState('');
+  const [now, setNow] = useState(Date.now());
+
+  // Tick while a cooldown is running so its countdown and status stay current
+  const hasCooldown = entries.some(e => getKeyHealth(e, now) === 'cooldown');
+  useEffect(() => {
+    if (!hasCooldown) return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [hasCooldown]);
+
+  const pendingKeys = input.split('\n').map(k => k.trim()).filter(k => k.length > 0);
+
+  const addKeys = () => {
+    onAddKeys(pendingKeys);
+    setInput('');
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/80 backdrop-blur-sm">
+      <div className="bg-slate-900 border border-slate-700 rounded-xl p-6 w-full max-w-2xl max-h-[85vh] overflow-y-auto shadow-2xl relative animate-in fade-in zoom-in duration-200">
+        <button
+          onClick={onClose}
+          className="absolute top-4 right-4 text-slate-500 hover:text-white"
+        >
+          <X size={20} />
+        </button>
+
+        <h2 className="text-xl font-bold text-white mb-4 flex items-center gap-2">
+          <Settings className="text-blue-400" /> Settings
+        </h2>
+
+        <div className="space-y-4">
+          <div>
+            <label className="block text-xs font-semibold text-slate-500 uppercase tracking-wider mb-2">
+              Gemini API Keys
+            </label>
+            {entries.length === 0 ? (
+              <p className="text-xs text-slate-500">No keys yet. Requests use the environment key, if one is configured.</p>
+            ) : (
+              <div className="space-y-2">
+                {entries.map(entry => {
+                  const health = getKeyHealth(entry, now);
+                  const usage = getTodayUsage(entry, now);
+                  const isTesting = testingKeys.has(entry.key);
+                  const cooldownSeconds = health === 'cooldown' ? Math.ceil((entry.cooldownUntil! - now) / 1000) : 0;
+
+                  return (
+                    <div key={entry.key} className="flex items-center gap-3 bg-slate-950 border border-slate-800 rounded-lg px-3 py-2">
+                      <span className="font-mono text-sm text-slate-300 w-28 shrink-0" title="Key (masked)">{maskKey(entry.key)}</span>
+                      <span
+                        className={`text-[10px] px-1.5 py-0.5 rounded border shrink-0 ${HEALTH_STYLES[health].className}`}
+                        title={entry.lastError ? `Last error: ${entry.lastError}` : undefined}
+                      >
+                        {HEALTH_STYLES[health].label}{health === 'cooldown' ? ` ${cooldownSeconds}s` : ''}
+                      </span>
+                      <div className="flex-1 min-w-0 text-[10px] font-mono text-slate-500 leading-tight">
+                        <div title="Requests and characters sent today">
+                          Today: {usage.requests} req · {usage.characters.toLocaleString()} chars
+                        </div>
+                        <div title={entry.lastError} className="truncate">
+                          <span className="text-emerald-500/80">{entry.successCount} ok</span> · <span className={entry.failureCount > 0 ? 'text-red-400/80' : ''}>{entry.failureCount} failed</span>
+                          {entry.lastError && <span className="text-slate-600"> · {entry.lastError}</span>}
+                        </div>
+                      </div>
+                      <button
+                        type="button"
+                        onClick={() => onTestKey(entry.key)}
+                        disabled={isTesting}
+                        className="p-1.5 rounded-md text-slate-400 hover:text-blue-300 hover:bg-slate-800 transition-colors cursor-pointer disabled:cursor-wait"
+                        title="Test this key with a short request"
+                      >
+                        {isTesting ? <Loader2 size={16} className="animate-spin" /> : <Stethoscope size={16} />}
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => onToggleKey(entry.key)}
+                        className={`p-1.5 rounded-md hover:bg-slate-800 transition-colors cursor-pointer ${entry.enabled ? 'text-emerald-400' : 'text-slate-600'}`}
+                        title={entry.enabled ? 'Disable this key' : 'Enable this key'}
+                      >
+                        <Power size={16} />
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => onRemoveKey(entry.key)}
+                        className="p-1.5 rounded-md text-slate-500 hover:text-red-400 hover:bg-red-500/20 transition-colors cursor-pointer"
+                        title="Remove this key"
+                      >
+                        <Trash2 size={16} />
+                      </button>
+                    </div>
+                  );
+                })}
+                <p className="text-[10px] text-slate-600">
+                  Rate-limited keys rest for a minute; keys the API rejects are marked invalid until a test succeeds. New requests go to the least-used healthy key.
+                </p>
+              </div>
+            )}
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-slate-400 mb-1">
+              Add Keys (Bulk)
+            </label>
+            <textarea
+              value={input}
+              onChange={(e) => setInput(e.target.value)}
+              placeholder="AIzaSy... (Key 1)&#10;AIzaSy... (Key 2)&#10;AIzaSy... (Key 3)"
+              className="w-full bg-slate-950 border border-slate-700 rounded-lg px-4 py-2 text-white focus:ring-2 focus:ring-blue-500 outline-none font-mono text-sm h-24 resize-none leading-relaxed"
+            />
+            <div className="flex justify-between items-start mt-2">
+              <p className="text-xs text-slate-500">Enter one key per line.</p>
+              <button
+                type="button"
+                onClick={addKeys}
+                disabled={pendingKeys.length === 0}
+                className="flex items-center gap-1 px-3 py-1 text-xs rounded-md bg-slate-800 border border-slate-700 text-slate-300 hover:bg-slate-700 transition-colors cursor-pointer disabled:opacity-40 disabled:cursor-not-allowed"
+              >
+                <Plus size={12} /> Add {pendingKeys.length > 0 ? pendingKeys.length : ''} key{pendingKeys.length === 1 ? '' : 's'}
+              </button>
+            </div>
+          </div>
+
+          <div className="bg-blue-900/20 border border-blue-900/50 rounded-lg p-3 text-xs text-blue-200">
+            Don't have a key? Get one for free at <a href="https://aistudio.google.com/app/apikey" target="_blank" rel="noreferrer" className="underline hover:text-white">Google AI Studio</a>.
+          </div>
+
+          {children}
+
+          <div className="flex justify-end pt-2">
+            <button
+              onClick={onClose}
+              className="px-4 py-2 bg-blue-600 hover:bg-blue-500 text-white rounded-lg text-sm font-medium transition-colors cursor-pointer"
+            >
+              Done
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ApiKeyPanel;
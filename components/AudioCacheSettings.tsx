@@ -0,0 +1,106 @@
+import React, { useEffect, useState } from 'react';
+import { AudioCacheSettings as AudioCacheSettingsValue } from '../types';
+import { AudioCacheStats, clearAudioCache, getAudioCacheStats, trimAudioCache } from '../services/audioCache';
+import { Database, Trash2 } from 'lucide-react';
+
+interface AudioCacheSettingsProps {
+  settings: AudioCacheSettingsValue;
+  onChange: (updates: Partial<AudioCacheSettingsValue>) => void;
+}
+
+const formatMegabytes = (bytes: number): string => `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+
+const AudioCacheSettings: React.FC<AudioCacheSettingsProps> = ({ settings, onChange }) => {
+  const [stats, setStats] = useState<AudioCacheStats | null>(null);
+  const [sizeDraft, setSizeDraft] = useState(String(settings.maxSizeMb));
+
+  const refreshStats = () => {
+    getAudioCacheStats().then(setStats).catch(e => console.warn("Could not read the audio cache", e));
+  };
+
+  // A lower limit evicts right away rather than on the next write
+  useEffect(() => {
+    trimAudioCache(settings.maxSizeMb).catch(e => console.warn("Could not trim the audio cache", e)).finally(refreshStats);
+  }, [settings.maxSizeMb]);
+
+  // Applied on blur, so typing a new limit does not evict on every keystroke
+  const commitSize = () => {
+    const parsed = parseInt(sizeDraft, 10);
+    const maxSizeMb = isNaN(parsed) ? settings.maxSizeMb : Math.min(5000, Math.max(10, parsed));
+    setSizeDraft(String(maxSizeMb));
+    if (maxSizeMb !== settings.maxSizeMb) onChange({ maxSizeMb });
+  };
+
+  const handleClear = async () => {
+    if (!window.confirm("Delete all cached audio? Segments already generated keep their audio.")) return;
+    await clearAudioCache();
+    refreshStats();
+  };
+
+  const lookups = stats ? stats.hits + stats.misses : 0;
+
+  return (
+    <div>
+      <label className="block text-xs font-semibold text-slate-500 uppercase tracking-wider mb-2">
+        Audio Cache
+      </label>
+      <div className="bg-slate-950 border border-slate-800 rounded-lg px-3 py-3 space-y-3">
+        <label className="flex items-start gap-2 cursor-pointer select-none">
+          <input
+            type="checkbox"
+            checked={settings.enabled}
+            onChange={(e) => onChange({ enabled: e.target.checked })}
+            className="mt-0.5 w-4 h-4 rounded border-slate-600 bg-slate-800 text-blue-500 cursor-pointer"
+          />
+          <span className="text-sm text-slate-300">
+            Reuse identical audio
+            <span className="block text-xs text-slate-500">
+              Segments with the same spoken text, voice, style, pace and model reuse earlier audio instead of a new request.
+            </span>
+          </span>
+        </label>
+
+        <div className="flex items-center gap-2">
+          <span className="text-sm text-slate-400">Size limit</span>
+          <input
+            type="number"
+            min={10}
+            max={5000}
+            step={10}
+            value={sizeDraft}
+            onChange={(e) => setSizeDraft(e.target.value)}
+            onBlur={commitSize}
+            onKeyDown={(e) => { if (e.key === 'Enter') commitSize(); }}
+            className="w-24 bg-slate-900 border border-slate-700 rounded px-3 py-1 text-sm text-white outline-none focus:border-blue-500"
+          />
+          <span className="text-xs text-slate-500">MB; least recently used audio goes first.</span>
+        </div>
+
+        <div className="flex items-center justify-between gap-3">
+          <div className="flex items-center gap-2 text-[10px] font-mono text-slate-500">
+            <Database size={12} className="text-blue-400 shrink-0" />
+            {stats ? (
+              <span>
+                {stats.entries} clips · {formatMegabytes(stats.bytes)} of {settings.maxSizeMb} MB
+                {' · '}{stats.hits}/{lookups} hits{lookups > 0 ? ` (${Math.round(stats.hits / lookups * 100)}%)` : ''}
+                {' · '}{stats.savedCharacters.toLocaleString()} chars saved
+              </span>
+            ) : (
+              <span>Reading cache…</span>
+            )}
+          </div>
+          <button
+            type="button"
+            onClick={handleClear}
+            disabled={!stats || stats.entries === 0}
+            className="flex items-center gap-1 px-3 py-1 text-xs rounded-md bg-slate-800 border border-slate-700 text-slate-300 hover:text-red-300 hover:bg-slate-700 transition-colors cursor-pointer disabled:opacity-40 disabled:cursor-not-allowed shrink-0"
+          >
+            <Trash2 size={12} /> Clear
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AudioCacheSettings;
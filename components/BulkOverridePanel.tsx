@@ -0,0 +1,62 @@
+import React, { useState } from 'react';
+import { VoiceConfig, VoiceOverrides } from '../types';
+import VoiceOverrideFields from './VoiceOverrideFields';
+import { Wand2, X } from 'lucide-react';
+
+interface BulkOverridePanelProps {
+  selectedCount: number;
+  voices: VoiceConfig[];
+  supportsStyle: boolean;
+  supportsPace: boolean;
+  onApply: (overrides: VoiceOverrides | undefined) => void;
+  onClose: () => void;
+}
+
+const BulkOverridePanel: React.FC<BulkOverridePanelProps> = ({ selectedCount, voices, supportsStyle, supportsPace, onApply, onClose }) => {
+  const [draft, setDraft] = useState<VoiceOverrides>({});
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/80 backdrop-blur-sm">
+      <div className="bg-slate-900 border border-slate-700 rounded-xl p-6 w-full max-w-lg shadow-2xl relative">
+        <button
+          onClick={onClose}
+          className="absolute top-4 right-4 text-slate-500 hover:text-white"
+        >
+          <X size={20} />
+        </button>
+
+        <h2 className="text-xl font-bold text-white mb-2 flex items-center gap-2">
+          <Wand2 className="text-blue-400" /> Voice Overrides
+        </h2>
+        <p className="text-sm text-slate-400 mb-4">
+          Replaces the overrides on {selectedCount} selected segment{selectedCount === 1 ? '' : 's'}. Finished segments whose settings change are queued again.
+        </p>
+
+        <VoiceOverrideFields
+          overrides={draft}
+          onChange={setDraft}
+          voices={voices}
+          supportsStyle={supportsStyle}
+          supportsPace={supportsPace}
+        />
+
+        <div className="flex justify-between pt-6">
+          <button
+            onClick={() => onApply(undefined)}
+            className="px-4 py-2 bg-slate-800 hover:bg-slate-700 text-slate-300 rounded-lg text-sm font-medium transition-colors border border-slate-700 cursor-pointer"
+          >
+            Clear Overrides
+          </button>
+          <button
+            onClick={() => onApply(draft)}
+            className="px-4 py-2 bg-blue-600 hover:bg-blue-500 text-white rounded-lg text-sm font-medium transition-colors cursor-pointer"
+          >
+            Apply to Selected
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default BulkOverridePanel;
@@ -0,0 +1,196 @@
+import React, { useEffect, useState } from 'react';
+import { ExportSettings } from '../types';
+import { Chapter, formatChapterFileName, getChapterProgress } from '../services/chapters';
+import { formatDuration } from '../services/audioUtils';
+import { EXPORT_FORMATS } from '../services/encoders';
+import { BookOpen, X, ListTree, Download, Loader2 } from 'lucide-react';
+
+interface ChapterPanelProps {
+  chapters: Chapter[];
+  exportSettings: ExportSettings;
+  projectName: string; // Export file name, for the template preview
+  hasHeadings: boolean;
+  exportProgress: { current: number; total: number } | null; // Set while chapters are being exported
+  onTitleChange: (id: string, title: string | undefined) => void; // Undefined removes the marker
+  onDetectHeadings: () => void;
+  onTemplateChange: (template: string) => void;
+  onExport: () => void;
+  onClose: () => void;
+}
+
+interface TitleFieldProps {
+  title: string;
+  onCommit: (title: string) => void;
+}
+
+// Applied on blur so every keystroke is not an undo step
+const TitleField: React.FC<TitleFieldProps> = ({ title, onCommit }) => {
+  const [draft, setDraft] = useState(title);
+  useEffect(() => setDraft(title), [title]);
+
+  const commit = () => {
+    if (draft.trim() !== title) onCommit(draft.trim());
+  };
+
+  return (
+    <input
+      type="text"
+      value={draft}
+      onChange={(e) => setDraft(e.target.value)}
+      onBlur={commit}
+      onKeyDown={(e) => { if (e.key === 'Enter') commit(); }}
+      className="w-full bg-transparent border border-transparent hover:border-slate-700 focus:border-blue-500 rounded px-1.5 py-0.5 text-sm text-slate-200 font-bengali outline-none"
+      title="Chapter title"
+    />
+  );
+};
+
+const ChapterPanel: React.FC<ChapterPanelProps> = ({ chapters, exportSettings, projectName, hasHeadings, exportProgress, onTitleChange, onDetectHeadings, onTemplateChange, onExport, onClose }) => {
+  const [templateDraft, setTemplateDraft] = useState(exportSettings.chapterFileTemplate);
+  const format = EXPORT_FORMATS[exportSettings.format];
+  const preview = chapters.length > 0
+    ? `${formatChapterFileName(templateDraft, { number: 1, count: chapters.length, title: chapters[0].title }, projectName)}${format.extension}`
+    : '';
+  const progress = chapters.map(chapter => getChapterProgress(chapter, exportSettings));
+  const canExport = !exportProgress && progress.some(p => p.completed > 0);
+
+  const commitTemplate = () => {
+    const template = templateDraft.trim() || exportSettings.chapterFileTemplate;
+    setTemplateDraft(template);
+    if (template !== exportSettings.chapterFileTemplate) onTemplateChange(template);
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/80 backdrop-blur-sm">
+      <div className="bg-slate-900 border border-slate-700 rounded-xl p-6 w-full max-w-2xl max-h-[85vh] overflow-y-auto shadow-2xl relative">
+        <button
+          onClick={onClose}
+          className="absolute top-4 right-4 text-slate-500 hover:text-white"
+        >
+          <X size={20} />
+        </button>
+
+        <h2 className="text-xl font-bold text-white mb-2 flex items-center gap-2">
+          <BookOpen className="text-blue-400" /> Chapters
+        </h2>
+        <p className="text-sm text-slate-400 mb-6">
+          A chapter runs from its first segment to the next chapter. Add one between segments in the queue, or from the headings of imported text. M4B exports embed these as chapter markers.
+        </p>
+
+        <div className="space-y-6">
+          <section>
+            <div className="flex items-center justify-between mb-2">
+              <h3 className="text-xs font-semibold text-slate-500 uppercase tracking-wider">
+                Chapters ({chapters.length})
+              </h3>
+              <button
+                type="button"
+                onClick={onDetectHeadings}
+                disabled={!hasHeadings}
+                className="flex items-center gap-1 text-xs text-slate-400 hover:text-blue-400 transition-colors cursor-pointer disabled:opacity-40 disabled:cursor-not-allowed"
+                title={hasHeadings ? "Start a chapter at every heading" : "No heading segments in this project"}
+              >
+                <ListTree size={14} /> From headings
+              </button>
+            </div>
+
+            {chapters.length === 0 ? (
+              <p className="text-sm text-slate-500 bg-slate-950 border border-dashed border-slate-800 rounded-lg px-3 py-6 text-center">
+                No chapters yet. Hover between two segments in the queue and choose "Chapter".
+              </p>
+            ) : (
+              <div className="space-y-2">
+                {chapters.map((chapter, index) => {
+                  const { total, completed, failed, durationSeconds } = progress[index];
+                  const lastNumber = chapter.startIndex + chapter.segments.length;
+                  return (
+                    <div key={chapter.id} className="flex items-center gap-3 bg-slate-950 border border-slate-800 rounded-lg px-3 py-2">
+                      <span className="text-xs font-mono text-slate-500 w-6 shrink-0">{index + 1}</span>
+                      <div className="flex-1 min-w-0">
+                        {chapter.marked ? (
+                          <TitleField title={chapter.title} onCommit={(title) => onTitleChange(chapter.id, title)} />
+                        ) : (
+                          <span className="block px-1.5 py-0.5 text-sm text-slate-400 italic" title="Segments before the first chapter marker">
+                            {chapter.title}
+                          </span>
+                        )}
+                        <div className="flex items-center gap-2 px-1.5 mt-1">
+                          <div className="flex-1 h-1.5 rounded-full bg-slate-800 overflow-hidden flex">
+                            <div className="h-full bg-green-500/70" style={{ width: `${completed / total * 100}%` }} />
+                            <div className="h-full bg-red-500/70" style={{ width: `${failed / total * 100}%` }} />
+                          </div>
+                          <span className="text-[10px] font-mono text-slate-500 shrink-0">
+                            {completed}/{total}{failed > 0 && <span className="text-red-400"> · {failed} failed</span>}
+                          </span>
+                        </div>
+                      </div>
+                      <span className="text-[10px] font-mono text-slate-500 shrink-0 w-16 text-right" title="Segments in this chapter">
+                        #{chapter.startIndex + 1}{lastNumber > chapter.startIndex + 1 ? `–${lastNumber}` : ''}
+                      </span>
+                      <span className="text-xs font-mono text-slate-400 shrink-0 w-14 text-right" title="Length of the generated audio, with pauses">
+                        {durationSeconds > 0 ? formatDuration(durationSeconds) : '--:--'}
+                      </span>
+                      <button
+                        type="button"
+                        onClick={() => onTitleChange(chapter.id, undefined)}
+                        disabled={!chapter.marked}
+                        className="p-1 rounded text-slate-500 hover:text-red-400 hover:bg-red-500/20 transition-colors cursor-pointer disabled:opacity-0 disabled:cursor-default shrink-0"
+                        title="Remove this chapter marker; its segments join the previous chapter"
+                      >
+                        <X size={14} />
+                      </button>
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+          </section>
+
+          <section className="space-y-3">
+            <h3 className="text-xs font-semibold text-slate-500 uppercase tracking-wider">Export per chapter</h3>
+            <div>
+              <label className="block text-sm font-medium text-slate-400 mb-1">File name template</label>
+              <input
+                type="text"
+                value={templateDraft}
+                onChange={(e) => setTemplateDraft(e.target.value)}
+                onBlur={commitTemplate}
+                onKeyDown={(e) => { if (e.key === 'Enter') commitTemplate(); }}
+                className="w-full bg-slate-950 border border-slate-700 rounded px-3 py-1.5 text-sm text-white font-mono outline-none focus:border-blue-500"
+              />
+              <p className="text-xs text-slate-500 mt-1">
+                {'{n}'} chapter number, {'{title}'} chapter title, {'{project}'} export file name.
+                {preview && <span className="block font-mono text-slate-400 mt-0.5">e.g. {preview}</span>}
+              </p>
+            </div>
+            <div className="flex items-center justify-between gap-3">
+              <p className="text-xs text-slate-500">
+                One {format.label} file per chapter with generated audio, downloaded as a ZIP.
+              </p>
+              <button
+                type="button"
+                onClick={onExport}
+                disabled={!canExport}
+                className="flex items-center gap-1.5 px-3 py-1.5 text-sm rounded-lg bg-emerald-600 hover:bg-emerald-500 text-white transition-colors cursor-pointer disabled:opacity-40 disabled:cursor-not-allowed shrink-0"
+              >
+                {exportProgress ? <Loader2 size={14} className="animate-spin" /> : <Download size={14} />}
+                {exportProgress ? `Chapter ${exportProgress.current} of ${exportProgress.total}...` : 'Export chapters'}
+              </button>
+            </div>
+          </section>
+
+          <div className="flex justify-end pt-2">
+            <button
+              onClick={onClose}
+              className="px-4 py-2 bg-blue-600 hover:bg-blue-500 text-white rounded-lg text-sm font-medium transition-colors cursor-pointer"
+            >
+              Done
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ChapterPanel;
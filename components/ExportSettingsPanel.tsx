@@ -0,0 +1,227 @@
+import React from 'react';
+import { ExportSettings, JoinFade, SubtitleFormat } from '../types';
+import { SUBTITLE_FORMATS } from '../services/subtitleService';
+import { LOUDNESS_TARGETS, DEFAULT_TRUE_PEAK_CEILING_DB } from '../services/loudness';
+import { SlidersHorizontal, X } from 'lucide-react';
+
+interface ExportSettingsPanelProps {
+  settings: ExportSettings;
+  onChange: (updates: Partial<ExportSettings>) => void;
+  onClose: () => void;
+}
+
+interface MsFieldProps {
+  label: string;
+  hint: string;
+  value: number;
+  step?: number;
+  onChange: (value: number) => void;
+}
+
+const MsField: React.FC<MsFieldProps> = ({ label, hint, value, step = 50, onChange }) => (
+  <div>
+    <label className="block text-sm font-medium text-slate-400 mb-1">{label}</label>
+    <div className="flex items-center gap-2">
+      <input
+        type="number"
+        min={0}
+        max={10000}
+        step={step}
+        value={value}
+        onChange={(e) => {
+          const parsed = parseInt(e.target.value, 10);
+          onChange(isNaN(parsed) ? 0 : Math.max(0, parsed));
+        }}
+        className="w-28 bg-slate-950 border border-slate-700 rounded px-3 py-1.5 text-sm text-white outline-none focus:border-blue-500"
+      />
+      <span className="text-xs text-slate-500">ms</span>
+    </div>
+    <p className="text-xs text-slate-500 mt-1">{hint}</p>
+  </div>
+);
+
+const ExportSettingsPanel: React.FC<ExportSettingsPanelProps> = ({ settings, onChange, onClose }) => {
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/80 backdrop-blur-sm">
+      <div className="bg-slate-900 border border-slate-700 rounded-xl p-6 w-full max-w-lg max-h-[85vh] overflow-y-auto shadow-2xl relative">
+        <button
+          onClick={onClose}
+          className="absolute top-4 right-4 text-slate-500 hover:text-white"
+        >
+          <X size={20} />
+        </button>
+
+        <h2 className="text-xl font-bold text-white mb-4 flex items-center gap-2">
+          <SlidersHorizontal className="text-blue-400" /> Export Settings
+        </h2>
+
+        <div className="space-y-6">
+          <section className="space-y-4">
+            <h3 className="text-xs font-semibold text-slate-500 uppercase tracking-wider">Pauses</h3>
+            <MsField
+              label="Gap between segments"
+              hint="Silence inserted after each segment in the merged file."
+              value={settings.segmentGapMs}
+              onChange={(segmentGapMs) => onChange({ segmentGapMs })}
+            />
+            <MsField
+              label="Gap at paragraph breaks"
+              hint="Used instead when a segment ends a paragraph. Per-segment pauses override both."
+              value={settings.paragraphGapMs}
+              onChange={(paragraphGapMs) => onChange({ paragraphGapMs })}
+            />
+          </section>
+
+          <section className="space-y-4">
+            <h3 className="text-xs font-semibold text-slate-500 uppercase tracking-wider">Silence &amp; Joins</h3>
+            <label className="flex items-center gap-2 text-sm text-slate-300 cursor-pointer select-none">
+              <input
+                type="checkbox"
+                checked={settings.trimSilence}
+                onChange={(e) => onChange({ trimSilence: e.target.checked })}
+                className="w-4 h-4 rounded border-slate-600 bg-slate-800 text-blue-500 cursor-pointer"
+              />
+              Trim leading and trailing silence
+            </label>
+            {settings.trimSilence && (
+              <>
+                <div>
+                  <label className="block text-sm font-medium text-slate-400 mb-1">Silence threshold</label>
+                  <div className="flex items-center gap-2">
+                    <input
+                      type="number"
+                      min={-80}
+                      max={-20}
+                      step={5}
+                      value={settings.silenceThresholdDb}
+                      onChange={(e) => {
+                        const parsed = parseFloat(e.target.value);
+                        if (!isNaN(parsed)) onChange({ silenceThresholdDb: Math.min(-20, Math.max(-80, parsed)) });
+                      }}
+                      className="w-28 bg-slate-950 border border-slate-700 rounded px-3 py-1.5 text-sm text-white outline-none focus:border-blue-500"
+                    />
+                    <span className="text-xs text-slate-500">dBFS</span>
+                  </div>
+                  <p className="text-xs text-slate-500 mt-1">Audio quieter than this at the start or end of a clip counts as silence.</p>
+                </div>
+                <div className="grid grid-cols-2 gap-4">
+                  <MsField
+                    label="Keep before speech"
+                    hint="Head left on every clip."
+                    value={settings.trimHeadMs}
+                    step={10}
+                    onChange={(trimHeadMs) => onChange({ trimHeadMs })}
+                  />
+                  <MsField
+                    label="Keep after speech"
+                    hint="Tail left on every clip."
+                    value={settings.trimTailMs}
+                    step={10}
+                    onChange={(trimTailMs) => onChange({ trimTailMs })}
+                  />
+                </div>
+              </>
+            )}
+            <div>
+              <label className="block text-sm font-medium text-slate-400 mb-1">At each join</label>
+              <select
+                value={settings.joinFade}
+                onChange={(e) => onChange({ joinFade: e.target.value as JoinFade })}
+                className="bg-slate-950 border border-slate-700 rounded px-3 py-1.5 text-sm text-white outline-none focus:border-blue-500"
+              >
+                <option value="none">Nothing</option>
+                <option value="declick">De-click fade</option>
+                <option value="crossfade">Crossfade (joins without a pause)</option>
+              </select>
+            </div>
+            {settings.joinFade !== 'none' && (
+              <MsField
+                label={settings.joinFade === 'crossfade' ? 'Crossfade length' : 'Fade length'}
+                hint={settings.joinFade === 'crossfade'
+                  ? 'Clips with a 0 ms pause overlap by this much; other joins get a de-click fade.'
+                  : 'Short fade in and out on every clip to avoid clicks.'}
+                value={settings.joinFadeMs}
+                step={5}
+                onChange={(joinFadeMs) => onChange({ joinFadeMs })}
+              />
+            )}
+          </section>
+
+          <section className="space-y-4">
+            <h3 className="text-xs font-semibold text-slate-500 uppercase tracking-wider">Loudness</h3>
+            <div>
+              <label className="block text-sm font-medium text-slate-400 mb-1">Normalize each segment to</label>
+              <select
+                value={settings.loudnessTarget ?? ''}
+                onChange={(e) => onChange({ loudnessTarget: e.target.value === '' ? null : parseFloat(e.target.value) })}
+                className="bg-slate-950 border border-slate-700 rounded px-3 py-1.5 text-sm text-white outline-none focus:border-blue-500"
+              >
+                <option value="">Off (keep generated levels)</option>
+                {LOUDNESS_TARGETS.map(target => (
+                  <option key={target.value} value={target.value}>{target.label}</option>
+                ))}
+              </select>
+              <p className="text-xs text-slate-500 mt-1">Integrated loudness (EBU R128) is measured per segment. Segment volume sliders act as a trim on top.</p>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-slate-400 mb-1">True-peak ceiling</label>
+              <div className="flex items-center gap-2">
+                <input
+                  type="number"
+                  min={-6}
+                  max={0}
+                  step={0.5}
+                  value={settings.truePeakCeilingDb}
+                  onChange={(e) => {
+                    const parsed = parseFloat(e.target.value);
+                    onChange({ truePeakCeilingDb: isNaN(parsed) ? DEFAULT_TRUE_PEAK_CEILING_DB : Math.min(0, Math.max(-6, parsed)) });
+                  }}
+                  className="w-28 bg-slate-950 border border-slate-700 rounded px-3 py-1.5 text-sm text-white outline-none focus:border-blue-500"
+                />
+                <span className="text-xs text-slate-500">dBTP</span>
+              </div>
+              <p className="text-xs text-slate-500 mt-1">A look-ahead limiter keeps peaks below this level instead of clipping.</p>
+            </div>
+          </section>
+
+          <section className="space-y-4">
+            <h3 className="text-xs font-semibold text-slate-500 uppercase tracking-wider">Subtitles</h3>
+            <div>
+              <label className="block text-sm font-medium text-slate-400 mb-1">Caption format</label>
+              <select
+                value={settings.subtitleFormat}
+                onChange={(e) => onChange({ subtitleFormat: e.target.value as SubtitleFormat })}
+                className="bg-slate-950 border border-slate-700 rounded px-3 py-1.5 text-sm text-white outline-none focus:border-blue-500"
+              >
+                {(Object.keys(SUBTITLE_FORMATS) as SubtitleFormat[]).map(format => (
+                  <option key={format} value={format}>{SUBTITLE_FORMATS[format].label} ({SUBTITLE_FORMATS[format].extension})</option>
+                ))}
+              </select>
+              <p className="text-xs text-slate-500 mt-1">Long segments are split into sentence captions timed by text length.</p>
+            </div>
+            <label className="flex items-center gap-2 text-sm text-slate-300 cursor-pointer select-none">
+              <input
+                type="checkbox"
+                checked={settings.includeSubtitles}
+                onChange={(e) => onChange({ includeSubtitles: e.target.checked })}
+                className="w-4 h-4 rounded border-slate-600 bg-slate-800 text-blue-500 cursor-pointer"
+              />
+              Download captions with Merge &amp; Download
+            </label>
+          </section>
+        </div>
+
+        <div className="flex justify-end pt-6">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 bg-blue-600 hover:bg-blue-500 text-white rounded-lg text-sm font-medium transition-colors cursor-pointer"
+          >
+            Done
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ExportSettingsPanel;
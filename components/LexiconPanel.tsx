@@ -0,0 +1,260 @@
+import React, { useState } from 'react';
+import { AudioSegment, Lexicon, LexiconEntry, SegmentStatus } from '../types';
+import { findSegmentsForEntry } from '../services/lexicon';
+import { BookA, Plus, X, RotateCcw, Trash2 } from 'lucide-react';
+
+interface LexiconPanelProps {
+  projectEntries: LexiconEntry[];
+  onProjectEntriesChange: (entries: LexiconEntry[]) => void;
+  globalLexicons: Lexicon[];
+  onGlobalLexiconsChange: (lexicons: Lexicon[]) => void;
+  enabledGlobalIds: string[];
+  onToggleGlobal: (lexiconId: string) => void;
+  segments: AudioSegment[];
+  onRequeue: (segmentIds: string[]) => void;
+  generateId: () => string;
+  onClose: () => void;
+}
+
+interface EntryTableProps {
+  entries: LexiconEntry[];
+  onChange: (entries: LexiconEntry[]) => void;
+  segments: AudioSegment[];
+  onRequeue: (segmentIds: string[]) => void;
+  generateId: () => string;
+}
+
+// Statuses whose audio would change if the entry were applied again
+const isRegenerable = (s: AudioSegment) => s.status === SegmentStatus.COMPLETED || s.status === SegmentStatus.ERROR;
+
+const EntryTable: React.FC<EntryTableProps> = ({ entries, onChange, segments, onRequeue, generateId }) => {
+  const [term, setTerm] = useState("");
+  const [replacement, setReplacement] = useState("");
+
+  const addEntry = () => {
+    if (!term.trim() || !replacement.trim()) return;
+    onChange([...entries, { id: generateId(), term: term.trim(), replacement: replacement.trim() }]);
+    setTerm("");
+    setReplacement("");
+  };
+
+  const updateEntry = (id: string, updates: Partial<LexiconEntry>) => {
+    onChange(entries.map(e => e.id === id ? { ...e, ...updates } : e));
+  };
+
+  return (
+    <div className="space-y-2">
+      {entries.length === 0 && (
+        <p className="text-xs text-slate-500 italic">No entries yet.</p>
+      )}
+      {entries.map(entry => {
+        const matched = findSegmentsForEntry(segments, entry);
+        const regenerable = matched.filter(isRegenerable);
+        const numbers = matched.map(s => `#${segments.indexOf(s) + 1}`).join(', ');
+
+        return (
+          <div key={entry.id} className="flex items-center gap-2">
+            <input
+              type="text"
+              value={entry.term}
+              onChange={(e) => updateEntry(entry.id, { term: e.target.value })}
+              className="flex-1 min-w-0 bg-slate-950 border border-slate-700 rounded px-2 py-1 text-sm font-bengali outline-none focus:border-blue-500"
+              title="Term as written in the text"
+            />
+            <span className="text-slate-600 text-xs">→</span>
+            <input
+              type="text"
+              value={entry.replacement}
+              onChange={(e) => updateEntry(entry.id, { replacement: e.target.value })}
+              className="flex-1 min-w-0 bg-slate-950 border border-slate-700 rounded px-2 py-1 text-sm font-bengali outline-none focus:border-blue-500"
+              title="What the voice should read instead"
+            />
+            <label className="flex items-center gap-1 text-[10px] text-slate-500 cursor-pointer" title="Match case exactly">
+              <input
+                type="checkbox"
+                checked={!!entry.caseSensitive}
+                onChange={(e) => updateEntry(entry.id, { caseSensitive: e.target.checked })}
+                className="w-3 h-3"
+              />
+              Aa
+            </label>
+            <span className="text-[10px] text-slate-500 w-20 truncate text-right" title={numbers || 'Not used in any segment'}>
+              {matched.length > 0 ? numbers : 'unused'}
+            </span>
+            <button
+              type="button"
+              onClick={() => onRequeue(regenerable.map(s => s.id))}
+              disabled={regenerable.length === 0}
+              className="p-1 rounded text-amber-400 hover:bg-slate-700 disabled:text-slate-700 disabled:hover:bg-transparent cursor-pointer disabled:cursor-not-allowed"
+              title={`Queue ${regenerable.length} generated segment(s) using this entry for regeneration`}
+            >
+              <RotateCcw size={14} />
+            </button>
+            <button
+              type="button"
+              onClick={() => onChange(entries.filter(e => e.id !== entry.id))}
+              className="p-1 rounded text-slate-500 hover:text-red-400 hover:bg-red-500/20 cursor-pointer"
+              title="Remove entry"
+            >
+              <X size={14} />
+            </button>
+          </div>
+        );
+      })}
+
+      <div className="flex items-center gap-2 pt-2 border-t border-slate-800">
+        <input
+          type="text"
+          value={term}
+          onChange={(e) => setTerm(e.target.value)}
+          placeholder="Term (e.g. Google)"
+          className="flex-1 min-w-0 bg-slate-950 border border-slate-700 rounded px-2 py-1 text-sm font-bengali outline-none focus:border-blue-500 placeholder-slate-600"
+        />
+        <span className="text-slate-600 text-xs">→</span>
+        <input
+          type="text"
+          value={replacement}
+          onChange={(e) => setReplacement(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && addEntry()}
+          placeholder="Say as (e.g. গুগল)"
+          className="flex-1 min-w-0 bg-slate-950 border border-slate-700 rounded px-2 py-1 text-sm font-bengali outline-none focus:border-blue-500 placeholder-slate-600"
+        />
+        <button
+          type="button"
+          onClick={addEntry}
+          disabled={!term.trim() || !replacement.trim()}
+          className="p-1.5 rounded bg-blue-600 hover:bg-blue-500 text-white disabled:opacity-40 cursor-pointer disabled:cursor-not-allowed"
+          title="Add entry"
+        >
+          <Plus size={14} />
+        </button>
+      </div>
+    </div>
+  );
+};
+
+const LexiconPanel: React.FC<LexiconPanelProps> = ({
+  projectEntries,
+  onProjectEntriesChange,
+  globalLexicons,
+  onGlobalLexiconsChange,
+  enabledGlobalIds,
+  onToggleGlobal,
+  segments,
+  onRequeue,
+  generateId,
+  onClose,
+}) => {
+  const [editingGlobalId, setEditingGlobalId] = useState<string | null>(null);
+  const [newLexiconName, setNewLexiconName] = useState("");
+  const editingGlobal = globalLexicons.find(l => l.id === editingGlobalId);
+
+  const addGlobalLexicon = () => {
+    if (!newLexiconName.trim()) return;
+    const lexicon: Lexicon = { id: generateId(), name: newLexiconName.trim(), entries: [] };
+    onGlobalLexiconsChange([...globalLexicons, lexicon]);
+    setEditingGlobalId(lexicon.id);
+    setNewLexiconName("");
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/80 backdrop-blur-sm">
+      <div className="bg-slate-900 border border-slate-700 rounded-xl p-6 w-full max-w-2xl max-h-[85vh] overflow-y-auto shadow-2xl relative">
+        <button
+          onClick={onClose}
+          className="absolute top-4 right-4 text-slate-500 hover:text-white"
+        >
+          <X size={20} />
+        </button>
+
+        <h2 className="text-xl font-bold text-white mb-1 flex items-center gap-2">
+          <BookA className="text-blue-400" /> Pronunciation Lexicon
+        </h2>
+        <p className="text-xs text-slate-500 mb-5">
+          Terms are replaced with their respelling before text is sent to the voice. The segment text itself is not changed.
+        </p>
+
+        <section className="mb-6">
+          <h3 className="text-xs font-semibold text-slate-500 uppercase tracking-wider mb-2">This Project</h3>
+          <EntryTable
+            entries={projectEntries}
+            onChange={onProjectEntriesChange}
+            segments={segments}
+            onRequeue={onRequeue}
+            generateId={generateId}
+          />
+        </section>
+
+        <section>
+          <h3 className="text-xs font-semibold text-slate-500 uppercase tracking-wider mb-2">Shared Lexicons</h3>
+          <div className="space-y-1 mb-3">
+            {globalLexicons.map(lexicon => (
+              <div key={lexicon.id} className="flex items-center gap-2 text-sm">
+                <input
+                  type="checkbox"
+                  checked={enabledGlobalIds.includes(lexicon.id)}
+                  onChange={() => onToggleGlobal(lexicon.id)}
+                  className="w-4 h-4 rounded border-slate-600 bg-slate-800 text-blue-500 cursor-pointer"
+                  title="Use in this project"
+                />
+                <button
+                  type="button"
+                  onClick={() => setEditingGlobalId(editingGlobalId === lexicon.id ? null : lexicon.id)}
+                  className={`flex-1 text-left hover:text-blue-300 ${editingGlobalId === lexicon.id ? 'text-blue-400' : 'text-slate-300'}`}
+                >
+                  {lexicon.name} <span className="text-xs text-slate-500">({lexicon.entries.length})</span>
+                </button>
+                <button
+                  type="button"
+                  onClick={() => {
+                    if (!confirm(`Delete shared lexicon "${lexicon.name}" for all projects?`)) return;
+                    onGlobalLexiconsChange(globalLexicons.filter(l => l.id !== lexicon.id));
+                    if (editingGlobalId === lexicon.id) setEditingGlobalId(null);
+                  }}
+                  className="p-1 rounded text-slate-500 hover:text-red-400 hover:bg-red-500/20 cursor-pointer"
+                  title="Delete shared lexicon"
+                >
+                  <Trash2 size={14} />
+                </button>
+              </div>
+            ))}
+          </div>
+
+          <div className="flex gap-2 mb-4">
+            <input
+              type="text"
+              value={newLexiconName}
+              onChange={(e) => setNewLexiconName(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && addGlobalLexicon()}
+              placeholder="New shared lexicon name"
+              className="flex-1 bg-slate-950 border border-slate-700 rounded px-2 py-1 text-sm outline-none focus:border-blue-500 placeholder-slate-600"
+            />
+            <button
+              type="button"
+              onClick={addGlobalLexicon}
+              disabled={!newLexiconName.trim()}
+              className="px-3 py-1 rounded bg-slate-800 border border-slate-700 text-slate-300 hover:bg-slate-700 text-sm disabled:opacity-40 cursor-pointer disabled:cursor-not-allowed"
+            >
+              Create
+            </button>
+          </div>
+
+          {editingGlobal && (
+            <div className="bg-slate-950/50 border border-slate-800 rounded-lg p-3">
+              <p className="text-xs text-slate-400 mb-2">Editing <span className="text-blue-300">{editingGlobal.name}</span> (shared by all projects)</p>
+              <EntryTable
+                entries={editingGlobal.entries}
+                onChange={(entries) => onGlobalLexiconsChange(globalLexicons.map(l => l.id === editingGlobal.id ? { ...l, entries } : l))}
+                segments={segments}
+                onRequeue={onRequeue}
+                generateId={generateId}
+              />
+            </div>
+          )}
+        </section>
+      </div>
+    </div>
+  );
+};
+
+export default LexiconPanel;
@@ -0,0 +1,173 @@
+import React, { useRef } from 'react';
+import { MusicBedSettings, MusicFit } from '../types';
+import { formatDuration } from '../services/audioUtils';
+import { Music, X, Plus, Trash2, ArrowUp, ArrowDown } from 'lucide-react';
+
+interface MusicBedPanelProps {
+  settings: MusicBedSettings;
+  onChange: (updates: Partial<MusicBedSettings>) => void;
+  onAddTracks: (files: File[]) => void;
+  onRemoveTrack: (id: string) => void;
+  onClose: () => void;
+}
+
+interface NumberFieldProps {
+  label: string;
+  unit: string;
+  value: number;
+  min: number;
+  max: number;
+  step: number;
+  onChange: (value: number) => void;
+}
+
+const NumberField: React.FC<NumberFieldProps> = ({ label, unit, value, min, max, step, onChange }) => (
+  <div>
+    <label className="block text-sm font-medium text-slate-400 mb-1">{label}</label>
+    <div className="flex items-center gap-2">
+      <input
+        type="number"
+        min={min}
+        max={max}
+        step={step}
+        value={value}
+        onChange={(e) => {
+          const parsed = parseFloat(e.target.value);
+          if (!isNaN(parsed)) onChange(Math.min(max, Math.max(min, parsed)));
+        }}
+        className="w-24 bg-slate-950 border border-slate-700 rounded px-3 py-1.5 text-sm text-white outline-none focus:border-blue-500"
+      />
+      <span className="text-xs text-slate-500">{unit}</span>
+    </div>
+  </div>
+);
+
+const MusicBedPanel: React.FC<MusicBedPanelProps> = ({ settings, onChange, onAddTracks, onRemoveTrack, onClose }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const moveTrack = (index: number, direction: -1 | 1) => {
+    const tracks = [...settings.tracks];
+    const target = index + direction;
+    if (target < 0 || target >= tracks.length) return;
+    [tracks[index], tracks[target]] = [tracks[target], tracks[index]];
+    onChange({ tracks });
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/80 backdrop-blur-sm">
+      <div className="bg-slate-900 border border-slate-700 rounded-xl p-6 w-full max-w-lg max-h-[85vh] overflow-y-auto shadow-2xl relative">
+        <button
+          onClick={onClose}
+          className="absolute top-4 right-4 text-slate-500 hover:text-white"
+        >
+          <X size={20} />
+        </button>
+
+        <h2 className="text-xl font-bold text-white mb-4 flex items-center gap-2">
+          <Music className="text-blue-400" /> Background Music
+        </h2>
+
+        <div className="space-y-6">
+          <label className="flex items-center gap-2 text-sm text-slate-300 cursor-pointer select-none">
+            <input
+              type="checkbox"
+              checked={settings.enabled}
+              onChange={(e) => onChange({ enabled: e.target.checked })}
+              className="w-4 h-4 rounded border-slate-600 bg-slate-800 text-blue-500 cursor-pointer"
+            />
+            Mix music under the merged export
+          </label>
+
+          <section className="space-y-3">
+            <div className="flex items-center justify-between">
+              <h3 className="text-xs font-semibold text-slate-500 uppercase tracking-wider">Tracks</h3>
+              <button
+                onClick={() => fileInputRef.current?.click()}
+                className="text-xs flex items-center gap-1 text-blue-400 hover:text-blue-300 cursor-pointer"
+              >
+                <Plus size={14} /> Add music files
+              </button>
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept="audio/*"
+                multiple
+                className="hidden"
+                onChange={(e) => {
+                  const files = Array.from(e.target.files || []);
+                  e.target.value = '';
+                  if (files.length > 0) onAddTracks(files);
+                }}
+              />
+            </div>
+            {settings.tracks.length === 0 ? (
+              <p className="text-xs text-slate-500">No music added. Files stay in this browser and are never uploaded.</p>
+            ) : (
+              <ul className="space-y-1">
+                {settings.tracks.map((track, index) => (
+                  <li key={track.id} className="flex items-center gap-2 bg-slate-800/60 border border-slate-700/50 rounded px-2 py-1.5 text-sm">
+                    <span className="text-[10px] font-mono text-slate-500 w-5">#{index + 1}</span>
+                    <span className="flex-1 truncate text-slate-200" title={track.name}>{track.name}</span>
+                    {track.duration !== undefined && (
+                      <span className="text-[10px] font-mono text-slate-500">{formatDuration(track.duration)}</span>
+                    )}
+                    <button onClick={() => moveTrack(index, -1)} disabled={index === 0} className="text-slate-500 hover:text-white disabled:opacity-30" title="Move up">
+                      <ArrowUp size={14} />
+                    </button>
+                    <button onClick={() => moveTrack(index, 1)} disabled={index === settings.tracks.length - 1} className="text-slate-500 hover:text-white disabled:opacity-30" title="Move down">
+                      <ArrowDown size={14} />
+                    </button>
+                    <button onClick={() => onRemoveTrack(track.id)} className="text-slate-500 hover:text-red-400" title="Remove">
+                      <Trash2 size={14} />
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+            <div>
+              <label className="block text-sm font-medium text-slate-400 mb-1">Fit to narration</label>
+              <select
+                value={settings.fit}
+                onChange={(e) => onChange({ fit: e.target.value as MusicFit })}
+                className="bg-slate-950 border border-slate-700 rounded px-3 py-1.5 text-sm text-white outline-none focus:border-blue-500"
+              >
+                <option value="loop">Loop the playlist until the end</option>
+                <option value="fade">Play once, fade out at the end</option>
+              </select>
+            </div>
+          </section>
+
+          <section className="space-y-4">
+            <h3 className="text-xs font-semibold text-slate-500 uppercase tracking-wider">Level &amp; Ducking</h3>
+            <div className="grid grid-cols-2 gap-4">
+              <NumberField label="Music level" unit="dB" value={settings.levelDb} min={-60} max={0} step={1} onChange={(levelDb) => onChange({ levelDb })} />
+              <NumberField label="Duck depth" unit="dB" value={settings.duckDb} min={0} max={40} step={1} onChange={(duckDb) => onChange({ duckDb })} />
+              <NumberField label="Attack" unit="ms" value={settings.attackMs} min={0} max={5000} step={50} onChange={(attackMs) => onChange({ attackMs })} />
+              <NumberField label="Release" unit="ms" value={settings.releaseMs} min={0} max={10000} step={50} onChange={(releaseMs) => onChange({ releaseMs })} />
+            </div>
+            <p className="text-xs text-slate-500">Music drops by the duck depth while narration is present, starting the attack time before speech.</p>
+          </section>
+
+          <section className="space-y-4">
+            <h3 className="text-xs font-semibold text-slate-500 uppercase tracking-wider">Intro &amp; Outro</h3>
+            <div className="grid grid-cols-2 gap-4">
+              <NumberField label="Music before narration" unit="ms" value={settings.introMs} min={0} max={60000} step={500} onChange={(introMs) => onChange({ introMs })} />
+              <NumberField label="Music after narration" unit="ms" value={settings.outroMs} min={0} max={60000} step={500} onChange={(outroMs) => onChange({ outroMs })} />
+            </div>
+          </section>
+        </div>
+
+        <div className="flex justify-end pt-6">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 bg-blue-600 hover:bg-blue-500 text-white rounded-lg text-sm font-medium transition-colors cursor-pointer"
+          >
+            Done
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default MusicBedPanel;
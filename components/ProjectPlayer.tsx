@@ -0,0 +1,287 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { MergedAudio, TimelineEntry } from '../services/exportService';
+import { pcmToWavUrl, formatDuration } from '../services/audioUtils';
+import { Play, Pause, SkipBack, SkipForward, Loader2, RefreshCw, LocateFixed } from 'lucide-react';
+
+interface ProjectPlayerProps {
+  renderKey: string; // Changes whenever the merged audio would sound different
+  segmentNumbers: Record<string, number>; // Segment id -> position in the list, for labels
+  onRender: () => Promise<MergedAudio>;
+  onPlayingSegmentChange: (segmentId: string | null) => void;
+  follow: boolean;
+  onFollowChange: (follow: boolean) => void;
+}
+
+const PLAYBACK_RATES = [0.75, 1, 1.25, 1.5, 2];
+
+// Back to the start of the current segment when further in than this, else to the previous one
+const RESTART_THRESHOLD_SECONDS = 1.5;
+
+interface Rendered {
+  key: string;
+  url: string;
+  timeline: TimelineEntry[];
+  duration: number;
+}
+
+const findEntry = (timeline: TimelineEntry[], time: number): number => {
+  for (let i = timeline.length - 1; i >= 0; i--) {
+    if (time >= timeline[i].startSeconds) return i;
+  }
+  return -1;
+};
+
+/**
+ * Plays the whole project as export would render it: the merged narration,
+ * with the same gaps, levels, fades and music bed, as one gapless stream.
+ */
+const ProjectPlayer: React.FC<ProjectPlayerProps> = ({ renderKey, segmentNumbers, onRender, onPlayingSegmentChange, follow, onFollowChange }) => {
+  const audioRef = useRef<HTMLAudioElement>(null);
+  const [rendered, setRendered] = useState<Rendered | null>(null);
+  const [isRendering, setIsRendering] = useState(false);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [currentTime, setCurrentTime] = useState(0);
+  const [rate, setRate] = useState(1);
+
+  const timeline = rendered?.timeline ?? [];
+  const duration = rendered?.duration ?? 0;
+  const currentIndex = findEntry(timeline, currentTime);
+  const currentSegmentId = currentIndex >= 0 ? timeline[currentIndex].segmentId : null;
+  const isOutdated = !!rendered && rendered.key !== renderKey;
+
+  useEffect(() => {
+    onPlayingSegmentChange(currentSegmentId);
+  }, [currentSegmentId]);
+
+  useEffect(() => () => {
+    if (rendered) URL.revokeObjectURL(rendered.url);
+  }, [rendered]);
+
+  // The element's time updates only a few times a second; follow it per frame while playing
+  useEffect(() => {
+    if (!isPlaying) return;
+    let frame = requestAnimationFrame(function tick() {
+      if (audioRef.current) setCurrentTime(audioRef.current.currentTime);
+      frame = requestAnimationFrame(tick);
+    });
+    return () => cancelAnimationFrame(frame);
+  }, [isPlaying]);
+
+  useEffect(() => () => onPlayingSegmentChange(null), []);
+
+  // Renders the current project, keeping the position within the segment that was playing
+  const load = async (): Promise<boolean> => {
+    setIsRendering(true);
+    try {
+      const merged = await onRender();
+      if (merged.samples.length === 0) return false;
+
+      const previous = rendered;
+      const previousEntry = previous ? previous.timeline[findEntry(previous.timeline, currentTime)] : undefined;
+      const next: Rendered = {
+        key: renderKey,
+        url: pcmToWavUrl(merged),
+        timeline: merged.timeline,
+        duration: merged.samples.length / merged.sampleRate,
+      };
+      const sameSegment = previousEntry && merged.timeline.find(e => e.segmentId === previousEntry.segmentId);
+      const resumeAt = sameSegment
+        ? sameSegment.startSeconds + Math.min(currentTime - previousEntry.startSeconds, sameSegment.durationSeconds)
+        : Math.min(currentTime, next.duration);
+
+      const audio = audioRef.current!;
+      audio.src = next.url;
+      audio.defaultPlaybackRate = rate;
+      audio.playbackRate = rate;
+      audio.currentTime = resumeAt;
+      setCurrentTime(resumeAt);
+      setRendered(next);
+      return true;
+    } catch (e) {
+      console.error("Could not prepare playback", e);
+      alert("Failed to prepare the project for playback.");
+      return false;
+    } finally {
+      setIsRendering(false);
+    }
+  };
+
+  // play() rejects when the browser blocks playback or a new source interrupts it
+  const play = async () => {
+    const audio = audioRef.current;
+    if (!audio) return;
+    try {
+      await audio.play();
+    } catch (e) {
+      setIsPlaying(!audio.paused);
+      // Interrupted by a new source or a pause; nothing went wrong
+      if (e instanceof DOMException && e.name === 'AbortError') return;
+      console.error("Could not start playback", e);
+      alert("Failed to start playback.");
+    }
+  };
+
+  const togglePlay = async () => {
+    const audio = audioRef.current;
+    if (!audio) return;
+    if (isPlaying) {
+      audio.pause();
+      return;
+    }
+    if (!rendered || isOutdated) {
+      if (!(await load())) return;
+    }
+    if (audio.currentTime >= audio.duration - 0.05) audio.currentTime = 0;
+    await play();
+  };
+
+  const refresh = async () => {
+    const wasPlaying = isPlaying;
+    audioRef.current?.pause();
+    if (await load() && wasPlaying) await play();
+  };
+
+  const seek = (time: number) => {
+    const audio = audioRef.current;
+    if (!audio || !rendered) return;
+    const clamped = Math.max(0, Math.min(time, duration));
+    audio.currentTime = clamped;
+    setCurrentTime(clamped);
+  };
+
+  const skip = (direction: -1 | 1) => {
+    if (timeline.length === 0) return;
+    if (direction === -1 && currentIndex >= 0 && currentTime - timeline[currentIndex].startSeconds > RESTART_THRESHOLD_SECONDS) {
+      seek(timeline[currentIndex].startSeconds);
+      return;
+    }
+    const target = Math.max(0, Math.min(timeline.length - 1, currentIndex + direction));
+    seek(timeline[target].startSeconds);
+  };
+
+  const changeRate = (next: number) => {
+    setRate(next);
+    if (!audioRef.current) return;
+    audioRef.current.defaultPlaybackRate = next;
+    audioRef.current.playbackRate = next;
+  };
+
+  const currentEntry = currentIndex >= 0 ? timeline[currentIndex] : undefined;
+
+  return (
+    <div className="flex items-center gap-3 px-4 py-2 border-t border-slate-800 bg-slate-900">
+      <audio
+        ref={audioRef}
+        onPlay={() => setIsPlaying(true)}
+        onPause={() => setIsPlaying(false)}
+        onEnded={() => setIsPlaying(false)}
+        onSeeked={() => audioRef.current && setCurrentTime(audioRef.current.currentTime)}
+        preload="auto"
+        className="hidden"
+      />
+
+      <div className="flex items-center gap-1 shrink-0">
+        <button
+          type="button"
+          onClick={() => skip(-1)}
+          disabled={!rendered}
+          className="p-1.5 rounded-md text-slate-400 hover:text-white hover:bg-slate-800 transition-colors cursor-pointer disabled:opacity-30 disabled:cursor-not-allowed"
+          title="Previous segment"
+        >
+          <SkipBack size={16} />
+        </button>
+        <button
+          type="button"
+          onClick={togglePlay}
+          disabled={isRendering}
+          className="p-2 rounded-full bg-blue-600 hover:bg-blue-500 text-white transition-colors cursor-pointer disabled:cursor-wait"
+          title={isPlaying ? "Pause" : "Play the whole project"}
+        >
+          {isRendering ? <Loader2 size={16} className="animate-spin" /> : isPlaying ? <Pause size={16} /> : <Play size={16} />}
+        </button>
+        <button
+          type="button"
+          onClick={() => skip(1)}
+          disabled={!rendered}
+          className="p-1.5 rounded-md text-slate-400 hover:text-white hover:bg-slate-800 transition-colors cursor-pointer disabled:opacity-30 disabled:cursor-not-allowed"
+          title="Next segment"
+        >
+          <SkipForward size={16} />
+        </button>
+      </div>
+
+      <span className="text-[10px] font-mono text-slate-400 shrink-0 w-24 text-right">
+        {formatDuration(currentTime)} / {rendered ? formatDuration(duration) : '--:--'}
+      </span>
+
+      <div className="relative flex-1 h-6 flex items-center group">
+        <div className="absolute inset-x-0 h-2 rounded-full bg-slate-800 overflow-hidden">
+          {currentEntry && duration > 0 && (
+            <div
+              className="absolute inset-y-0 bg-amber-500/20"
+              style={{ left: `${currentEntry.startSeconds / duration * 100}%`, width: `${currentEntry.durationSeconds / duration * 100}%` }}
+            />
+          )}
+          <div
+            className="absolute inset-y-0 left-0 bg-blue-500/70"
+            style={{ width: duration > 0 ? `${currentTime / duration * 100}%` : '0%' }}
+          />
+          {duration > 0 && timeline.slice(1).map(entry => (
+            <div
+              key={entry.segmentId}
+              className="absolute inset-y-0 w-px bg-slate-950/80"
+              style={{ left: `${entry.startSeconds / duration * 100}%` }}
+            />
+          ))}
+        </div>
+        <input
+          type="range"
+          min={0}
+          max={duration || 1}
+          step={0.01}
+          value={currentTime}
+          onChange={(e) => seek(parseFloat(e.target.value))}
+          disabled={!rendered}
+          className="absolute inset-x-0 w-full h-6 opacity-0 cursor-pointer disabled:cursor-default"
+          title={currentEntry ? `Segment #${segmentNumbers[currentEntry.segmentId] ?? '?'}` : 'Press play to prepare the timeline'}
+        />
+      </div>
+
+      <span className="text-[10px] font-mono text-slate-500 shrink-0 w-10">
+        {currentEntry ? `#${segmentNumbers[currentEntry.segmentId] ?? '?'}` : ''}
+      </span>
+
+      {isOutdated && (
+        <button
+          type="button"
+          onClick={refresh}
+          disabled={isRendering}
+          className="flex items-center gap-1 text-[10px] px-2 py-1 rounded bg-amber-900/30 border border-amber-700/50 text-amber-300 hover:bg-amber-900/50 transition-colors cursor-pointer shrink-0"
+          title="The project changed since playback was prepared"
+        >
+          <RefreshCw size={12} /> Update
+        </button>
+      )}
+
+      <select
+        value={rate}
+        onChange={(e) => changeRate(parseFloat(e.target.value))}
+        className="bg-slate-950 border border-slate-700 rounded p-1 text-xs text-slate-300 focus:border-blue-500 outline-none shrink-0"
+        title="Playback speed"
+      >
+        {PLAYBACK_RATES.map(r => <option key={r} value={r}>{r}×</option>)}
+      </select>
+
+      <button
+        type="button"
+        onClick={() => onFollowChange(!follow)}
+        className={`p-1.5 rounded-md hover:bg-slate-800 transition-colors cursor-pointer shrink-0 ${follow ? 'text-amber-400' : 'text-slate-500'}`}
+        title={follow ? "Stop scrolling to the playing segment" : "Scroll to the playing segment"}
+      >
+        <LocateFixed size={16} />
+      </button>
+    </div>
+  );
+};
+
+export default ProjectPlayer;
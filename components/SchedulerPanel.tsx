@@ -0,0 +1,190 @@
+import React from 'react';
+import { ProjectPriority, SchedulerSettings } from '../types';
+import { PRIORITY_LABELS, SchedulerSnapshot } from '../services/scheduler';
+import { ListOrdered, X, Pause, Play, ArrowUp, ArrowDown } from 'lucide-react';
+
+interface SchedulerPanelProps {
+  state: SchedulerSnapshot;
+  projects: { id: string; name: string; progress: { current: number; total: number } }[];
+  onSettingsChange: (updates: Partial<SchedulerSettings>) => void;
+  onPause: (projectId: string, paused: boolean) => void;
+  onPriorityChange: (projectId: string, priority: ProjectPriority) => void;
+  onMove: (projectId: string, direction: -1 | 1) => void;
+  onClose: () => void;
+}
+
+interface LimitFieldProps {
+  label: string;
+  hint: string;
+  value: number;
+  min: number;
+  onChange: (value: number) => void;
+}
+
+const LimitField: React.FC<LimitFieldProps> = ({ label, hint, value, min, onChange }) => (
+  <div>
+    <label className="block text-sm font-medium text-slate-400 mb-1">{label}</label>
+    <input
+      type="number"
+      min={min}
+      max={100}
+      step={1}
+      value={value}
+      onChange={(e) => {
+        const parsed = parseInt(e.target.value, 10);
+        if (!isNaN(parsed)) onChange(Math.min(100, Math.max(min, parsed)));
+      }}
+      className="w-24 bg-slate-950 border border-slate-700 rounded px-3 py-1.5 text-sm text-white outline-none focus:border-blue-500"
+    />
+    <p className="text-xs text-slate-500 mt-1">{hint}</p>
+  </div>
+);
+
+const SchedulerPanel: React.FC<SchedulerPanelProps> = ({ state, projects, onSettingsChange, onPause, onPriorityChange, onMove, onClose }) => {
+  const { settings } = state;
+  const names = new Map(projects.map(p => [p.id, p]));
+  const rows = state.projects.filter(p => names.has(p.projectId));
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/80 backdrop-blur-sm">
+      <div className="bg-slate-900 border border-slate-700 rounded-xl p-6 w-full max-w-lg max-h-[85vh] overflow-y-auto shadow-2xl relative">
+        <button
+          onClick={onClose}
+          className="absolute top-4 right-4 text-slate-500 hover:text-white"
+        >
+          <X size={20} />
+        </button>
+
+        <h2 className="text-xl font-bold text-white mb-2 flex items-center gap-2">
+          <ListOrdered className="text-blue-400" /> Generation Queue
+        </h2>
+        <p className="text-sm text-slate-400 mb-6">
+          All projects share one queue. Requests start in the order below, within these limits.
+        </p>
+
+        <div className="space-y-6">
+          <section className="space-y-4">
+            <h3 className="text-xs font-semibold text-slate-500 uppercase tracking-wider">Limits</h3>
+            <div className="grid grid-cols-2 gap-4">
+              <LimitField
+                label="Concurrent requests"
+                hint="Across all projects."
+                value={settings.maxConcurrent}
+                min={1}
+                onChange={(maxConcurrent) => onSettingsChange({ maxConcurrent })}
+              />
+              <LimitField
+                label="Per key"
+                hint="Requests in flight on one API key."
+                value={settings.perKeyConcurrent}
+                min={1}
+                onChange={(perKeyConcurrent) => onSettingsChange({ perKeyConcurrent })}
+              />
+              <LimitField
+                label="Requests per minute"
+                hint="Per API key. 0 for no limit."
+                value={settings.requestsPerMinute}
+                min={0}
+                onChange={(requestsPerMinute) => onSettingsChange({ requestsPerMinute })}
+              />
+            </div>
+            <label className="flex items-start gap-2 cursor-pointer select-none">
+              <input
+                type="checkbox"
+                checked={settings.adaptive}
+                onChange={(e) => onSettingsChange({ adaptive: e.target.checked })}
+                className="mt-0.5 w-4 h-4 rounded border-slate-600 bg-slate-800 text-blue-500 cursor-pointer"
+              />
+              <span className="text-sm text-slate-300">
+                Back off on rate limits
+                <span className="block text-xs text-slate-500">
+                  Halves concurrency after a rate-limit error and raises it again as requests succeed.
+                </span>
+              </span>
+            </label>
+            <p className="text-xs font-mono text-slate-500">
+              Running {state.running} of {state.concurrencyLimit}
+              {state.concurrencyLimit < settings.maxConcurrent && (
+                <span className="text-amber-400"> (reduced from {settings.maxConcurrent} after rate limits)</span>
+              )}
+            </p>
+          </section>
+
+          <section>
+            <h3 className="text-xs font-semibold text-slate-500 uppercase tracking-wider mb-2">Projects</h3>
+            <div className="space-y-2">
+              {rows.map((row, index) => {
+                const project = names.get(row.projectId)!;
+                const isActive = row.queued > 0 || row.running > 0;
+                return (
+                  <div key={row.projectId} className="flex items-center gap-2 bg-slate-950 border border-slate-800 rounded-lg px-3 py-2">
+                    <div className="flex flex-col">
+                      <button
+                        type="button"
+                        onClick={() => onMove(row.projectId, -1)}
+                        disabled={index === 0}
+                        className="text-slate-500 hover:text-white disabled:opacity-20 cursor-pointer disabled:cursor-not-allowed"
+                        title="Run earlier"
+                      >
+                        <ArrowUp size={12} />
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => onMove(row.projectId, 1)}
+                        disabled={index === rows.length - 1}
+                        className="text-slate-500 hover:text-white disabled:opacity-20 cursor-pointer disabled:cursor-not-allowed"
+                        title="Run later"
+                      >
+                        <ArrowDown size={12} />
+                      </button>
+                    </div>
+                    <div className="flex-1 min-w-0">
+                      <div className="text-sm text-slate-200 truncate">{project.name}</div>
+                      <div className="text-[10px] font-mono text-slate-500">
+                        {isActive
+                          ? `${project.progress.current}/${project.progress.total} done · ${row.running} running · ${row.queued} waiting`
+                          : 'Idle'}
+                      </div>
+                    </div>
+                    <select
+                      value={row.priority}
+                      onChange={(e) => onPriorityChange(row.projectId, e.target.value as ProjectPriority)}
+                      className="bg-slate-900 border border-slate-700 rounded p-1 text-xs focus:border-blue-500 outline-none"
+                      title="Priority"
+                    >
+                      {(Object.keys(PRIORITY_LABELS) as ProjectPriority[]).map(priority => (
+                        <option key={priority} value={priority}>{PRIORITY_LABELS[priority]}</option>
+                      ))}
+                    </select>
+                    <button
+                      type="button"
+                      onClick={() => onPause(row.projectId, !row.paused)}
+                      className={`p-1.5 rounded-md hover:bg-slate-800 transition-colors cursor-pointer ${row.paused ? 'text-amber-400' : 'text-slate-400'}`}
+                      title={row.paused ? 'Resume this project' : 'Pause this project'}
+                    >
+                      {row.paused ? <Play size={14} /> : <Pause size={14} />}
+                    </button>
+                  </div>
+                );
+              })}
+            </div>
+            <p className="text-[10px] text-slate-600 mt-2">
+              Higher priority runs first; within a priority, the upper project runs first. Pausing lets running requests finish.
+            </p>
+          </section>
+
+          <div className="flex justify-end pt-2">
+            <button
+              onClick={onClose}
+              className="px-4 py-2 bg-blue-600 hover:bg-blue-500 text-white rounded-lg text-sm font-medium transition-colors cursor-pointer"
+            >
+              Done
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SchedulerPanel;
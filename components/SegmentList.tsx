@@ -1,16 +1,196 @@
-import React from 'react';
-import { AudioSegment, SegmentStatus } from '../types';
-import { Download, RefreshCw, AlertCircle, X, Volume2 } from 'lucide-react';
+import React, { useEffect, useRef, useState } from 'react';
+import { AudioEdit, AudioSegment, ExportSettings, SegmentStatus, VoiceConfig, VoiceOverrides } from '../types';
+import { BOUNDARY_LABELS } from '../services/segmenter';
+import { previewSpokenText, SpokenTextOptions } from '../services/spokenText';
+import { getGapAfterMs } from '../services/exportService';
+import { formatTimestamp } from '../services/subtitleService';
+import { getChapters, suggestChapterTitle } from '../services/chapters';
+import { formatDuration } from '../services/audioUtils';
+import { gainToDb } from '../services/loudness';
+import { getEffectiveDuration } from '../services/silenceTrim';
+import { getSpeakerColor } from './SpeakerPanel';
+import VoiceOverrideFields from './VoiceOverrideFields';
+import TakeList from './TakeList';
+import WaveformEditor from './WaveformEditor';
+import { ResolvedVoice, cleanOverrides, describeOverrides } from '../services/voiceOverrides';
+import { canJoinWithNext, isEditable } from '../services/segmentEditor';
+import { ERROR_CATEGORIES } from '../services/ttsProvider';
+import { Download, RefreshCw, AlertCircle, X, Volume2, Timer, Scissors, Wand2, GripVertical, Pencil, Combine, Split, Plus, Check, Database, DatabaseZap, AudioWaveform, Heading, Clock, Bookmark, BookmarkPlus } from 'lucide-react';
 
 interface SegmentListProps {
   segments: AudioSegment[];
-  onRetry: (id: string) => void;
+  onRetry: (id: string, bypassCache?: boolean) => void;
   onDelete: (id: string) => void;
   onVolumeChange: (id: string, volume: number) => void;
   onToggleSelect: (id: string) => void;
+  spokenTextOptions: SpokenTextOptions;
+  exportSettings: ExportSettings;
+  onPauseAfterChange: (id: string, pauseAfterMs: number | undefined) => void;
+  voices: VoiceConfig[];
+  supportsStyle: boolean;
+  supportsPace: boolean;
+  getVoiceDefaults: (segment: AudioSegment) => ResolvedVoice; // Settings without the segment's overrides
+  onOverridesChange: (id: string, overrides: VoiceOverrides | undefined) => void;
+  maxTextLength: number; // Longest text the provider accepts in one request
+  onTextChange: (id: string, text: string) => void;
+  onSplit: (id: string, text: string, offset: number) => void;
+  onJoinWithNext: (id: string) => void;
+  onInsert: (index: number, text: string) => void;
+  onMove: (id: string, toIndex: number) => void;
+  onChooseTake: (id: string, takeId: string) => void;
+  onDeleteTake: (id: string, takeId: string) => void;
+  onAudioEditChange: (id: string, edit: AudioEdit | undefined) => void;
+  playingSegmentId?: string | null; // Highlighted while the project player is in it
+  followPlayback?: boolean; // Scroll the playing segment into view
+  onChapterChange: (id: string, title: string | undefined) => void; // Undefined removes the marker
 }
 
-const SegmentList: React.FC<SegmentListProps> = ({ segments, onRetry, onDelete, onVolumeChange, onToggleSelect }) => {
+const editorClass = "w-full bg-slate-900 border border-slate-700 rounded-md p-2 text-sm font-bengali leading-relaxed text-slate-200 focus:border-blue-500 outline-none resize-y placeholder-slate-600";
+
+// Volume as a dB trim, used when loudness normalization sets the base level
+const formatTrim = (volume: number) => {
+  if (volume <= 0) return 'mute';
+  const db = gainToDb(volume);
+  return `${db >= 0 ? '+' : ''}${db.toFixed(1)} dB`;
+};
+
+const SegmentList: React.FC<SegmentListProps> = ({ segments, onRetry, onDelete, onVolumeChange, onToggleSelect, spokenTextOptions, exportSettings, onPauseAfterChange, voices, supportsStyle, supportsPace, getVoiceDefaults, onOverridesChange, maxTextLength, onTextChange, onSplit, onJoinWithNext, onInsert, onMove, onChooseTake, onDeleteTake, onAudioEditChange, playingSegmentId, followPlayback, onChapterChange }) => {
+  const [editingOverrides, setEditingOverrides] = useState<Set<string>>(new Set());
+  const [editingAudio, setEditingAudio] = useState<Set<string>>(new Set());
+  const [editing, setEditing] = useState<{ id: string; draft: string } | null>(null);
+  const [insertAt, setInsertAt] = useState<{ index: number; draft: string } | null>(null);
+  const [dragId, setDragId] = useState<string | null>(null);
+  const [dropIndex, setDropIndex] = useState<number | null>(null); // Gap before this index
+  const editorRef = useRef<HTMLTextAreaElement>(null);
+  const cardRefs = useRef<Record<string, HTMLDivElement | null>>({});
+  const chapterNumbers = new Map(getChapters(segments).map((chapter, i) => [chapter.id, { number: i + 1, chapter }]));
+
+  useEffect(() => {
+    if (!followPlayback || !playingSegmentId) return;
+    cardRefs.current[playingSegmentId]?.scrollIntoView({ behavior: 'smooth', block: 'nearest' });
+  }, [playingSegmentId, followPlayback]);
+
+  const startEditing = (segment: AudioSegment) => {
+    setInsertAt(null);
+    setEditing({ id: segment.id, draft: segment.text });
+  };
+
+  const saveEdit = () => {
+    if (!editing) return;
+    onTextChange(editing.id, editing.draft);
+    setEditing(null);
+  };
+
+  const splitAtCursor = () => {
+    if (!editing || !editorRef.current) return;
+    onSplit(editing.id, editing.draft, editorRef.current.selectionStart);
+    setEditing(null);
+  };
+
+  const saveInsert = () => {
+    if (!insertAt) return;
+    if (insertAt.draft.trim()) onInsert(insertAt.index, insertAt.draft);
+    setInsertAt(null);
+  };
+
+  const handleDragOver = (e: React.DragEvent<HTMLDivElement>, index: number) => {
+    if (!dragId) return;
+    e.preventDefault();
+    const rect = e.currentTarget.getBoundingClientRect();
+    setDropIndex(e.clientY < rect.top + rect.height / 2 ? index : index + 1);
+  };
+
+  const handleDrop = (e: React.DragEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    if (dragId && dropIndex !== null) {
+      const from = segments.findIndex(s => s.id === dragId);
+      // The dragged card leaves its old slot, so gaps after it shift up by one
+      onMove(dragId, dropIndex > from ? dropIndex - 1 : dropIndex);
+    }
+    setDragId(null);
+    setDropIndex(null);
+  };
+
+  const renderInsertSlot = (index: number) => {
+    const next = segments[index];
+    if (insertAt?.index === index) {
+      return (
+        <div className="p-3 rounded-lg border border-dashed border-blue-500/50 bg-slate-800/60">
+          <textarea
+            autoFocus
+            value={insertAt.draft}
+            onChange={(e) => setInsertAt({ index, draft: e.target.value })}
+            placeholder="Text for the new segment. Long text is chunked like the main input."
+            rows={3}
+            className={editorClass}
+          />
+          <div className="flex justify-end items-center gap-2 mt-2">
+            <button
+              type="button"
+              onClick={() => setInsertAt(null)}
+              className="px-3 py-1 text-xs rounded-md text-slate-400 hover:text-white hover:bg-slate-700 transition-colors cursor-pointer"
+            >
+              Cancel
+            </button>
+            <button
+              type="button"
+              onClick={saveInsert}
+              disabled={!insertAt.draft.trim()}
+              className="px-3 py-1 text-xs rounded-md bg-blue-600 hover:bg-blue-500 text-white transition-colors cursor-pointer disabled:opacity-40 disabled:cursor-not-allowed"
+            >
+              Insert
+            </button>
+          </div>
+        </div>
+      );
+    }
+
+    return (
+      <div
+        className="relative h-4 flex items-center justify-center"
+        onDragOver={(e) => { if (dragId) { e.preventDefault(); setDropIndex(index); } }}
+        onDrop={handleDrop}
+      >
+        {dropIndex === index ? (
+          <div className="absolute inset-x-0 h-0.5 rounded bg-blue-500" />
+        ) : !dragId && (
+          <div className="opacity-0 hover:opacity-100 focus-within:opacity-100 flex items-center gap-1 transition-opacity">
+            <button
+              type="button"
+              onClick={() => { setEditing(null); setInsertAt({ index, draft: '' }); }}
+              className="flex items-center gap-1 px-2 text-[10px] text-blue-400 bg-slate-900 rounded-full border border-slate-700 cursor-pointer"
+              title="Insert a segment here"
+            >
+              <Plus size={10} /> Insert
+            </button>
+            {next && next.chapterTitle === undefined && (
+              <button
+                type="button"
+                onClick={() => onChapterChange(next.id, suggestChapterTitle(segments, next.id))}
+                className="flex items-center gap-1 px-2 text-[10px] text-amber-300 bg-slate-900 rounded-full border border-slate-700 cursor-pointer"
+                title="Start a chapter here"
+              >
+                <BookmarkPlus size={10} /> Chapter
+              </button>
+            )}
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  const toggleIn = (set: React.Dispatch<React.SetStateAction<Set<string>>>, id: string) => {
+    set(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  const toggleOverrideEditor = (id: string) => toggleIn(setEditingOverrides, id);
+  const toggleWaveformEditor = (id: string) => toggleIn(setEditingAudio, id);
+
   if (segments.length === 0) {
     return (
       <div className="flex flex-col items-center justify-center h-full text-slate-500 p-8 text-center border-2 border-dashed border-slate-700 rounded-xl">
@@ -21,11 +201,47 @@ const SegmentList: React.FC<SegmentListProps> = ({ segments, onRetry, onDelete,
   }
 
   return (
-    <div className="space-y-4 pb-20">
-      {segments.map((segment, index) => (
+    <div className="pb-20" onDragLeave={(e) => { if (!e.currentTarget.contains(e.relatedTarget as Node)) setDropIndex(null); }}>
+      {segments.map((segment, index) => {
+        // Completed segments show what was actually sent; others preview the current rules
+        const hasRules = spokenTextOptions.normalize || spokenTextOptions.lexicon.length > 0;
+        const normalized = hasRules && segment.status !== SegmentStatus.COMPLETED 
+          ? previewSpokenText(segment.text, spokenTextOptions) 
+          : null;
+        const rewrites = normalized?.rewrites ?? [];
+        const spokenPreview = segment.status === SegmentStatus.COMPLETED ? segment.spokenText : normalized?.text;
+        const overrides = cleanOverrides(segment.overrides);
+        const isEditingOverrides = editingOverrides.has(segment.id);
+        const isEditingAudio = editingAudio.has(segment.id) && segment.status === SegmentStatus.COMPLETED && !!segment.audioUrl;
+        const effectiveDuration = getEffectiveDuration(segment, exportSettings);
+        const trimmedDuration = segment.duration !== undefined && segment.duration - effectiveDuration >= 0.05 ? effectiveDuration : null;
+        const isEditing = editing?.id === segment.id;
+        const editable = isEditable(segment);
+
+        return (
+        <React.Fragment key={segment.id}>
+        {renderInsertSlot(index)}
+        {segment.chapterTitle !== undefined && chapterNumbers.has(segment.id) && (
+          <div className="flex items-center gap-2 mb-2 text-xs text-amber-300">
+            <Bookmark size={12} className="shrink-0" />
+            <span className="font-semibold shrink-0">Chapter {chapterNumbers.get(segment.id)!.number}</span>
+            <span className="font-bengali text-amber-200/80 truncate">{chapterNumbers.get(segment.id)!.chapter.title}</span>
+            <div className="flex-1 h-px bg-amber-700/40" />
+            <button
+              type="button"
+              onClick={() => onChapterChange(segment.id, undefined)}
+              className="p-0.5 rounded text-slate-500 hover:text-red-400 transition-colors cursor-pointer"
+              title="Remove this chapter marker"
+            >
+              <X size={12} />
+            </button>
+          </div>
+        )}
         <div 
-          key={segment.id} 
-          className={`relative p-4 rounded-lg border group transition-all duration-300 shadow-sm hover:shadow-md ${
+          ref={el => { cardRefs.current[segment.id] = el; }}
+          onDragOver={(e) => handleDragOver(e, index)}
+          onDrop={handleDrop}
+          className={`relative p-4 rounded-lg border group transition-all duration-300 shadow-sm hover:shadow-md ${dragId === segment.id ? 'opacity-40' : ''} ${playingSegmentId === segment.id ? 'ring-2 ring-amber-400/60' : ''} ${
             segment.isSelected ? 'border-blue-500/50 bg-blue-900/5 ring-1 ring-blue-500/20' : 
             segment.status === SegmentStatus.PROCESSING ? 'border-blue-500 bg-blue-900/10' :
             segment.status === SegmentStatus.COMPLETED ? 'border-green-500/30 bg-green-900/10' :
@@ -43,10 +259,92 @@ const SegmentList: React.FC<SegmentListProps> = ({ segments, onRetry, onDelete,
               />
             </div>
             
-            <span className="text-xs font-mono text-slate-400 bg-slate-800/50 px-2 py-0.5 rounded border border-slate-700/50">
-              #{index + 1}
-            </span>
+            <div className="flex items-center gap-2">
+              <span
+                draggable
+                onDragStart={(e) => {
+                  e.dataTransfer.effectAllowed = 'move';
+                  const card = e.currentTarget.closest('.group');
+                  if (card) e.dataTransfer.setDragImage(card, 20, 20);
+                  setDragId(segment.id);
+                }}
+                onDragEnd={() => { setDragId(null); setDropIndex(null); }}
+                className="-ml-1 text-slate-600 hover:text-slate-300 cursor-grab active:cursor-grabbing"
+                title="Drag to reorder"
+              >
+                <GripVertical size={14} />
+              </span>
+              <span className="text-xs font-mono text-slate-400 bg-slate-800/50 px-2 py-0.5 rounded border border-slate-700/50">
+                #{index + 1}
+              </span>
+              {segment.heading && (
+                <span className="flex items-center gap-1 text-[10px] px-1.5 py-0.5 rounded border text-slate-200 border-slate-600 bg-slate-800" title="Heading from the source text">
+                  <Heading size={10} /> Heading
+                </span>
+              )}
+              {segment.timecode && (
+                <span className="flex items-center gap-1 text-[10px] font-mono px-1.5 py-0.5 rounded border text-slate-400 border-slate-700/50" title="Original subtitle cue; export never starts this segment earlier">
+                  <Clock size={10} /> {formatTimestamp(segment.timecode.startSeconds, ',')} → {formatTimestamp(segment.timecode.endSeconds, ',')}
+                </span>
+              )}
+              {segment.speaker && (
+                <span className={`text-[10px] font-bengali px-1.5 py-0.5 rounded border ${getSpeakerColor(segment.speaker)}`} title="Speaker">
+                  {segment.speaker}
+                </span>
+              )}
+              {segment.boundary && (
+                <span 
+                  className={`text-[10px] px-1.5 py-0.5 rounded border ${
+                    segment.boundary === 'whitespace' || segment.boundary === 'hard'
+                      ? 'text-amber-400 border-amber-700/50 bg-amber-900/20'
+                      : 'text-slate-500 border-slate-700/50'
+                  }`}
+                  title="Why the text was split after this segment"
+                >
+                  {BOUNDARY_LABELS[segment.boundary]}
+                </span>
+              )}
+              {overrides && (
+                <span
+                  className="flex items-center gap-1 text-[10px] px-1.5 py-0.5 rounded border text-fuchsia-300 border-fuchsia-800 bg-fuchsia-900/30"
+                  title={describeOverrides(overrides, voices)}
+                >
+                  <Wand2 size={10} /> Custom voice
+                </span>
+              )}
+            </div>
             <div className="flex gap-2 z-10">
+              <button
+                type="button"
+                onClick={() => isEditing ? setEditing(null) : startEditing(segment)}
+                disabled={!editable}
+                className={`p-2 hover:bg-slate-700 rounded-md transition-colors cursor-pointer disabled:opacity-30 disabled:cursor-not-allowed ${isEditing ? 'text-blue-400' : 'text-slate-500'}`}
+                title={editable ? "Edit text" : "Cannot edit while generating"}
+              >
+                <Pencil size={18} className="pointer-events-none" />
+              </button>
+              {index < segments.length - 1 && (
+                <button
+                  type="button"
+                  onClick={() => onJoinWithNext(segment.id)}
+                  disabled={!canJoinWithNext(segments, index)}
+                  className="p-2 hover:bg-slate-700 rounded-md text-slate-500 transition-colors cursor-pointer disabled:opacity-30 disabled:cursor-not-allowed"
+                  title={canJoinWithNext(segments, index)
+                    ? `Join with #${index + 2}`
+                    : segment.speaker !== segments[index + 1].speaker ? "Cannot join segments of different speakers"
+                    : segments[index + 1].chapterTitle !== undefined ? "Cannot join across a chapter start" : "Cannot join while generating"}
+                >
+                  <Combine size={18} className="pointer-events-none" />
+                </button>
+              )}
+              <button
+                type="button"
+                onClick={() => toggleOverrideEditor(segment.id)}
+                className={`p-2 hover:bg-slate-700 rounded-md transition-colors cursor-pointer ${isEditingOverrides || overrides ? 'text-fuchsia-300' : 'text-slate-500'}`}
+                title="Voice, style and pace for this segment"
+              >
+                <Wand2 size={18} className="pointer-events-none" />
+              </button>
               {segment.status === SegmentStatus.ERROR && (
                 <button 
                   onClick={() => onRetry(segment.id)}
@@ -57,6 +355,26 @@ const SegmentList: React.FC<SegmentListProps> = ({ segments, onRetry, onDelete,
                   <RefreshCw size={18} className="pointer-events-none" />
                 </button>
               )}
+              {segment.status === SegmentStatus.COMPLETED && segment.audioUrl && (
+                <button
+                  type="button"
+                  onClick={() => toggleWaveformEditor(segment.id)}
+                  className={`p-2 hover:bg-slate-700 rounded-md transition-colors cursor-pointer ${isEditingAudio || segment.edit ? 'text-sky-300' : 'text-slate-500'}`}
+                  title={segment.edit ? "Trim and cuts (edited)" : "Trim and cut the audio"}
+                >
+                  <AudioWaveform size={18} className="pointer-events-none" />
+                </button>
+              )}
+              {segment.status === SegmentStatus.COMPLETED && (
+                <button
+                  onClick={() => onRetry(segment.id, true)}
+                  className="p-2 hover:bg-slate-700 rounded-md text-slate-500 hover:text-amber-400 transition-colors cursor-pointer"
+                  title="Regenerate, bypassing the audio cache"
+                  type="button"
+                >
+                  <DatabaseZap size={18} className="pointer-events-none" />
+                </button>
+              )}
               {segment.status === SegmentStatus.COMPLETED && segment.audioUrl && (
                  <a 
                  href={segment.audioUrl} 
@@ -84,9 +402,112 @@ const SegmentList: React.FC<SegmentListProps> = ({ segments, onRetry, onDelete,
             </div>
           </div>
           
-          <p className="text-slate-300 text-sm mb-3 font-bengali leading-relaxed pr-8 pl-6">
-            {segment.text}
-          </p>
+          {isEditing ? (
+            <div className="mb-3 pl-6 pr-8">
+              <textarea
+                ref={editorRef}
+                autoFocus
+                value={editing.draft}
+                onChange={(e) => setEditing({ id: segment.id, draft: e.target.value })}
+                onKeyDown={(e) => {
+                  if (e.key === 'Escape') setEditing(null);
+                  if (e.key === 'Enter' && (e.ctrlKey || e.metaKey)) saveEdit();
+                }}
+                rows={Math.min(8, Math.max(2, Math.ceil(editing.draft.length / 80)))}
+                className={editorClass}
+              />
+              <div className="flex items-center gap-2 mt-2">
+                <span className={`text-[10px] font-mono mr-auto ${editing.draft.trim().length > maxTextLength ? 'text-red-400' : 'text-slate-500'}`}>
+                  {editing.draft.trim().length} / {maxTextLength}
+                </span>
+                <button
+                  type="button"
+                  onClick={splitAtCursor}
+                  className="flex items-center gap-1 px-3 py-1 text-xs rounded-md text-slate-300 bg-slate-800 border border-slate-700 hover:bg-slate-700 transition-colors cursor-pointer"
+                  title="Split into two segments at the cursor"
+                >
+                  <Split size={12} /> Split at cursor
+                </button>
+                <button
+                  type="button"
+                  onClick={() => setEditing(null)}
+                  className="px-3 py-1 text-xs rounded-md text-slate-400 hover:text-white hover:bg-slate-700 transition-colors cursor-pointer"
+                >
+                  Cancel
+                </button>
+                <button
+                  type="button"
+                  onClick={saveEdit}
+                  disabled={!editing.draft.trim() || editing.draft.trim().length > maxTextLength}
+                  className="flex items-center gap-1 px-3 py-1 text-xs rounded-md bg-blue-600 hover:bg-blue-500 text-white transition-colors cursor-pointer disabled:opacity-40 disabled:cursor-not-allowed"
+                  title="Save (Ctrl+Enter). Finished audio is discarded and the segment must be generated again."
+                >
+                  <Check size={12} /> Save
+                </button>
+              </div>
+            </div>
+          ) : (
+            <p className="text-slate-300 text-sm mb-3 font-bengali leading-relaxed pr-8 pl-6">
+              {segment.text}
+            </p>
+          )}
+
+          {isEditingOverrides && (
+            <div className="mb-3 ml-6 mr-8 p-2 rounded-md border border-fuchsia-900/50 bg-slate-900/40">
+              <VoiceOverrideFields
+                overrides={segment.overrides ?? {}}
+                onChange={(next) => onOverridesChange(segment.id, next)}
+                voices={voices}
+                supportsStyle={supportsStyle}
+                supportsPace={supportsPace}
+                defaults={getVoiceDefaults(segment)}
+              />
+            </div>
+          )}
+
+          {isEditingAudio && (
+            <div className="mb-3 ml-6 mr-8 p-2 rounded-md border border-sky-900/50 bg-slate-900/40">
+              <WaveformEditor
+                audioUrl={segment.audioUrl!}
+                edit={segment.edit}
+                onChange={(edit) => onAudioEditChange(segment.id, edit)}
+              />
+            </div>
+          )}
+
+          {spokenPreview && spokenPreview !== segment.text && (
+            <details className="mb-3 pl-6 pr-8 text-xs text-slate-400">
+              <summary className="cursor-pointer select-none text-slate-500 hover:text-slate-300">
+                {rewrites.length > 0 ? `${rewrites.length} rewrite${rewrites.length === 1 ? '' : 's'} for speech` : 'Spoken text'}
+              </summary>
+              {rewrites.length > 0 && (
+                <ul className="mt-2 space-y-1">
+                  {rewrites.map((r, i) => (
+                    <li key={i} className="font-bengali">
+                      <span className="text-slate-500">{r.original}</span>
+                      <span className="mx-1.5 text-slate-600">→</span>
+                      <span className="text-emerald-400/80">{r.spoken}</span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+              <p className="mt-2 font-bengali leading-relaxed text-slate-400 border-l-2 border-slate-700 pl-2">{spokenPreview}</p>
+            </details>
+          )}
+
+          {segment.takes && segment.takes.length > 1 && (
+            <details className="mb-3 pl-6 pr-8 text-xs text-slate-400">
+              <summary className="cursor-pointer select-none text-slate-500 hover:text-slate-300">
+                {segment.takes.length} takes
+              </summary>
+              <TakeList
+                takes={segment.takes}
+                chosenTakeId={segment.chosenTakeId}
+                onChoose={(takeId) => onChooseTake(segment.id, takeId)}
+                onDelete={(takeId) => onDeleteTake(segment.id, takeId)}
+              />
+            </details>
+          )}
 
           <div className="flex flex-col gap-3 pl-6">
             <div className="flex items-center gap-3 h-6">
@@ -103,34 +524,83 @@ const SegmentList: React.FC<SegmentListProps> = ({ segments, onRetry, onDelete,
               {segment.status === SegmentStatus.COMPLETED && segment.audioUrl && (
                 <audio controls className="w-full h-6 opacity-80" src={segment.audioUrl} />
               )}
+              {segment.status === SegmentStatus.COMPLETED && segment.duration !== undefined && (
+                trimmedDuration !== null ? (
+                  <span
+                    className="flex items-center gap-1 text-[10px] font-mono text-slate-500 shrink-0"
+                    title={`Trimmed to ${trimmedDuration.toFixed(2)}s from ${segment.duration.toFixed(2)}s`}
+                  >
+                    <Scissors size={10} className="text-blue-400" />
+                    {trimmedDuration.toFixed(1)}s <span className="text-slate-600 line-through">{segment.duration.toFixed(1)}s</span>
+                  </span>
+                ) : (
+                  <span className="text-[10px] font-mono text-slate-500 shrink-0">{formatDuration(segment.duration)}</span>
+                )
+              )}
+              {segment.status === SegmentStatus.COMPLETED && segment.cached && (
+                <span
+                  className="flex items-center gap-1 text-[10px] px-1.5 py-0.5 rounded border border-blue-800 bg-blue-900/30 text-blue-300 shrink-0"
+                  title="Reused from the audio cache; no request was made"
+                >
+                  <Database size={10} /> Cached
+                </span>
+              )}
               {segment.status === SegmentStatus.ERROR && (
                 <div className="flex items-center gap-2 text-xs text-red-400 w-full">
                   <AlertCircle size={12} className="shrink-0" /> 
-                  <span title={segment.error} className="truncate block flex-1">{segment.error || "Failed"}</span>
+                  <span className="text-[10px] px-1.5 py-0.5 rounded border border-red-800 bg-red-900/30 text-red-300 shrink-0">
+                    {ERROR_CATEGORIES[segment.errorCode ?? 'unknown'].label}
+                  </span>
+                  <span title={segment.error || "Failed"} className="truncate block flex-1">{ERROR_CATEGORIES[segment.errorCode ?? 'unknown'].fix}</span>
                 </div>
               )}
             </div>
 
-            {/* Volume Slider for Individual Segment */}
-            <div className="flex items-center gap-2 mt-1 bg-slate-900/30 p-1.5 rounded-md border border-slate-700/30 w-fit">
-              <Volume2 size={14} className={segment.volume === 0 ? "text-slate-600" : "text-slate-400"} />
-              <input 
-                type="range" 
-                min="0" 
-                max="2" 
-                step="0.1" 
-                value={segment.volume} 
-                onChange={(e) => onVolumeChange(segment.id, parseFloat(e.target.value))}
-                className="w-24 h-1.5 bg-slate-700 rounded-lg appearance-none cursor-pointer accent-blue-500"
-                title={`Volume: ${Math.round(segment.volume * 100)}%`}
-              />
-              <span className="text-[10px] font-mono text-slate-500 w-8 text-right">
-                {Math.round(segment.volume * 100)}%
-              </span>
+            <div className="flex flex-wrap items-center gap-2">
+              {/* Volume Slider for Individual Segment */}
+              <div className="flex items-center gap-2 mt-1 bg-slate-900/30 p-1.5 rounded-md border border-slate-700/30 w-fit">
+                <Volume2 size={14} className={segment.volume === 0 ? "text-slate-600" : "text-slate-400"} />
+                <input 
+                  type="range" 
+                  min="0" 
+                  max="2" 
+                  step="0.1" 
+                  value={segment.volume} 
+                  onChange={(e) => onVolumeChange(segment.id, parseFloat(e.target.value))}
+                  className="w-24 h-1.5 bg-slate-700 rounded-lg appearance-none cursor-pointer accent-blue-500"
+                  title={exportSettings.loudnessTarget !== null
+                    ? `Trim: ${formatTrim(segment.volume)} relative to ${exportSettings.loudnessTarget} LUFS`
+                    : `Volume: ${Math.round(segment.volume * 100)}%`}
+                />
+                <span className="text-[10px] font-mono text-slate-500 min-w-8 text-right whitespace-nowrap">
+                  {exportSettings.loudnessTarget !== null ? formatTrim(segment.volume) : `${Math.round(segment.volume * 100)}%`}
+                </span>
+              </div>
+
+              {/* Pause inserted after this segment in the merged export */}
+              <div className="flex items-center gap-2 mt-1 bg-slate-900/30 p-1.5 rounded-md border border-slate-700/30 w-fit" title="Pause after this segment (leave empty to use the export setting)">
+                <Timer size={14} className={segment.pauseAfterMs !== undefined ? "text-blue-400" : "text-slate-400"} />
+                <input 
+                  type="number"
+                  min={0}
+                  step={50}
+                  value={segment.pauseAfterMs ?? ''}
+                  placeholder={`${getGapAfterMs({ ...segment, pauseAfterMs: undefined }, false, exportSettings)}`}
+                  onChange={(e) => {
+                    const value = parseInt(e.target.value, 10);
+                    onPauseAfterChange(segment.id, isNaN(value) ? undefined : Math.max(0, value));
+                  }}
+                  className="w-16 bg-transparent text-[11px] font-mono text-slate-300 outline-none placeholder-slate-600"
+                />
+                <span className="text-[10px] text-slate-500">ms pause</span>
+              </div>
             </div>
           </div>
         </div>
-      ))}
+        </React.Fragment>
+        );
+      })}
+      {renderInsertSlot(segments.length)}
     </div>
   );
 };
@@ -0,0 +1,86 @@
+import React from 'react';
+import { SpeakerVoice, VoiceConfig } from '../types';
+import { Users } from 'lucide-react';
+
+interface SpeakerPanelProps {
+  speakers: SpeakerVoice[];
+  pendingSpeakers: string[]; // Tagged in the input text but not mapped yet
+  segmentCounts: Record<string, number>;
+  voices: VoiceConfig[];
+  narratorVoice: string;
+  supportsStyle: boolean;
+  onChange: (name: string, updates: Partial<Omit<SpeakerVoice, 'name'>>) => void;
+}
+
+const SPEAKER_COLORS = [
+  'text-sky-300 bg-sky-900/30 border-sky-800',
+  'text-rose-300 bg-rose-900/30 border-rose-800',
+  'text-amber-300 bg-amber-900/30 border-amber-800',
+  'text-emerald-300 bg-emerald-900/30 border-emerald-800',
+  'text-violet-300 bg-violet-900/30 border-violet-800',
+  'text-orange-300 bg-orange-900/30 border-orange-800',
+];
+
+/**
+ * Stable badge colour for a speaker name.
+ */
+export const getSpeakerColor = (name: string): string => {
+  let hash = 0;
+  for (let i = 0; i < name.length; i++) hash = (hash * 31 + name.charCodeAt(i)) >>> 0;
+  return SPEAKER_COLORS[hash % SPEAKER_COLORS.length];
+};
+
+const SpeakerPanel: React.FC<SpeakerPanelProps> = ({ speakers, pendingSpeakers, segmentCounts, voices, narratorVoice, supportsStyle, onChange }) => {
+  const rows = [
+    ...speakers,
+    ...pendingSpeakers.filter(name => !speakers.some(s => s.name === name)).map(name => ({ name, voice: '', styleInstruction: '' })),
+  ];
+
+  return (
+    <div>
+      <label className="block text-xs font-semibold text-slate-500 uppercase tracking-wider mb-2 flex items-center gap-1">
+        <Users size={12} /> Speakers
+      </label>
+      {rows.length === 0 ? (
+        <p className="text-xs text-slate-500">
+          Tag lines as <span className="font-bengali text-slate-400">রহিম: ...</span> to give each speaker a voice. Untagged paragraphs use the narrator voice above.
+        </p>
+      ) : (
+        <div className="space-y-2">
+          {rows.map(speaker => (
+            <div key={speaker.name} className="flex items-center gap-2">
+              <span className={`shrink-0 max-w-[7rem] truncate text-xs font-bengali px-2 py-1 rounded border ${getSpeakerColor(speaker.name)}`} title={speaker.name}>
+                {speaker.name}
+              </span>
+              <select
+                value={speaker.voice}
+                onChange={(e) => onChange(speaker.name, { voice: e.target.value })}
+                className="flex-1 min-w-0 bg-slate-900 border border-slate-700 rounded p-1.5 text-xs focus:border-blue-500 outline-none"
+              >
+                {!speaker.voice && <option value="">Assigned when added to queue</option>}
+                {voices.map(v => (
+                  <option key={v.name} value={v.name}>{v.label}{v.name === narratorVoice ? ' (narrator)' : ''}</option>
+                ))}
+              </select>
+              {supportsStyle && (
+                <input
+                  type="text"
+                  value={speaker.styleInstruction}
+                  onChange={(e) => onChange(speaker.name, { styleInstruction: e.target.value })}
+                  placeholder="Style (optional)"
+                  className="flex-1 min-w-0 bg-slate-900 border border-slate-700 rounded p-1.5 text-xs focus:border-blue-500 outline-none placeholder-slate-600"
+                />
+              )}
+              <span className="text-[10px] font-mono text-slate-500 w-8 text-right" title="Segments in the queue">
+                {segmentCounts[speaker.name] || 0}
+              </span>
+            </div>
+          ))}
+          <p className="text-[10px] text-slate-600">Changing a voice or style requeues only that speaker's finished segments.</p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SpeakerPanel;
@@ -0,0 +1,127 @@
+import React, { useRef, useState } from 'react';
+import { SegmentTake } from '../types';
+import { formatDuration } from '../services/audioUtils';
+import { ArrowLeftRight, Check, Database, Trash2 } from 'lucide-react';
+
+interface TakeListProps {
+  takes: SegmentTake[];
+  chosenTakeId?: string;
+  onChoose: (takeId: string) => void;
+  onDelete: (takeId: string) => void;
+}
+
+const describeTake = (take: SegmentTake): string => {
+  if (!take.voice) return 'Earlier audio';
+  return [take.voice, take.speakingRate, take.styleInstruction ? `"${take.styleInstruction}"` : undefined]
+    .filter(Boolean)
+    .join(' · ');
+};
+
+const TakeList: React.FC<TakeListProps> = ({ takes, chosenTakeId, onChoose, onDelete }) => {
+  // Two takes marked A and B; switching keeps the playback position
+  const [marked, setMarked] = useState<string[]>([]);
+  const pair = marked.filter(id => takes.some(t => t.id === id));
+  const audioRefs = useRef<Record<string, HTMLAudioElement | null>>({});
+
+  const togglePair = (takeId: string) => {
+    setMarked(pair.includes(takeId)
+      ? pair.filter(id => id !== takeId)
+      : [...pair, takeId].slice(-2));
+  };
+
+  const switchAB = () => {
+    const [a, b] = pair.map(id => audioRefs.current[id]);
+    if (!a || !b) return;
+    const [from, to] = !a.paused ? [a, b] : !b.paused ? [b, a] : [null, a];
+    if (from) {
+      to.currentTime = Math.min(from.currentTime, to.duration || from.currentTime);
+      from.pause();
+    }
+    to.play();
+  };
+
+  const pairLabel = (takeId: string) => {
+    const position = pair.indexOf(takeId);
+    return position === 0 ? 'A' : position === 1 ? 'B' : null;
+  };
+
+  return (
+    <div className="mt-2 space-y-2">
+      {takes.map((take, index) => {
+        const isChosen = take.id === chosenTakeId;
+        const label = pairLabel(take.id);
+        return (
+          <div
+            key={take.id}
+            className={`flex items-center gap-2 p-2 rounded-md border ${isChosen ? 'border-green-500/40 bg-green-900/10' : 'border-slate-700/50 bg-slate-900/30'}`}
+          >
+            <button
+              type="button"
+              onClick={() => togglePair(take.id)}
+              className={`w-6 h-6 shrink-0 rounded text-[10px] font-bold border transition-colors cursor-pointer ${label ? 'border-amber-500 text-amber-300 bg-amber-900/30' : 'border-slate-700 text-slate-500 hover:text-slate-300'}`}
+              title={label ? `Compared as ${label}; click to remove` : 'Compare this take'}
+            >
+              {label ?? index + 1}
+            </button>
+            <div className="w-40 shrink-0 min-w-0 text-[10px] leading-tight">
+              <div className="text-slate-300 truncate" title={describeTake(take)}>
+                Take {index + 1} · {describeTake(take)}
+              </div>
+              <div className="font-mono text-slate-500 flex items-center gap-1">
+                {take.createdAt > 0 && new Date(take.createdAt).toLocaleTimeString()}
+                {take.duration !== undefined && <span>· {formatDuration(take.duration)}</span>}
+                {take.cached && <Database size={10} className="text-blue-400" aria-label="From the audio cache" />}
+              </div>
+            </div>
+            <audio
+              ref={el => { audioRefs.current[take.id] = el; }}
+              controls
+              className="flex-1 min-w-0 h-6 opacity-80"
+              src={take.audioUrl}
+            />
+            {isChosen ? (
+              <span className="flex items-center gap-1 text-[10px] text-green-400 shrink-0 w-14">
+                <Check size={12} /> In use
+              </span>
+            ) : (
+              <button
+                type="button"
+                onClick={() => onChoose(take.id)}
+                className="text-[10px] px-2 py-0.5 rounded bg-slate-800 border border-slate-700 text-slate-300 hover:bg-slate-700 hover:text-white transition-colors cursor-pointer shrink-0 w-14"
+                title="Use this take in playback and export"
+              >
+                Use
+              </button>
+            )}
+            <button
+              type="button"
+              onClick={() => onDelete(take.id)}
+              disabled={isChosen}
+              className="p-1 rounded text-slate-500 hover:text-red-400 hover:bg-red-500/20 transition-colors cursor-pointer disabled:opacity-20 disabled:cursor-not-allowed shrink-0"
+              title={isChosen ? 'Choose another take before deleting this one' : 'Delete this take'}
+            >
+              <Trash2 size={12} />
+            </button>
+          </div>
+        );
+      })}
+
+      <div className="flex items-center gap-2 text-[10px] text-slate-500">
+        {pair.length === 2 ? (
+          <button
+            type="button"
+            onClick={switchAB}
+            className="flex items-center gap-1 px-2 py-0.5 rounded bg-amber-900/30 border border-amber-700/50 text-amber-300 hover:bg-amber-900/50 transition-colors cursor-pointer"
+            title="Play the other take from the same position"
+          >
+            <ArrowLeftRight size={12} /> Switch A/B
+          </button>
+        ) : (
+          <span>Mark two takes with their number to compare them A/B.</span>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default TakeList;
@@ -0,0 +1,62 @@
+import React from 'react';
+import { SPEAKING_RATES, VoiceConfig, VoiceOverrides } from '../types';
+
+interface VoiceOverrideFieldsProps {
+  overrides: VoiceOverrides;
+  onChange: (overrides: VoiceOverrides) => void;
+  voices: VoiceConfig[];
+  supportsStyle: boolean;
+  supportsPace: boolean;
+  // What the segment falls back to without an override, shown as the "default" option
+  defaults?: { voice: string; speakingRate: string };
+}
+
+const fieldClass = "bg-slate-900 border border-slate-700 rounded p-1.5 text-xs focus:border-blue-500 outline-none placeholder-slate-600";
+
+/**
+ * Voice / pace / style inputs shared by the segment card and the bulk editor.
+ * Empty values mean "no override".
+ */
+const VoiceOverrideFields: React.FC<VoiceOverrideFieldsProps> = ({ overrides, onChange, voices, supportsStyle, supportsPace, defaults }) => {
+  const voiceLabel = (name: string) => voices.find(v => v.name === name)?.label ?? name;
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <select
+        value={overrides.voice ?? ''}
+        onChange={(e) => onChange({ ...overrides, voice: e.target.value || undefined })}
+        className={`${fieldClass} min-w-0 flex-1`}
+        title="Voice override"
+      >
+        <option value="">{defaults ? `Default voice (${voiceLabel(defaults.voice)})` : 'Default voice'}</option>
+        {voices.map(v => (
+          <option key={v.name} value={v.name}>{v.label}</option>
+        ))}
+      </select>
+      {supportsPace && (
+        <select
+          value={overrides.speakingRate ?? ''}
+          onChange={(e) => onChange({ ...overrides, speakingRate: e.target.value || undefined })}
+          className={fieldClass}
+          title="Pace override"
+        >
+          <option value="">{defaults ? `Default pace (${defaults.speakingRate})` : 'Default pace'}</option>
+          {SPEAKING_RATES.map(rate => (
+            <option key={rate} value={rate}>{rate}</option>
+          ))}
+        </select>
+      )}
+      {supportsStyle && (
+        <input
+          type="text"
+          value={overrides.styleInstruction ?? ''}
+          onChange={(e) => onChange({ ...overrides, styleInstruction: e.target.value || undefined })}
+          placeholder="Style override, e.g. Speak sadly and slowly"
+          className={`${fieldClass} w-full`}
+        />
+      )}
+    </div>
+  );
+};
+
+export default VoiceOverrideFields;
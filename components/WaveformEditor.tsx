@@ -0,0 +1,215 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { AudioEdit } from '../types';
+import { fetchPcm, pcmToWavUrl } from '../services/audioUtils';
+import { int16ToFloat, floatToInt16 } from '../services/loudness';
+import { applyAudioEdit, computePeaks, getEditedDuration, normalizeEdit } from '../services/audioEdit';
+import { Play, Square, Scissors, RotateCcw, X, Loader2 } from 'lucide-react';
+
+interface WaveformEditorProps {
+  audioUrl: string;
+  edit?: AudioEdit;
+  onChange: (edit: AudioEdit | undefined) => void;
+}
+
+const HEIGHT = 72;
+
+interface Selection {
+  start: number;
+  end: number;
+}
+
+const formatTime = (seconds: number) => `${seconds.toFixed(2)}s`;
+
+/**
+ * Waveform of a clip with in/out points and inner cuts. Drag to select a
+ * region, click to place the cursor. The original audio is never changed.
+ */
+const WaveformEditor: React.FC<WaveformEditorProps> = ({ audioUrl, edit, onChange }) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const previewRef = useRef<{ audio: HTMLAudioElement; url: string } | null>(null);
+  const [pcm, setPcm] = useState<{ samples: Float32Array; sampleRate: number } | null>(null);
+  const [width, setWidth] = useState(600);
+  const [selection, setSelection] = useState<Selection | null>(null);
+  const [cursor, setCursor] = useState(0);
+  const [dragFrom, setDragFrom] = useState<number | null>(null);
+  const [isPreviewing, setIsPreviewing] = useState(false);
+
+  const duration = pcm ? pcm.samples.length / pcm.sampleRate : 0;
+  const current: AudioEdit = edit ?? { inSeconds: 0, cuts: [] };
+  const outSeconds = current.outSeconds ?? duration;
+
+  useEffect(() => {
+    let cancelled = false;
+    fetchPcm(audioUrl)
+      .then(({ samples, sampleRate }) => { if (!cancelled) setPcm({ samples: int16ToFloat(samples), sampleRate }); })
+      .catch(e => console.warn("Could not load audio for the waveform", e));
+    return () => { cancelled = true; };
+  }, [audioUrl]);
+
+  useEffect(() => {
+    if (containerRef.current) setWidth(Math.max(200, Math.floor(containerRef.current.clientWidth)));
+  }, [pcm]);
+
+  useEffect(() => () => stopPreview(), []);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const context = canvas?.getContext('2d');
+    if (!canvas || !context || !pcm) return;
+
+    const toX = (seconds: number) => (seconds / duration) * width;
+    context.clearRect(0, 0, width, HEIGHT);
+
+    const peaks = computePeaks(pcm.samples, width);
+    const mid = HEIGHT / 2;
+    context.fillStyle = '#60a5fa';
+    peaks.forEach(({ min, max }, x) => {
+      const top = mid - max * mid;
+      context.fillRect(x, top, 1, Math.max(1, (max - min) * mid));
+    });
+
+    // Removed audio: outside in/out and inside cuts
+    context.fillStyle = 'rgba(2, 6, 23, 0.75)';
+    context.fillRect(0, 0, toX(current.inSeconds), HEIGHT);
+    context.fillRect(toX(outSeconds), 0, width - toX(outSeconds), HEIGHT);
+    context.fillStyle = 'rgba(239, 68, 68, 0.35)';
+    current.cuts.forEach(cut => context.fillRect(toX(cut.startSeconds), 0, toX(cut.endSeconds) - toX(cut.startSeconds), HEIGHT));
+
+    if (selection) {
+      context.fillStyle = 'rgba(251, 191, 36, 0.25)';
+      context.fillRect(toX(selection.start), 0, toX(selection.end) - toX(selection.start), HEIGHT);
+    }
+
+    context.fillStyle = '#f8fafc';
+    context.fillRect(Math.round(toX(cursor)), 0, 1, HEIGHT);
+  }, [pcm, width, edit, selection, cursor]);
+
+  const timeAt = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return Math.max(0, Math.min(duration, ((e.clientX - rect.left) / rect.width) * duration));
+  };
+
+  const handleMouseDown = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    setDragFrom(timeAt(e));
+    setSelection(null);
+  };
+
+  const handleMouseMove = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    if (dragFrom === null) return;
+    const time = timeAt(e);
+    setSelection({ start: Math.min(dragFrom, time), end: Math.max(dragFrom, time) });
+  };
+
+  const handleMouseUp = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    if (dragFrom === null) return;
+    const time = timeAt(e);
+    // A click without a drag places the cursor
+    if (Math.abs(time - dragFrom) < duration / width * 3) {
+      setSelection(null);
+      setCursor(time);
+    }
+    setDragFrom(null);
+  };
+
+  const apply = (next: AudioEdit) => {
+    onChange(normalizeEdit(next, duration));
+    setSelection(null);
+  };
+
+  const setIn = () => apply({ ...current, inSeconds: selection ? selection.start : cursor });
+  const setOut = () => apply({ ...current, outSeconds: selection ? selection.end : cursor });
+  const trimToSelection = () => selection && apply({ ...current, inSeconds: selection.start, outSeconds: selection.end });
+  const cutSelection = () => selection && apply({ ...current, cuts: [...current.cuts, { startSeconds: selection.start, endSeconds: selection.end }] });
+  const removeCut = (index: number) => apply({ ...current, cuts: current.cuts.filter((_, i) => i !== index) });
+
+  function stopPreview() {
+    if (!previewRef.current) return;
+    previewRef.current.audio.pause();
+    URL.revokeObjectURL(previewRef.current.url);
+    previewRef.current = null;
+    setIsPreviewing(false);
+  }
+
+  const playEdited = () => {
+    if (!pcm) return;
+    if (isPreviewing) {
+      stopPreview();
+      return;
+    }
+    const samples = edit ? applyAudioEdit(pcm.samples, pcm.sampleRate, edit) : pcm.samples;
+    const url = pcmToWavUrl({ samples: floatToInt16(samples), sampleRate: pcm.sampleRate });
+    const audio = new Audio(url);
+    audio.onended = stopPreview;
+    previewRef.current = { audio, url };
+    setIsPreviewing(true);
+    audio.play();
+  };
+
+  const buttonClass = "flex items-center gap-1 px-2 py-1 text-[10px] rounded bg-slate-800 border border-slate-700 text-slate-300 hover:bg-slate-700 hover:text-white transition-colors cursor-pointer disabled:opacity-40 disabled:cursor-not-allowed";
+
+  return (
+    <div ref={containerRef} className="space-y-2">
+      {pcm ? (
+        <canvas
+          ref={canvasRef}
+          width={width}
+          height={HEIGHT}
+          onMouseDown={handleMouseDown}
+          onMouseMove={handleMouseMove}
+          onMouseUp={handleMouseUp}
+          onMouseLeave={() => setDragFrom(null)}
+          className="w-full rounded bg-slate-950 border border-slate-800 cursor-crosshair"
+          style={{ height: HEIGHT }}
+        />
+      ) : (
+        <div className="flex items-center justify-center gap-2 text-xs text-slate-500 bg-slate-950 border border-slate-800 rounded" style={{ height: HEIGHT }}>
+          <Loader2 size={14} className="animate-spin" /> Loading waveform…
+        </div>
+      )}
+
+      <div className="flex flex-wrap items-center gap-2">
+        <button type="button" onClick={playEdited} disabled={!pcm} className={buttonClass} title="Play the clip as edited">
+          {isPreviewing ? <Square size={10} /> : <Play size={10} />} {isPreviewing ? 'Stop' : 'Play edited'}
+        </button>
+        <button type="button" onClick={setIn} disabled={!pcm} className={buttonClass} title="Start the clip at the selection or cursor">
+          Set in
+        </button>
+        <button type="button" onClick={setOut} disabled={!pcm} className={buttonClass} title="End the clip at the selection or cursor">
+          Set out
+        </button>
+        <button type="button" onClick={trimToSelection} disabled={!selection} className={buttonClass} title="Keep only the selection">
+          Trim to selection
+        </button>
+        <button type="button" onClick={cutSelection} disabled={!selection} className={buttonClass} title="Remove the selection from the clip">
+          <Scissors size={10} /> Cut
+        </button>
+        <button type="button" onClick={() => onChange(undefined)} disabled={!edit} className={buttonClass} title="Back to the original audio">
+          <RotateCcw size={10} /> Reset
+        </button>
+        <span className="text-[10px] font-mono text-slate-500 ml-auto">
+          {selection
+            ? `Selected ${formatTime(selection.start)}–${formatTime(selection.end)}`
+            : `Cursor ${formatTime(cursor)}`}
+          {pcm && ` · ${formatTime(getEditedDuration(duration, edit))} of ${formatTime(duration)}`}
+        </span>
+      </div>
+
+      {edit && (
+        <div className="flex flex-wrap items-center gap-2 text-[10px] font-mono text-slate-500">
+          <span>In {formatTime(current.inSeconds)} · Out {formatTime(outSeconds)}</span>
+          {current.cuts.map((cut, i) => (
+            <span key={i} className="flex items-center gap-1 px-1.5 py-0.5 rounded border border-red-900/60 bg-red-900/20 text-red-300">
+              Cut {formatTime(cut.startSeconds)}–{formatTime(cut.endSeconds)}
+              <button type="button" onClick={() => removeCut(i)} className="hover:text-white cursor-pointer" title="Restore this part">
+                <X size={10} />
+              </button>
+            </span>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default WaveformEditor;
@@ -0,0 +1,194 @@
+import { AudioCacheSettings } from "../types";
+import { CACHE_AUDIO_STORE, CACHE_INDEX_STORE, isStorageAvailable, openDb, promisify, transactionDone } from "./storageService";
+
+/**
+ * Content-addressed cache of generated audio, kept in IndexedDB. The key is a
+ * hash of everything that decides how a request sounds, so identical requests
+ * from any project reuse the audio instead of calling the API again.
+ */
+
+const CACHE_SETTINGS_KEY = 'audio_cache_settings';
+const CACHE_STATS_KEY = 'audio_cache_stats';
+const COUNTER_SAVE_DELAY_MS = 2000;
+
+export const DEFAULT_AUDIO_CACHE_SETTINGS: AudioCacheSettings = {
+  enabled: true,
+  maxSizeMb: 200,
+};
+
+export interface CacheKeyParts {
+  providerId: string;
+  model: string;
+  text: string; // Spoken text, as sent to the provider
+  voice: string;
+  styleInstruction?: string;
+  speakingRate?: string;
+}
+
+interface CacheIndexEntry {
+  hash: string;
+  size: number;
+  characters: number;
+  lastUsedAt: number;
+}
+
+export interface AudioCacheStats {
+  entries: number;
+  bytes: number;
+  hits: number;
+  misses: number;
+  savedCharacters: number; // Sent to no API thanks to hits
+}
+
+interface CacheCounters {
+  hits: number;
+  misses: number;
+  savedCharacters: number;
+}
+
+export const loadAudioCacheSettings = (): AudioCacheSettings => {
+  try {
+    return { ...DEFAULT_AUDIO_CACHE_SETTINGS, ...JSON.parse(localStorage.getItem(CACHE_SETTINGS_KEY) || '{}') };
+  } catch (e) {
+    return DEFAULT_AUDIO_CACHE_SETTINGS;
+  }
+};
+
+export const saveAudioCacheSettings = (settings: AudioCacheSettings) => {
+  localStorage.setItem(CACHE_SETTINGS_KEY, JSON.stringify(settings));
+};
+
+const loadCounters = (): CacheCounters => {
+  try {
+    return { hits: 0, misses: 0, savedCharacters: 0, ...JSON.parse(localStorage.getItem(CACHE_STATS_KEY) || '{}') };
+  } catch (e) {
+    return { hits: 0, misses: 0, savedCharacters: 0 };
+  }
+};
+
+// Counted in memory during a run and written out once lookups go quiet
+let counters: CacheCounters | undefined;
+let counterSaveTimer: ReturnType<typeof setTimeout> | undefined;
+
+const getCounters = (): CacheCounters => {
+  if (!counters) counters = loadCounters();
+  return counters;
+};
+
+const updateCounters = (update: (counters: CacheCounters) => CacheCounters) => {
+  counters = update(getCounters());
+  clearTimeout(counterSaveTimer);
+  counterSaveTimer = setTimeout(() => {
+    localStorage.setItem(CACHE_STATS_KEY, JSON.stringify(counters));
+  }, COUNTER_SAVE_DELAY_MS);
+};
+
+// Whitespace and Unicode composition differences do not change the audio
+const normalizeForKey = (text: string): string =>
+  text.normalize('NFC').replace(/\s+/g, ' ').trim();
+
+/**
+ * SHA-256 of the request, as hex.
+ */
+const getCacheKey = async (parts: CacheKeyParts): Promise<string> => {
+  const payload = JSON.stringify([
+    parts.providerId,
+    parts.model,
+    normalizeForKey(parts.text),
+    parts.voice,
+    (parts.styleInstruction || '').trim(),
+    parts.speakingRate || '',
+  ]);
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(payload));
+  return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join('');
+};
+
+/**
+ * Cached audio for the request, marking it recently used. Counts a hit or miss.
+ */
+export const getCachedAudio = async (parts: CacheKeyParts): Promise<Blob | undefined> => {
+  if (!isStorageAvailable()) return undefined;
+  const hash = await getCacheKey(parts);
+  const db = await openDb();
+  const tx = db.transaction([CACHE_AUDIO_STORE, CACHE_INDEX_STORE], 'readwrite');
+  const blob = await promisify(tx.objectStore(CACHE_AUDIO_STORE).get(hash)) as Blob | undefined;
+  const indexStore = tx.objectStore(CACHE_INDEX_STORE);
+  const entry = await promisify(indexStore.get(hash)) as CacheIndexEntry | undefined;
+  if (blob && entry) indexStore.put({ ...entry, lastUsedAt: Date.now() });
+  await transactionDone(tx);
+
+  const hit = !!blob && !!entry;
+  updateCounters(c => hit
+    ? { ...c, hits: c.hits + 1, savedCharacters: c.savedCharacters + entry!.characters }
+    : { ...c, misses: c.misses + 1 });
+  return hit ? blob : undefined;
+};
+
+// Deletes least recently used entries until the total fits; `keep` is never evicted
+const evictLeastRecent = async (tx: IDBTransaction, maxBytes: number, keep?: string) => {
+  const indexStore = tx.objectStore(CACHE_INDEX_STORE);
+  const entries = await promisify(indexStore.getAll()) as CacheIndexEntry[];
+  let total = entries.reduce((sum, e) => sum + e.size, 0);
+  for (const entry of entries.sort((a, b) => a.lastUsedAt - b.lastUsedAt)) {
+    if (total <= maxBytes) break;
+    if (entry.hash === keep) continue;
+    tx.objectStore(CACHE_AUDIO_STORE).delete(entry.hash);
+    indexStore.delete(entry.hash);
+    total -= entry.size;
+  }
+};
+
+/**
+ * Stores the audio at `audioUrl` for the request, then evicts the least
+ * recently used entries until the cache fits in `maxSizeMb`.
+ */
+export const putCachedAudio = async (parts: CacheKeyParts, audioUrl: string, maxSizeMb: number): Promise<void> => {
+  if (!isStorageAvailable()) return;
+  const blob = await (await fetch(audioUrl)).blob();
+  const maxBytes = maxSizeMb * 1024 * 1024;
+  if (blob.size > maxBytes) return;
+
+  const hash = await getCacheKey(parts);
+  const characters = normalizeForKey(parts.text).length;
+  const db = await openDb();
+  const tx = db.transaction([CACHE_AUDIO_STORE, CACHE_INDEX_STORE], 'readwrite');
+  tx.objectStore(CACHE_AUDIO_STORE).put(blob, hash);
+  tx.objectStore(CACHE_INDEX_STORE).put({ hash, size: blob.size, characters, lastUsedAt: Date.now() });
+  await evictLeastRecent(tx, maxBytes, hash);
+  await transactionDone(tx);
+};
+
+/**
+ * Evicts past the limit right away, e.g. after it was lowered.
+ */
+export const trimAudioCache = async (maxSizeMb: number): Promise<void> => {
+  if (!isStorageAvailable()) return;
+  const db = await openDb();
+  const tx = db.transaction([CACHE_AUDIO_STORE, CACHE_INDEX_STORE], 'readwrite');
+  await evictLeastRecent(tx, maxSizeMb * 1024 * 1024);
+  await transactionDone(tx);
+};
+
+export const getAudioCacheStats = async (): Promise<AudioCacheStats> => {
+  const counters = getCounters();
+  if (!isStorageAvailable()) return { entries: 0, bytes: 0, ...counters };
+  const db = await openDb();
+  const tx = db.transaction(CACHE_INDEX_STORE, 'readonly');
+  const entries = await promisify(tx.objectStore(CACHE_INDEX_STORE).getAll()) as CacheIndexEntry[];
+  return { entries: entries.length, bytes: entries.reduce((sum, e) => sum + e.size, 0), ...counters };
+};
+
+/**
+ * Empties the cache and resets its counters.
+ */
+export const clearAudioCache = async (): Promise<void> => {
+  clearTimeout(counterSaveTimer);
+  counters = undefined;
+  localStorage.removeItem(CACHE_STATS_KEY);
+  if (!isStorageAvailable()) return;
+  const db = await openDb();
+  const tx = db.transaction([CACHE_AUDIO_STORE, CACHE_INDEX_STORE], 'readwrite');
+  tx.objectStore(CACHE_AUDIO_STORE).clear();
+  tx.objectStore(CACHE_INDEX_STORE).clear();
+  await transactionDone(tx);
+};
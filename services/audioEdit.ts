@@ -0,0 +1,109 @@
+import { AudioEdit, AudioSegment } from "../types";
+import { applyDeclick } from "./silenceTrim";
+
+/**
+ * Non-destructive trim and cuts on a segment's audio. The original clip is
+ * never changed; playback and export apply the edit to a copy.
+ */
+
+// Fade at every edit point so joins do not click
+const EDIT_FADE_SECONDS = 0.005;
+
+// Cuts shorter than this are dropped as accidental clicks
+const MIN_CUT_SECONDS = 0.02;
+
+/**
+ * Ranges of the original audio that the edit keeps, in order.
+ */
+export const getKeptRanges = (duration: number, edit: AudioEdit): { start: number; end: number }[] => {
+  const inPoint = Math.max(0, Math.min(edit.inSeconds, duration));
+  const outPoint = Math.max(inPoint, Math.min(edit.outSeconds ?? duration, duration));
+  const ranges: { start: number; end: number }[] = [];
+  let cursor = inPoint;
+  for (const cut of edit.cuts) {
+    if (cut.endSeconds <= cursor || cut.startSeconds >= outPoint) continue;
+    if (cut.startSeconds > cursor) ranges.push({ start: cursor, end: cut.startSeconds });
+    cursor = Math.max(cursor, cut.endSeconds);
+  }
+  if (outPoint > cursor) ranges.push({ start: cursor, end: outPoint });
+  return ranges;
+};
+
+export const getEditedDuration = (duration: number, edit: AudioEdit | undefined): number =>
+  edit ? getKeptRanges(duration, edit).reduce((sum, r) => sum + r.end - r.start, 0) : duration;
+
+/**
+ * Clamps the edit to the clip, sorts and merges cuts, and returns undefined
+ * when nothing is left to apply.
+ */
+export const normalizeEdit = (edit: AudioEdit, duration: number): AudioEdit | undefined => {
+  const inSeconds = Math.max(0, Math.min(edit.inSeconds, duration));
+  const outSeconds = edit.outSeconds === undefined || edit.outSeconds >= duration
+    ? undefined
+    : Math.max(inSeconds, edit.outSeconds);
+
+  const cuts: AudioEdit['cuts'] = [];
+  for (const cut of [...edit.cuts].sort((a, b) => a.startSeconds - b.startSeconds)) {
+    const startSeconds = Math.max(inSeconds, cut.startSeconds);
+    const endSeconds = Math.min(outSeconds ?? duration, cut.endSeconds);
+    if (endSeconds - startSeconds < MIN_CUT_SECONDS) continue;
+    const last = cuts[cuts.length - 1];
+    if (last && startSeconds <= last.endSeconds) last.endSeconds = Math.max(last.endSeconds, endSeconds);
+    else cuts.push({ startSeconds, endSeconds });
+  }
+
+  if (inSeconds === 0 && outSeconds === undefined && cuts.length === 0) return undefined;
+  return { inSeconds, outSeconds, cuts };
+};
+
+/**
+ * The edited audio as a new buffer, with short fades at every edit point.
+ */
+export const applyAudioEdit = (samples: Float32Array, sampleRate: number, edit: AudioEdit): Float32Array => {
+  const ranges = getKeptRanges(samples.length / sampleRate, edit)
+    .map(r => ({ start: Math.round(r.start * sampleRate), end: Math.round(r.end * sampleRate) }))
+    .filter(r => r.end > r.start);
+  const result = new Float32Array(ranges.reduce((sum, r) => sum + r.end - r.start, 0));
+  const fadeLength = Math.round(EDIT_FADE_SECONDS * sampleRate);
+
+  let offset = 0;
+  ranges.forEach(range => {
+    const piece = samples.slice(range.start, range.end);
+    // Clip edges that were not cut keep their original shape
+    applyDeclick(piece, fadeLength, range.start > 0, range.end < samples.length);
+    result.set(piece, offset);
+    offset += piece.length;
+  });
+  return result;
+};
+
+/**
+ * Sets the segment's edit and keeps the chosen take's copy in step. Silence
+ * is measured again on the edited audio.
+ */
+export const withAudioEdit = (segment: AudioSegment, edit: AudioEdit | undefined): AudioSegment => ({
+  ...segment,
+  edit,
+  silence: undefined,
+  takes: segment.takes?.map(t => t.id === segment.chosenTakeId ? { ...t, edit, silence: undefined } : t),
+});
+
+/**
+ * Min/max pairs for drawing a waveform `buckets` columns wide.
+ */
+export const computePeaks = (samples: Float32Array, buckets: number): { min: number; max: number }[] => {
+  const size = samples.length / buckets;
+  const peaks: { min: number; max: number }[] = [];
+  for (let b = 0; b < buckets; b++) {
+    const start = Math.floor(b * size);
+    const end = Math.min(samples.length, Math.max(start + 1, Math.floor((b + 1) * size)));
+    let min = 0;
+    let max = 0;
+    for (let i = start; i < end; i++) {
+      if (samples[i] < min) min = samples[i];
+      if (samples[i] > max) max = samples[i];
+    }
+    peaks.push({ min, max });
+  }
+  return peaks;
+};
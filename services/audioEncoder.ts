@@ -0,0 +1,136 @@
+import { ExportFormat } from "../types";
+import { PcmAudio, createWavUrl } from "./audioUtils";
+import { ChapterMarker, EXPORT_FORMATS } from "./encoders";
+
+export interface EncodeRequest {
+  type: 'encode';
+  format: Exclude<ExportFormat, 'wav'>;
+  samples: Int16Array;
+  sampleRate: number;
+  bitrateKbps: number;
+  chapters: ChapterMarker[]; // Only M4B embeds them
+}
+
+// Loudness measurement and limiting, sent by a mastering session
+export type MasteringRequest =
+  | { type: 'measure'; samples: Float32Array; sampleRate: number }
+  | { type: 'limit'; samples: Float32Array; sampleRate: number; ceilingDb: number };
+
+export type EncodeResponse =
+  | { type: 'progress'; fraction: number }
+  | { type: 'done'; parts: Uint8Array[] }
+  | { type: 'loudness'; lufs: number | null }
+  | { type: 'limited'; samples: Int16Array }
+  | { type: 'error'; message: string };
+
+const createEncoderWorker = () =>
+  new Worker(new URL('../workers/encoderWorker.ts', import.meta.url), { type: 'module' });
+
+/**
+ * Encodes merged PCM to the chosen format and returns a blob URL.
+ * Compressed formats are encoded in a worker; `onProgress` receives 0..1.
+ * `chapters` become chapter markers where the format supports them.
+ */
+export const encodeAudio = (
+  pcm: PcmAudio,
+  format: ExportFormat,
+  bitrateKbps: number,
+  onProgress: (fraction: number) => void = () => {},
+  chapters: ChapterMarker[] = []
+): Promise<string> => {
+  if (format === 'wav') {
+    onProgress(1);
+    return Promise.resolve(createWavUrl(new Uint8Array(pcm.samples.buffer, pcm.samples.byteOffset, pcm.samples.byteLength), pcm.sampleRate));
+  }
+
+  return new Promise((resolve, reject) => {
+    const worker = createEncoderWorker();
+
+    worker.onmessage = (event: MessageEvent<EncodeResponse>) => {
+      const message = event.data;
+      if (message.type === 'progress') {
+        onProgress(message.fraction);
+        return;
+      }
+      worker.terminate();
+      if (message.type === 'done') {
+        const blob = new Blob(message.parts as BlobPart[], { type: EXPORT_FORMATS[format].mimeType });
+        resolve(URL.createObjectURL(blob));
+      } else {
+        reject(new Error(message.type === 'error' ? message.message : 'Encoding failed'));
+      }
+    };
+    worker.onerror = (event) => {
+      worker.terminate();
+      reject(new Error(event.message || 'Encoder worker failed to start'));
+    };
+
+    // Copy so the caller's buffer stays usable; the copy is transferred, not cloned
+    const samples = pcm.samples.slice();
+    const request: EncodeRequest = { type: 'encode', format, samples, sampleRate: pcm.sampleRate, bitrateKbps, chapters };
+    worker.postMessage(request, [samples.buffer]);
+  });
+};
+
+export interface MasteringSession {
+  measureLoudness: (samples: Float32Array, sampleRate: number) => Promise<number | null>;
+  // Takes over `samples`, which must not be used afterwards
+  limit: (samples: Float32Array, sampleRate: number, ceilingDb: number) => Promise<Int16Array>;
+  close: () => void;
+}
+
+/**
+ * Runs export mastering in the encoder worker so long mixes do not block the
+ * page. Requests are answered one at a time, in order; call `close` when done.
+ */
+export const createMasteringSession = (): MasteringSession => {
+  const worker = createEncoderWorker();
+  let queue: Promise<unknown> = Promise.resolve();
+
+  const send = <T>(request: MasteringRequest, transfer: Transferable[], read: (message: EncodeResponse) => T | undefined): Promise<T> => {
+    const result = queue.catch(() => {}).then(() => new Promise<T>((resolve, reject) => {
+      worker.onmessage = (event: MessageEvent<EncodeResponse>) => {
+        const message = event.data;
+        if (message.type === 'progress') return;
+        if (message.type === 'error') {
+          reject(new Error(message.message));
+          return;
+        }
+        const value = read(message);
+        if (value === undefined) reject(new Error(`Unexpected ${message.type} message from the encoder worker`));
+        else resolve(value);
+      };
+      worker.onerror = (event) => reject(new Error(event.message || 'Encoder worker failed to start'));
+      worker.postMessage(request, transfer);
+    }));
+    queue = result;
+    return result;
+  };
+
+  return {
+    measureLoudness: (samples, sampleRate) => {
+      // The caller keeps its samples; the worker gets a copy
+      const copy = samples.slice();
+      return send({ type: 'measure', samples: copy, sampleRate }, [copy.buffer],
+        message => message.type === 'loudness' ? message.lufs : undefined);
+    },
+    limit: (samples, sampleRate, ceilingDb) =>
+      send({ type: 'limit', samples, sampleRate, ceilingDb }, [samples.buffer],
+        message => message.type === 'limited' ? message.samples : undefined),
+    close: () => worker.terminate(),
+  };
+};
+
+/**
+ * Removes a trailing audio extension the user may have typed.
+ */
+export const stripAudioExtension = (fileName: string): string => {
+  const knownExtensions = Object.values(EXPORT_FORMATS).map(f => f.extension.slice(1)).join('|');
+  return fileName.replace(new RegExp(`\\.(${knownExtensions}|ogg)$`, 'i'), '');
+};
+
+/**
+ * Replaces any audio extension the user typed with the one for `format`.
+ */
+export const withFormatExtension = (fileName: string, format: ExportFormat): string =>
+  `${stripAudioExtension(fileName)}${EXPORT_FORMATS[format].extension}`;
@@ -0,0 +1,96 @@
+/**
+ * Helper to add a WAV header to raw PCM data so it plays in standard players
+ * 24000Hz is the sample rate used in the Gemini guidelines examples
+ */
+export const createWavUrl = (samples: Uint8Array, sampleRate: number): string => {
+  const buffer = new ArrayBuffer(44 + samples.length);
+  const view = new DataView(buffer);
+
+  const writeString = (view: DataView, offset: number, string: string) => {
+    for (let i = 0; i < string.length; i++) {
+      view.setUint8(offset + i, string.charCodeAt(i));
+    }
+  };
+
+  // RIFF identifier
+  writeString(view, 0, 'RIFF');
+  // file length
+  view.setUint32(4, 36 + samples.length, true);
+  // RIFF type
+  writeString(view, 8, 'WAVE');
+  // format chunk identifier
+  writeString(view, 12, 'fmt ');
+  // format chunk length
+  view.setUint32(16, 16, true);
+  // sample format (raw)
+  view.setUint16(20, 1, true);
+  // channel count (1)
+  view.setUint16(22, 1, true);
+  // sample rate
+  view.setUint32(24, sampleRate, true);
+  // byte rate (sampleRate * blockAlign)
+  view.setUint32(28, sampleRate * 2, true);
+  // block align (channel count * bytes per sample)
+  view.setUint16(32, 2, true);
+  // bits per sample
+  view.setUint16(34, 16, true);
+  // data chunk identifier
+  writeString(view, 36, 'data');
+  // data chunk length
+  view.setUint32(40, samples.length, true);
+
+  // Write the PCM samples
+  const pcmData = new Uint8Array(buffer, 44);
+  pcmData.set(samples);
+
+  const blob = new Blob([buffer], { type: 'audio/wav' });
+  return URL.createObjectURL(blob);
+};
+
+export interface PcmAudio {
+  samples: Int16Array;
+  sampleRate: number;
+}
+
+/**
+ * Reads 16-bit mono PCM out of a WAV file, walking the RIFF chunks rather than
+ * assuming a fixed 44-byte header.
+ */
+export const decodeWav = (buffer: ArrayBuffer): PcmAudio => {
+  const view = new DataView(buffer);
+  let sampleRate = 24000;
+  let offset = 12;
+
+  while (offset + 8 <= buffer.byteLength) {
+    const id = String.fromCharCode(view.getUint8(offset), view.getUint8(offset + 1), view.getUint8(offset + 2), view.getUint8(offset + 3));
+    const size = view.getUint32(offset + 4, true);
+
+    if (id === 'fmt ') {
+      sampleRate = view.getUint32(offset + 12, true);
+    } else if (id === 'data') {
+      const length = Math.min(size, buffer.byteLength - offset - 8) & ~1;
+      // Copy so the samples are aligned and independent of the source buffer
+      const samples = new Int16Array(buffer.slice(offset + 8, offset + 8 + length));
+      return { samples, sampleRate };
+    }
+    offset += 8 + size + (size % 2);
+  }
+
+  return { samples: new Int16Array(0), sampleRate };
+};
+
+export const fetchPcm = async (url: string): Promise<PcmAudio> =>
+  decodeWav(await (await fetch(url)).arrayBuffer());
+
+export const pcmToWavUrl = ({ samples, sampleRate }: PcmAudio): string =>
+  createWavUrl(new Uint8Array(samples.buffer, samples.byteOffset, samples.byteLength), sampleRate);
+
+export const formatDuration = (seconds: number): string => {
+  const total = Math.round(seconds);
+  const h = Math.floor(total / 3600);
+  const m = Math.floor((total % 3600) / 60);
+  const s = total % 60;
+  return h > 0
+    ? `${h}:${String(m).padStart(2, '0')}:${String(s).padStart(2, '0')}`
+    : `${m}:${String(s).padStart(2, '0')}`;
+};
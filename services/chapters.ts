@@ -0,0 +1,115 @@
+import { AudioSegment, ExportSettings, SegmentStatus } from "../types";
+import { ChapterMarker } from "./encoders";
+import { TimelineEntry, buildTimeline, getTimelineDuration } from "./exportService";
+
+/**
+ * Chapters: a segment with a `chapterTitle` starts one, which runs until the
+ * next. Segments before the first marker form an opening chapter. A project
+ * without markers has no chapters.
+ */
+
+export interface Chapter {
+  id: string; // Id of the first segment
+  title: string;
+  marked: boolean; // False for the opening run before the first marker
+  startIndex: number; // Position of the first segment in the project
+  segments: AudioSegment[];
+}
+
+export interface ChapterProgress {
+  total: number;
+  completed: number;
+  failed: number;
+  durationSeconds: number; // Of the completed audio, with pauses, as exported alone
+}
+
+const OPENING_TITLE = 'Opening';
+
+export const getChapters = (segments: AudioSegment[]): Chapter[] => {
+  if (!segments.some(s => s.chapterTitle !== undefined)) return [];
+
+  const chapters: Chapter[] = [];
+  segments.forEach((segment, index) => {
+    const marked = segment.chapterTitle !== undefined;
+    if (marked || chapters.length === 0) {
+      chapters.push({
+        id: segment.id,
+        title: marked ? segment.chapterTitle!.trim() || `Chapter ${chapters.length + 1}` : OPENING_TITLE,
+        marked,
+        startIndex: index,
+        segments: [],
+      });
+    }
+    chapters[chapters.length - 1].segments.push(segment);
+  });
+  return chapters;
+};
+
+export const setChapterTitle = (segments: AudioSegment[], id: string, title: string | undefined): AudioSegment[] =>
+  segments.map(s => s.id === id ? { ...s, chapterTitle: title } : s);
+
+/**
+ * Title for a new marker on `id`: the heading text when the segment is one,
+ * else its chapter number.
+ */
+export const suggestChapterTitle = (segments: AudioSegment[], id: string): string => {
+  const segment = segments.find(s => s.id === id);
+  if (segment?.heading) return segment.text;
+  const position = getChapters(setChapterTitle(segments, id, '')).findIndex(c => c.id === id);
+  return `Chapter ${position + 1}`;
+};
+
+/**
+ * Starts a chapter at every run of heading segments, titled with the run's
+ * text. Segments that already start a chapter keep their title.
+ */
+export const markHeadingChapters = (segments: AudioSegment[]): AudioSegment[] =>
+  segments.map((segment, index) => {
+    if (!segment.heading || segments[index - 1]?.heading || segment.chapterTitle !== undefined) return segment;
+    let title = segment.text;
+    for (let next = index + 1; segments[next]?.heading; next++) title += ` ${segments[next].text}`;
+    return { ...segment, chapterTitle: title };
+  });
+
+export const getChapterProgress = (chapter: Chapter, settings: ExportSettings): ChapterProgress => ({
+  total: chapter.segments.length,
+  completed: chapter.segments.filter(s => s.status === SegmentStatus.COMPLETED).length,
+  failed: chapter.segments.filter(s => s.status === SegmentStatus.ERROR).length,
+  durationSeconds: getTimelineDuration(buildTimeline(chapter.segments, settings)),
+});
+
+/**
+ * Chapter start times on a merged timeline. Chapters with no exported audio
+ * are left out, and the first marker moves to zero so an intro belongs to it.
+ */
+export const getChapterMarkers = (chapters: Chapter[], timeline: TimelineEntry[]): ChapterMarker[] => {
+  const starts = new Map(timeline.map(entry => [entry.segmentId, entry.startSeconds]));
+  const markers: ChapterMarker[] = [];
+  for (const chapter of chapters) {
+    const start = chapter.segments.map(s => starts.get(s.id)).find(t => t !== undefined);
+    if (start === undefined) continue;
+    markers.push({ title: chapter.title, startSeconds: markers.length === 0 ? 0 : start });
+  }
+  return markers;
+};
+
+/**
+ * File name (without extension) for a chapter. In the template, `{n}` is the
+ * chapter number padded to the chapter count, `{title}` its title and
+ * `{project}` the export name. Characters file systems reject are replaced.
+ */
+export const formatChapterFileName = (
+  template: string,
+  chapter: { number: number; count: number; title: string },
+  project: string
+): string => {
+  const number = String(chapter.number).padStart(Math.max(2, String(chapter.count).length), '0');
+  const name = template
+    .replace(/\{n\}/g, number)
+    .replace(/\{title\}/g, chapter.title)
+    .replace(/\{project\}/g, project)
+    .replace(/[\\/:*?"<>|\u0000-\u001f]/g, '_')
+    .replace(/\s+/g, ' ')
+    .trim();
+  return name || number;
+};
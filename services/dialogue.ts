@@ -0,0 +1,117 @@
+import { ProjectState, SpeakerVoice, VoiceConfig } from "../types";
+import { segmentText, SegmenterOptions, TextChunk } from "./segmenter";
+
+/**
+ * Dialogue mode: lines tagged `রহিম: ...` belong to that speaker. An untagged
+ * line continues the current speaker; after a blank line it is narration.
+ */
+
+export interface DialogueTurn {
+  speaker?: string; // Undefined for narration
+  text: string;
+}
+
+export interface DialogueChunk extends TextChunk {
+  speaker?: string;
+}
+
+// A short name (up to three words, starting with a letter) followed by a colon
+const SPEAKER_TAG = /^\s*([\p{L}\p{M}][\p{L}\p{M}\p{N}.'’ -]{0,39}?)\s*[:：]\s*(.*)$/u;
+const MAX_NAME_WORDS = 3;
+
+const matchSpeakerTag = (line: string): { speaker: string; text: string } | null => {
+  const match = line.match(SPEAKER_TAG);
+  if (!match) return null;
+  const speaker = match[1].trim();
+  if (speaker.split(/\s+/).length > MAX_NAME_WORDS) return null;
+  return { speaker, text: match[2].trim() };
+};
+
+/**
+ * Splits tagged text into speaker turns, in order.
+ */
+export const parseDialogue = (text: string): DialogueTurn[] => {
+  const turns: DialogueTurn[] = [];
+  let current: DialogueTurn | null = null;
+
+  const flush = () => {
+    if (current && current.text.trim()) turns.push({ ...current, text: current.text.trim() });
+    current = null;
+  };
+
+  for (const line of text.replace(/\r\n?/g, '\n').split('\n')) {
+    if (!line.trim()) {
+      flush();
+      continue;
+    }
+    const tagged = matchSpeakerTag(line);
+    if (tagged) {
+      flush();
+      current = { speaker: tagged.speaker, text: tagged.text };
+    } else if (current) {
+      current.text += ' ' + line.trim();
+    } else {
+      current = { text: line.trim() };
+    }
+  }
+  flush();
+
+  return turns;
+};
+
+/**
+ * Speakers named in the text, in order of first appearance.
+ */
+export const detectSpeakers = (text: string): string[] => {
+  const seen = new Set<string>();
+  for (const turn of parseDialogue(text)) {
+    if (turn.speaker) seen.add(turn.speaker);
+  }
+  return Array.from(seen);
+};
+
+/**
+ * Chunks each turn separately so a segment never mixes speakers. The last
+ * chunk of every turn ends on a paragraph boundary.
+ */
+export const segmentDialogue = (text: string, options: SegmenterOptions = {}): DialogueChunk[] =>
+  parseDialogue(text).flatMap(turn =>
+    segmentText(turn.text, options).map(chunk => ({ ...chunk, speaker: turn.speaker }))
+  );
+
+/**
+ * Adds map entries for speakers not yet in it, giving each a voice that is not
+ * already taken by the narrator or another speaker where possible.
+ */
+export const assignSpeakerVoices = (
+  speakers: SpeakerVoice[],
+  names: string[],
+  voices: VoiceConfig[],
+  narratorVoice: string
+): SpeakerVoice[] => {
+  const result = [...speakers];
+  for (const name of names) {
+    if (result.some(s => s.name === name)) continue;
+    const used = new Set([narratorVoice, ...result.map(s => s.voice)]);
+    const voice = voices.find(v => !used.has(v.name)) ?? voices[result.length % voices.length];
+    result.push({ name, voice: voice.name, styleInstruction: '' });
+  }
+  return result;
+};
+
+/**
+ * Voice and style used for a segment: its speaker's mapping when in dialogue
+ * mode and the voice exists for the provider, otherwise the project's own.
+ */
+export const resolveSpeakerVoice = (
+  project: Pick<ProjectState, 'dialogueMode' | 'speakers' | 'selectedVoice' | 'styleInstruction'>,
+  speaker: string | undefined,
+  voices: VoiceConfig[]
+): { voice: string; styleInstruction: string } => {
+  const mapping = project.dialogueMode && speaker ? project.speakers.find(s => s.name === speaker) : undefined;
+  if (!mapping) return { voice: project.selectedVoice, styleInstruction: project.styleInstruction };
+  return {
+    voice: voices.some(v => v.name === mapping.voice) ? mapping.voice : project.selectedVoice,
+    styleInstruction: mapping.styleInstruction.trim() || project.styleInstruction,
+  };
+};
@@ -0,0 +1,525 @@
+import { Mp3Encoder } from "@breezystack/lamejs";
+import { ExportFormat } from "../types";
+
+/**
+ * Compressed audio encoders for the merged export. These run inside the encoder
+ * worker (see workers/encoderWorker.ts) so long books do not block the UI.
+ */
+
+export interface FormatInfo {
+  label: string;
+  extension: string;
+  mimeType: string;
+  bitrates: number[]; // kbps; empty for lossless
+  defaultBitrate: number;
+}
+
+export const EXPORT_FORMATS: Record<ExportFormat, FormatInfo> = {
+  wav: { label: 'WAV', extension: '.wav', mimeType: 'audio/wav', bitrates: [], defaultBitrate: 0 },
+  // MPEG-2 Layer III at 24 kHz tops out at 160 kbps
+  mp3: { label: 'MP3', extension: '.mp3', mimeType: 'audio/mpeg', bitrates: [32, 48, 64, 96, 128, 160], defaultBitrate: 64 },
+  opus: { label: 'Opus', extension: '.opus', mimeType: 'audio/ogg; codecs=opus', bitrates: [16, 24, 32, 48, 64, 96], defaultBitrate: 32 },
+  // AAC audiobook with chapter markers
+  m4b: { label: 'M4B', extension: '.m4b', mimeType: 'audio/mp4', bitrates: [32, 48, 64, 96, 128], defaultBitrate: 64 },
+};
+
+export type ProgressCallback = (fraction: number) => void;
+
+// --- MP3 ---
+
+const MP3_BLOCK = 1152 * 20;
+
+export const encodeMp3 = (samples: Int16Array, sampleRate: number, bitrateKbps: number, onProgress: ProgressCallback): Uint8Array[] => {
+  const encoder = new Mp3Encoder(1, sampleRate, bitrateKbps);
+  const parts: Uint8Array[] = [];
+
+  for (let offset = 0; offset < samples.length; offset += MP3_BLOCK) {
+    const frame = encoder.encodeBuffer(samples.subarray(offset, offset + MP3_BLOCK));
+    if (frame.length > 0) parts.push(frame);
+    onProgress(Math.min(1, (offset + MP3_BLOCK) / samples.length));
+  }
+
+  const tail = encoder.flush();
+  if (tail.length > 0) parts.push(tail);
+  return parts;
+};
+
+// --- Opus in Ogg ---
+
+const OPUS_RATES = [48000, 24000, 16000, 12000, 8000];
+const OPUS_GRANULE_RATE = 48000;
+const DEFAULT_PRE_SKIP = 312;
+const ENCODER_FEED_SECONDS = 1;
+
+const OGG_CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let i = 0; i < 256; i++) {
+    let r = i << 24;
+    for (let k = 0; k < 8; k++) {
+      r = r & 0x80000000 ? (r << 1) ^ 0x04c11db7 : r << 1;
+    }
+    table[i] = r >>> 0;
+  }
+  return table;
+})();
+
+const oggCrc = (data: Uint8Array): number => {
+  let crc = 0;
+  for (let i = 0; i < data.length; i++) {
+    crc = ((crc << 8) ^ OGG_CRC_TABLE[((crc >>> 24) ^ data[i]) & 0xFF]) >>> 0;
+  }
+  return crc;
+};
+
+/**
+ * Number of 48 kHz samples in an Opus packet, read from its TOC byte (RFC 6716 §3.1).
+ */
+const opusPacketSamples = (packet: Uint8Array): number => {
+  if (packet.length === 0) return 0;
+  const toc = packet[0];
+  const config = toc >> 3;
+  let frameMs: number;
+  if (config < 12) frameMs = [10, 20, 40, 60][config % 4];
+  else if (config < 16) frameMs = [10, 20][config % 2];
+  else frameMs = [2.5, 5, 10, 20][config % 4];
+
+  const code = toc & 3;
+  const frames = code === 0 ? 1 : code === 3 ? (packet[1] ?? 0) & 0x3F : 2;
+  return frames * frameMs * 48;
+};
+
+const buildOggPage = (packets: Uint8Array[], granule: number, headerType: number, serial: number, sequence: number): Uint8Array => {
+  const lacing: number[] = [];
+  for (const packet of packets) {
+    let remaining = packet.length;
+    while (remaining >= 255) {
+      lacing.push(255);
+      remaining -= 255;
+    }
+    lacing.push(remaining);
+  }
+
+  const bodyLength = packets.reduce((sum, p) => sum + p.length, 0);
+  const page = new Uint8Array(27 + lacing.length + bodyLength);
+  const view = new DataView(page.buffer);
+
+  page.set([0x4F, 0x67, 0x67, 0x53], 0); // "OggS"
+  page[4] = 0;
+  page[5] = headerType;
+  view.setUint32(6, granule % 0x100000000, true);
+  view.setUint32(10, Math.floor(granule / 0x100000000), true);
+  view.setUint32(14, serial, true);
+  view.setUint32(18, sequence, true);
+  page[26] = lacing.length;
+  page.set(lacing, 27);
+
+  let offset = 27 + lacing.length;
+  for (const packet of packets) {
+    page.set(packet, offset);
+    offset += packet.length;
+  }
+
+  view.setUint32(22, oggCrc(page), true);
+  return page;
+};
+
+const buildOpusHead = (inputSampleRate: number, preSkip: number): Uint8Array => {
+  const head = new Uint8Array(19);
+  const view = new DataView(head.buffer);
+  head.set(new TextEncoder().encode('OpusHead'), 0);
+  head[8] = 1; // version
+  head[9] = 1; // channels
+  view.setUint16(10, preSkip, true);
+  view.setUint32(12, inputSampleRate, true);
+  view.setInt16(16, 0, true); // output gain
+  head[18] = 0; // mapping family
+  return head;
+};
+
+const buildOpusTags = (): Uint8Array => {
+  const vendor = new TextEncoder().encode('Bangla Voice Tools');
+  const tags = new Uint8Array(8 + 4 + vendor.length + 4);
+  const view = new DataView(tags.buffer);
+  tags.set(new TextEncoder().encode('OpusTags'), 0);
+  view.setUint32(8, vendor.length, true);
+  tags.set(vendor, 12);
+  view.setUint32(12 + vendor.length, 0, true);
+  return tags;
+};
+
+/**
+ * Wraps raw Opus packets in an Ogg stream (RFC 7845).
+ */
+export const muxOggOpus = (packets: Uint8Array[], inputSampleRate: number, inputLength: number, preSkip: number): Uint8Array[] => {
+  const serial = (Math.random() * 0xFFFFFFFF) >>> 0;
+  const pages: Uint8Array[] = [];
+  let sequence = 0;
+
+  pages.push(buildOggPage([buildOpusHead(inputSampleRate, preSkip)], 0, 0x02, serial, sequence++));
+  pages.push(buildOggPage([buildOpusTags()], 0, 0, serial, sequence++));
+
+  // The final granule trims encoder padding back to the real length
+  const endGranule = preSkip + Math.round((inputLength / inputSampleRate) * OPUS_GRANULE_RATE);
+  let granule = preSkip;
+  let pagePackets: Uint8Array[] = [];
+  let pageSegments = 0;
+  let pageBytes = 0;
+
+  packets.forEach((packet, i) => {
+    const segments = Math.floor(packet.length / 255) + 1;
+    if (pagePackets.length > 0 && (pageSegments + segments > 255 || pageBytes + packet.length > 8192)) {
+      pages.push(buildOggPage(pagePackets, Math.min(granule, endGranule), 0, serial, sequence++));
+      pagePackets = [];
+      pageSegments = 0;
+      pageBytes = 0;
+    }
+    pagePackets.push(packet);
+    pageSegments += segments;
+    pageBytes += packet.length;
+    granule += opusPacketSamples(packet);
+
+    if (i === packets.length - 1) {
+      pages.push(buildOggPage(pagePackets, Math.min(granule, endGranule), 0x04, serial, sequence++));
+    }
+  });
+
+  if (packets.length === 0) {
+    pages.push(buildOggPage([], preSkip, 0x04, serial, sequence++));
+  }
+
+  return pages;
+};
+
+const resampleToFloat = (samples: Int16Array, fromRate: number, toRate: number): Float32Array => {
+  if (fromRate === toRate) {
+    const out = new Float32Array(samples.length);
+    for (let i = 0; i < samples.length; i++) out[i] = samples[i] / 32768;
+    return out;
+  }
+  const ratio = fromRate / toRate;
+  const out = new Float32Array(Math.floor(samples.length / ratio));
+  for (let i = 0; i < out.length; i++) {
+    const pos = i * ratio;
+    const index = Math.floor(pos);
+    const frac = pos - index;
+    const next = samples[Math.min(index + 1, samples.length - 1)];
+    out[i] = (samples[index] * (1 - frac) + next * frac) / 32768;
+  }
+  return out;
+};
+
+/**
+ * First rate in `rates` the browser's WebCodecs encoder accepts for `codec`,
+ * trying the input rate before the others; 0 when none is supported.
+ */
+const findEncodeRate = async (codec: string, sampleRate: number, rates: number[], bitrateKbps: number): Promise<number> => {
+  for (const rate of rates.includes(sampleRate) ? [sampleRate, ...rates] : rates) {
+    const { supported } = await AudioEncoder.isConfigSupported({ codec, sampleRate: rate, numberOfChannels: 1, bitrate: bitrateKbps * 1000 });
+    if (supported) return rate;
+  }
+  return 0;
+};
+
+/**
+ * Feeds mono float audio through a WebCodecs encoder and collects the packets,
+ * along with the decoder description the encoder reports (e.g. OpusHead, AudioSpecificConfig).
+ */
+const runAudioEncoder = async (
+  codec: string,
+  input: Float32Array,
+  sampleRate: number,
+  bitrateKbps: number,
+  onProgress: ProgressCallback
+): Promise<{ packets: Uint8Array[]; description?: Uint8Array }> => {
+  const packets: Uint8Array[] = [];
+  let description: Uint8Array | undefined;
+  let failure: Error | null = null;
+
+  const encoder = new AudioEncoder({
+    output: (chunk, metadata) => {
+      const data = new Uint8Array(chunk.byteLength);
+      chunk.copyTo(data);
+      packets.push(data);
+
+      const reported = metadata?.decoderConfig?.description;
+      if (reported && reported.byteLength > 0) {
+        description = ArrayBuffer.isView(reported)
+          ? new Uint8Array(reported.buffer, reported.byteOffset, reported.byteLength).slice()
+          : new Uint8Array(reported).slice();
+      }
+    },
+    error: (e) => { failure = e instanceof Error ? e : new Error(String(e)); },
+  });
+  encoder.configure({ codec, sampleRate, numberOfChannels: 1, bitrate: bitrateKbps * 1000 });
+
+  const block = sampleRate * ENCODER_FEED_SECONDS;
+  for (let offset = 0; offset < input.length; offset += block) {
+    if (failure) break;
+    const frames = input.subarray(offset, offset + block);
+    const audioData = new AudioData({
+      format: 'f32',
+      sampleRate,
+      numberOfFrames: frames.length,
+      numberOfChannels: 1,
+      timestamp: Math.round((offset / sampleRate) * 1e6),
+      data: frames.slice(),
+    });
+    encoder.encode(audioData);
+    audioData.close();
+
+    // Let the encoder drain so memory stays flat on long exports
+    while (encoder.encodeQueueSize > 4) {
+      await new Promise(resolve => setTimeout(resolve, 5));
+    }
+    onProgress(Math.min(0.95, (offset + block) / input.length));
+  }
+
+  await encoder.flush();
+  encoder.close();
+  if (failure) throw failure;
+  return { packets, description };
+};
+
+/**
+ * Encodes with the browser's WebCodecs Opus encoder and muxes the packets into Ogg.
+ */
+export const encodeOpus = async (samples: Int16Array, sampleRate: number, bitrateKbps: number, onProgress: ProgressCallback): Promise<Uint8Array[]> => {
+  if (typeof AudioEncoder === 'undefined') {
+    throw new Error("This browser cannot encode Opus (WebCodecs is not available). Try MP3 instead.");
+  }
+
+  // Opus only accepts a few input rates; resample to the nearest one the encoder supports
+  const encodeRate = await findEncodeRate('opus', sampleRate, OPUS_RATES, bitrateKbps);
+  if (!encodeRate) {
+    throw new Error("This browser's WebCodecs does not support Opus encoding. Try MP3 instead.");
+  }
+
+  const input = resampleToFloat(samples, sampleRate, encodeRate);
+  const { packets, description } = await runAudioEncoder('opus', input, encodeRate, bitrateKbps, onProgress);
+
+  // Use the encoder's own OpusHead pre-skip when it provides one
+  let preSkip = DEFAULT_PRE_SKIP;
+  if (description && description.byteLength >= 12 && new TextDecoder().decode(description.subarray(0, 8)) === 'OpusHead') {
+    preSkip = description[10] | (description[11] << 8);
+  }
+
+  const pages = muxOggOpus(packets, encodeRate, input.length, preSkip);
+  onProgress(1);
+  return pages;
+};
+
+// --- AAC in MP4 (M4B audiobook) ---
+
+export interface ChapterMarker {
+  title: string;
+  startSeconds: number;
+}
+
+const AAC_CODEC = 'mp4a.40.2'; // AAC-LC
+const AAC_RATES = [48000, 44100, 32000, 24000, 22050, 16000];
+const AAC_FRAME_SAMPLES = 1024;
+const AAC_FREQUENCY_INDEX = [96000, 88200, 64000, 48000, 44100, 32000, 24000, 22050, 16000, 12000, 11025, 8000, 7350];
+// Frames per chunk in the sample tables, about a second of audio
+const MP4_CHUNK_FRAMES = 45;
+const MOVIE_TIMESCALE = 1000;
+const MAX_CHAPTER_TITLE_BYTES = 255;
+const LANGUAGE_UNDETERMINED = 0x55C4; // "und", packed ISO 639-2
+const MP4_MATRIX = [0x00010000, 0, 0, 0, 0x00010000, 0, 0, 0, 0x40000000];
+
+const concatBytes = (parts: Uint8Array[]): Uint8Array => {
+  const out = new Uint8Array(parts.reduce((sum, p) => sum + p.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+};
+
+const uint16s = (values: ArrayLike<number>): Uint8Array => {
+  const out = new Uint8Array(values.length * 2);
+  const view = new DataView(out.buffer);
+  for (let i = 0; i < values.length; i++) view.setUint16(i * 2, values[i]);
+  return out;
+};
+
+const uint32s = (values: ArrayLike<number>): Uint8Array => {
+  const out = new Uint8Array(values.length * 4);
+  const view = new DataView(out.buffer);
+  for (let i = 0; i < values.length; i++) view.setUint32(i * 4, values[i]);
+  return out;
+};
+
+const ascii = (text: string) => new TextEncoder().encode(text);
+
+const mp4Box = (type: string, ...payload: Uint8Array[]): Uint8Array => {
+  const body = concatBytes(payload);
+  const out = new Uint8Array(8 + body.length);
+  new DataView(out.buffer).setUint32(0, out.length);
+  out.set(ascii(type), 4);
+  out.set(body, 8);
+  return out;
+};
+
+const mp4FullBox = (type: string, flags: number, ...payload: Uint8Array[]): Uint8Array =>
+  mp4Box(type, uint32s([flags & 0xFFFFFF]), ...payload); // Version 0
+
+// MPEG-4 descriptors inside esds; every one here is shorter than 128 bytes
+const descriptor = (tag: number, ...payload: Uint8Array[]): Uint8Array => {
+  const body = concatBytes(payload);
+  return concatBytes([new Uint8Array([tag, body.length]), body]);
+};
+
+// Title bytes for a chapter, cut at a character boundary
+const encodeTitle = (title: string): Uint8Array => {
+  let bytes = new TextEncoder().encode(title);
+  for (let chars = Array.from(title); bytes.length > MAX_CHAPTER_TITLE_BYTES; chars = chars.slice(0, -1)) {
+    bytes = new TextEncoder().encode(chars.slice(0, -1).join(''));
+  }
+  return bytes;
+};
+
+const sampleTable = (entry: Uint8Array, durations: [count: number, delta: number][], sizes: number[], chunkSizes: number[], chunkOffsets: number[]): Uint8Array => {
+  // Runs of chunks with the same number of samples
+  const runs: number[] = [];
+  chunkSizes.forEach((count, i) => {
+    if (i === 0 || count !== chunkSizes[i - 1]) runs.push(i + 1, count, 1);
+  });
+  return mp4Box('stbl',
+    mp4FullBox('stsd', 0, uint32s([1]), entry),
+    mp4FullBox('stts', 0, uint32s([durations.length]), uint32s(durations.flat())),
+    mp4FullBox('stsc', 0, uint32s([runs.length / 3]), uint32s(runs)),
+    mp4FullBox('stsz', 0, uint32s([0, sizes.length]), uint32s(sizes)),
+    mp4FullBox('stco', 0, uint32s([chunkOffsets.length]), uint32s(chunkOffsets)),
+  );
+};
+
+const trackBox = (trackId: number, tkhdFlags: number, durationMs: number, timescale: number, mediaDuration: number, handler: string, handlerName: string, minfHeader: Uint8Array, stbl: Uint8Array, ...extra: Uint8Array[]): Uint8Array =>
+  mp4Box('trak',
+    mp4FullBox('tkhd', tkhdFlags, uint32s([0, 0, trackId, 0, durationMs, 0, 0]), uint16s([0, 0, handler === 'soun' ? 0x0100 : 0, 0]), uint32s(MP4_MATRIX), uint32s([0, 0])),
+    ...extra,
+    mp4Box('mdia',
+      mp4FullBox('mdhd', 0, uint32s([0, 0, timescale, mediaDuration]), uint16s([LANGUAGE_UNDETERMINED, 0])),
+      mp4FullBox('hdlr', 0, uint32s([0]), ascii(handler), new Uint8Array(12), ascii(`${handlerName}\0`)),
+      mp4Box('minf',
+        minfHeader,
+        mp4Box('dinf', mp4FullBox('dref', 0, uint32s([1]), mp4FullBox('url ', 1))),
+        stbl,
+      ),
+    ),
+  );
+
+// QuickTime text sample description as written for chapter tracks (display flags, box, style, font table)
+const TEXT_SAMPLE_DESCRIPTION = new Uint8Array([
+  0, 0, 0, 1, 0, 0, 0, 0, 0, 0,
+  0, 0, 0, 0, 0, 0, 0, 0,
+  0, 0, 0, 0, 0, 1, 0, 0, 0, 0, 0, 0,
+  0, 0, 0, 13, 0x66, 0x74, 0x61, 0x62, 0, 1, 0, 1, 0,
+]);
+
+// Marks chapter text samples as UTF-8
+const TEXT_ENCODING = mp4Box('encd', uint32s([0x00000100]));
+
+/**
+ * Wraps raw AAC frames in an MP4 audiobook. Chapters are written twice: as a
+ * QuickTime text track (Apple players) and as a Nero `chpl` list (most others).
+ */
+export const muxM4b = (packets: Uint8Array[], audioSpecificConfig: Uint8Array, sampleRate: number, bitrateKbps: number, chapters: ChapterMarker[]): Uint8Array[] => {
+  const mediaDuration = packets.length * AAC_FRAME_SAMPLES;
+  const durationMs = Math.round((mediaDuration / sampleRate) * MOVIE_TIMESCALE);
+
+  // Markers in order, inside the audio, the first at zero
+  const markers: { title: Uint8Array; startMs: number }[] = [];
+  for (const chapter of [...chapters].sort((a, b) => a.startSeconds - b.startSeconds)) {
+    const startMs = markers.length === 0 ? 0 : Math.round(chapter.startSeconds * MOVIE_TIMESCALE);
+    if (startMs >= durationMs || (markers.length > 0 && startMs <= markers[markers.length - 1].startMs)) continue;
+    markers.push({ title: encodeTitle(chapter.title), startMs });
+  }
+  const hasChapters = markers.length > 0;
+  const textSamples = markers.map(m => concatBytes([uint16s([m.title.length]), m.title, TEXT_ENCODING]));
+
+  const ftyp = mp4Box('ftyp', ascii('M4B '), uint32s([0x200]), ascii('isomiso2M4B M4A mp42'));
+  const audioBytes = packets.reduce((sum, p) => sum + p.length, 0);
+  const textBytes = textSamples.reduce((sum, s) => sum + s.length, 0);
+  const mdatSize = 8 + audioBytes + textBytes;
+  if (ftyp.length + mdatSize > 0xFFFFFFFF) {
+    throw new Error("The audiobook is too large for one M4B file. Export chapters separately instead.");
+  }
+  const mdatHeader = concatBytes([uint32s([mdatSize]), ascii('mdat')]);
+
+  // Audio chunks, then all chapter titles in one chunk
+  const chunkSizes: number[] = [];
+  const chunkOffsets: number[] = [];
+  let offset = ftyp.length + mdatHeader.length;
+  for (let i = 0; i < packets.length; i += MP4_CHUNK_FRAMES) {
+    const chunk = packets.slice(i, i + MP4_CHUNK_FRAMES);
+    chunkSizes.push(chunk.length);
+    chunkOffsets.push(offset);
+    offset += chunk.reduce((sum, p) => sum + p.length, 0);
+  }
+
+  const bitrate = bitrateKbps * 1000;
+  const esds = mp4FullBox('esds', 0, descriptor(0x03,
+    uint16s([1]), new Uint8Array([0]),
+    descriptor(0x04, new Uint8Array([0x40, 0x15, 0, 0, 0]), uint32s([bitrate, bitrate]), descriptor(0x05, audioSpecificConfig)),
+    descriptor(0x06, new Uint8Array([0x02])),
+  ));
+  const mp4a = mp4Box('mp4a', new Uint8Array(6), uint16s([1]), uint32s([0, 0]), uint16s([1, 16, 0, 0]), uint32s([sampleRate * 0x10000]), esds);
+
+  const audioTrack = trackBox(1, 0x3, durationMs, sampleRate, mediaDuration, 'soun', 'SoundHandler',
+    mp4FullBox('smhd', 0, uint16s([0, 0])),
+    sampleTable(mp4a, [[packets.length, AAC_FRAME_SAMPLES]], packets.map(p => p.length), chunkSizes, chunkOffsets),
+    ...(hasChapters ? [mp4Box('tref', mp4Box('chap', uint32s([2])))] : []),
+  );
+
+  const boxes: Uint8Array[] = [
+    mp4FullBox('mvhd', 0, uint32s([0, 0, MOVIE_TIMESCALE, durationMs, 0x00010000]), uint16s([0x0100, 0]), uint32s([0, 0]), uint32s(MP4_MATRIX), new Uint8Array(24), uint32s([hasChapters ? 3 : 2])),
+    audioTrack,
+  ];
+
+  if (hasChapters) {
+    const gmhd = mp4Box('gmhd',
+      mp4FullBox('gmin', 0, uint16s([0x40, 0x8000, 0x8000, 0x8000, 0, 0])),
+      mp4Box('text', uint16s([1]), uint32s([0, 0, 0, 1, 0, 0, 0, 0x00004000]), uint16s([0])),
+    );
+    const textEntry = mp4Box('text', new Uint8Array(6), uint16s([1]), TEXT_SAMPLE_DESCRIPTION);
+    const durations = markers.map((m, i): [number, number] => [1, (markers[i + 1]?.startMs ?? durationMs) - m.startMs]);
+    boxes.push(trackBox(2, 0x2, durationMs, MOVIE_TIMESCALE, durationMs, 'text', 'ChapterHandler', gmhd,
+      sampleTable(textEntry, durations, textSamples.map(s => s.length), [textSamples.length], [offset]),
+    ));
+
+    // Nero chapter times are in 100 ns units; the list holds at most 255
+    const nero = markers.slice(0, 255);
+    const chpl = mp4Box('chpl', uint32s([0x01000000, 0]), new Uint8Array([nero.length]), ...nero.map(m => {
+      const start = m.startMs * 10000;
+      return concatBytes([uint32s([Math.floor(start / 0x100000000), start % 0x100000000]), new Uint8Array([m.title.length]), m.title]);
+    }));
+    boxes.push(mp4Box('udta', chpl));
+  }
+
+  return [ftyp, mdatHeader, ...packets, ...textSamples, mp4Box('moov', ...boxes)];
+};
+
+/**
+ * Encodes with the browser's WebCodecs AAC encoder and muxes an M4B
+ * audiobook with the given chapter markers.
+ */
+export const encodeM4b = async (samples: Int16Array, sampleRate: number, bitrateKbps: number, chapters: ChapterMarker[], onProgress: ProgressCallback): Promise<Uint8Array[]> => {
+  if (typeof AudioEncoder === 'undefined') {
+    throw new Error("This browser cannot encode AAC (WebCodecs is not available). Try MP3 instead.");
+  }
+
+  const encodeRate = await findEncodeRate(AAC_CODEC, sampleRate, AAC_RATES, bitrateKbps);
+  if (!encodeRate) {
+    throw new Error("This browser's WebCodecs does not support AAC encoding. Try MP3 or Opus instead.");
+  }
+
+  const input = resampleToFloat(samples, sampleRate, encodeRate);
+  const { packets, description } = await runAudioEncoder(AAC_CODEC, input, encodeRate, bitrateKbps, onProgress);
+
+  // AudioSpecificConfig: AAC-LC, sample rate index, mono
+  const audioSpecificConfig = description ?? uint16s([(2 << 11) | (AAC_FREQUENCY_INDEX.indexOf(encodeRate) << 7) | (1 << 3)]);
+  const parts = muxM4b(packets, audioSpecificConfig, encodeRate, bitrateKbps, chapters);
+  onProgress(1);
+  return parts;
+};
@@ -0,0 +1,233 @@
+import { AudioSegment, ExportSettings, SegmentStatus } from "../types";
+import { fetchPcm } from "./audioUtils";
+import { analyzeSilence, applyDeclick, getEffectiveDuration, getTrimRange, mixWithCrossfade } from "./silenceTrim";
+import { applyAudioEdit } from "./audioEdit";
+import { DEFAULT_TRUE_PEAK_CEILING_DB, int16ToFloat, normalizationGain } from "./loudness";
+import { MasteringSession, createMasteringSession } from "./audioEncoder";
+
+export const DEFAULT_EXPORT_SETTINGS: ExportSettings = {
+  segmentGapMs: 250,
+  paragraphGapMs: 700,
+  format: 'wav',
+  bitrateKbps: 64,
+  subtitleFormat: 'srt',
+  includeSubtitles: false,
+  loudnessTarget: -16,
+  truePeakCeilingDb: DEFAULT_TRUE_PEAK_CEILING_DB,
+  trimSilence: false,
+  silenceThresholdDb: -50,
+  trimHeadMs: 50,
+  trimTailMs: 100,
+  joinFade: 'declick',
+  joinFadeMs: 10,
+  chapterFileTemplate: '{n} - {title}',
+};
+
+export const DEFAULT_SAMPLE_RATE = 24000;
+
+export interface TimelineEntry {
+  segmentId: string;
+  startSeconds: number;
+  durationSeconds: number;
+  gapAfterSeconds: number;
+}
+
+export interface MergedAudio {
+  samples: Int16Array;
+  sampleRate: number;
+  timeline: TimelineEntry[];
+}
+
+/**
+ * A processing step run on the merged narration before the limiter. Stages may
+ * change the length, in which case they return the timeline adjusted to match.
+ */
+export interface MixAudio {
+  samples: Float32Array;
+  sampleRate: number;
+  timeline: TimelineEntry[];
+}
+
+export type MixStage = (audio: MixAudio) => Promise<MixAudio>;
+
+export const isExportable = (segment: AudioSegment) =>
+  segment.status === SegmentStatus.COMPLETED && !!segment.audioUrl;
+
+/**
+ * Silence inserted after a segment: its own override, else the paragraph or
+ * segment gap. Nothing is added after the last segment.
+ */
+export const getGapAfterMs = (segment: AudioSegment, isLast: boolean, settings: ExportSettings): number => {
+  if (isLast) return 0;
+  if (segment.pauseAfterMs !== undefined) return Math.max(0, segment.pauseAfterMs);
+  return segment.boundary === 'paragraph' ? settings.paragraphGapMs : settings.segmentGapMs;
+};
+
+/**
+ * How far the next segment overlaps this one. Crossfades only happen at joins
+ * with no gap; a pause between segments keeps them apart.
+ */
+export const getJoinOverlapMs = (gapAfterMs: number, isLast: boolean, settings: ExportSettings): number =>
+  !isLast && settings.joinFade === 'crossfade' && gapAfterMs === 0 ? settings.joinFadeMs : 0;
+
+/**
+ * Lays out exportable segments on the merged timeline using their known
+ * (trimmed) durations. Segments without a duration yet count as zero length.
+ * A crossfade shows up as a negative gap. A segment imported from a subtitle
+ * cue never starts before the cue; the gap before it grows instead.
+ */
+export const buildTimeline = (segments: AudioSegment[], settings: ExportSettings): TimelineEntry[] => {
+  const exportable = segments.filter(isExportable);
+  const timeline: TimelineEntry[] = [];
+  let cursor = 0;
+
+  exportable.forEach((segment, i) => {
+    const isLast = i === exportable.length - 1;
+    const cueStart = segment.timecode?.startSeconds ?? 0;
+    if (cueStart > cursor) {
+      const previous = timeline[timeline.length - 1];
+      if (previous) previous.gapAfterSeconds = cueStart - previous.startSeconds - previous.durationSeconds;
+      cursor = cueStart;
+    }
+    const durationSeconds = getEffectiveDuration(segment, settings);
+    const gapMs = getGapAfterMs(segment, isLast, settings);
+    const overlapMs = Math.min(getJoinOverlapMs(gapMs, isLast, settings), durationSeconds * 1000);
+    const gapAfterSeconds = (gapMs - overlapMs) / 1000;
+    timeline.push({ segmentId: segment.id, startSeconds: cursor, durationSeconds, gapAfterSeconds });
+    cursor += durationSeconds + gapAfterSeconds;
+  });
+
+  return timeline;
+};
+
+export const getTimelineDuration = (timeline: TimelineEntry[]): number => {
+  const last = timeline[timeline.length - 1];
+  return last ? last.startSeconds + last.durationSeconds + last.gapAfterSeconds : 0;
+};
+
+/**
+ * Gain for one segment: loudness normalization (when enabled) times the
+ * segment's own volume, which acts as a relative trim.
+ */
+const getSegmentGain = async (
+  mastering: MasteringSession,
+  samples: Float32Array,
+  sampleRate: number,
+  volume: number,
+  settings: ExportSettings
+): Promise<number> => {
+  const normalization = settings.loudnessTarget !== null
+    ? normalizationGain(await mastering.measureLoudness(samples, sampleRate), settings.loudnessTarget)
+    : 1;
+  return normalization * volume;
+};
+
+/**
+ * Decodes every completed segment, applies its edit, trims and levels it, and joins them in
+ * order with the configured gaps and join fades. `stages` (e.g. a music bed)
+ * then run in order, and a true-peak limiter keeps the result below the
+ * ceiling. Loudness measurement and limiting run in the encoder worker. The
+ * returned timeline reflects the actual decoded (trimmed) durations.
+ */
+export const renderMergedAudio = async (segments: AudioSegment[], settings: ExportSettings, stages: MixStage[] = []): Promise<MergedAudio> => {
+  const mastering = createMasteringSession();
+  try {
+    return await renderWithMastering(mastering, segments, settings, stages);
+  } finally {
+    mastering.close();
+  }
+};
+
+const renderWithMastering = async (
+  mastering: MasteringSession,
+  segments: AudioSegment[],
+  settings: ExportSettings,
+  stages: MixStage[]
+): Promise<MergedAudio> => {
+  const exportable = segments.filter(isExportable);
+  const decoded: { segment: AudioSegment; samples: Float32Array }[] = [];
+  let sampleRate = DEFAULT_SAMPLE_RATE;
+
+  for (const segment of exportable) {
+    const pcm = await fetchPcm(segment.audioUrl!);
+    if (pcm.samples.length === 0) continue;
+    sampleRate = pcm.sampleRate;
+
+    let samples = int16ToFloat(pcm.samples);
+    if (segment.edit) {
+      samples = applyAudioEdit(samples, sampleRate, segment.edit);
+      if (samples.length === 0) continue;
+    }
+    if (settings.trimSilence) {
+      const analysis = analyzeSilence(samples, sampleRate, settings.silenceThresholdDb);
+      const { start, end } = getTrimRange(samples.length, sampleRate, analysis, settings);
+      samples = samples.slice(start, end);
+      if (samples.length === 0) continue;
+    }
+
+    const gain = await getSegmentGain(mastering, samples, sampleRate, segment.volume !== undefined ? segment.volume : 1.0, settings);
+    if (Math.abs(gain - 1.0) > 0.001) {
+      for (let i = 0; i < samples.length; i++) samples[i] *= gain;
+    }
+    decoded.push({ segment, samples });
+  }
+
+  const fadeLength = Math.round((settings.joinFadeMs / 1000) * sampleRate);
+  const joins = decoded.map(({ segment, samples }, i) => {
+    const isLast = i === decoded.length - 1;
+    const gapMs = getGapAfterMs(segment, isLast, settings);
+    const next = decoded[i + 1]?.samples.length ?? 0;
+    const overlap = Math.min(
+      Math.round((getJoinOverlapMs(gapMs, isLast, settings) / 1000) * sampleRate),
+      samples.length,
+      next
+    );
+    return { gap: Math.round((gapMs / 1000) * sampleRate), overlap };
+  });
+
+  // Subtitle cues hold their segment back until the cue's time; a held-back join never crossfades
+  const starts: number[] = [];
+  decoded.forEach(({ segment }, i) => {
+    const previousEnd = i > 0 ? starts[i - 1] + decoded[i - 1].samples.length : 0;
+    const natural = i > 0 ? previousEnd + joins[i - 1].gap - joins[i - 1].overlap : 0;
+    const cueStart = Math.round((segment.timecode?.startSeconds ?? 0) * sampleRate);
+    if (cueStart > natural && i > 0) {
+      joins[i - 1] = { gap: cueStart - previousEnd, overlap: 0 };
+    }
+    starts.push(Math.max(natural, cueStart));
+  });
+
+  if (settings.joinFade !== 'none') {
+    // De-click every clip; crossfaded edges are shaped by the crossfade instead
+    decoded.forEach(({ samples }, i) => {
+      applyDeclick(samples, fadeLength, i === 0 || joins[i - 1].overlap === 0, joins[i].overlap === 0);
+    });
+  }
+
+  const last = decoded.length - 1;
+  const totalLength = last >= 0 ? starts[last] + decoded[last].samples.length : 0;
+
+  const merged = new Float32Array(totalLength);
+  const timeline: TimelineEntry[] = [];
+
+  // Gap samples are already zero
+  decoded.forEach(({ segment, samples }, i) => {
+    const overlapBefore = i > 0 ? joins[i - 1].overlap : 0;
+    mixWithCrossfade(merged, samples, starts[i], overlapBefore);
+    timeline.push({
+      segmentId: segment.id,
+      startSeconds: starts[i] / sampleRate,
+      durationSeconds: samples.length / sampleRate,
+      gapAfterSeconds: (joins[i].gap - joins[i].overlap) / sampleRate,
+    });
+  });
+  decoded.length = 0;
+
+  let audio: MixAudio = { samples: merged, sampleRate, timeline };
+  for (const stage of stages) {
+    audio = await stage(audio);
+  }
+
+  const limited = await mastering.limit(audio.samples, audio.sampleRate, settings.truePeakCeilingDb);
+  return { samples: limited, sampleRate: audio.sampleRate, timeline: audio.timeline };
+};
@@ -1,6 +1,60 @@
-import { GoogleGenAI, Modality } from "@google/genai";
+import { ApiError, GoogleGenAI, Modality } from "@google/genai";
+import { VOICES } from "../types";
+import { createWavUrl } from "./audioUtils";
+import {
+  TtsProvider, TtsError, TtsConfigurationError, TtsGenerationError, TtsAuthError, TtsQuotaError,
+  TtsSafetyError, TtsRequestError, TtsNetworkError, TtsServerError
+} from "./ttsProvider";
+
+export const GEMINI_PROVIDER_ID = 'gemini';
+const GEMINI_TTS_MODEL = "gemini-2.5-flash-preview-tts";
+
+// Gemini answers an unknown key with 400 INVALID_ARGUMENT
+const INVALID_KEY_REASON = /API_KEY_INVALID|API key not valid/i;
+
+interface GeminiErrorBody {
+  code?: number;
+  message?: string;
+  status?: string; // e.g. RESOURCE_EXHAUSTED
+  details?: { reason?: string }[];
+}
+
+// ApiError messages carry the JSON error body from the API
+const parseErrorBody = (message: string): GeminiErrorBody | undefined => {
+  try {
+    const parsed = JSON.parse(message);
+    return parsed?.error && typeof parsed.error === 'object' ? parsed.error : undefined;
+  } catch (e) {
+    return undefined;
+  }
+};
 
-const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+/**
+ * Maps an SDK or runtime failure to a typed provider error.
+ */
+const toTtsError = (error: unknown): TtsError => {
+  if (error instanceof TtsError) return error;
+
+  if (error instanceof ApiError) {
+    const body = parseErrorBody(error.message);
+    const status = error.status ?? body?.code;
+    const message = body?.message || error.message;
+    const reasons = [body?.status, ...(body?.details ?? []).map(d => d.reason)].join(' ');
+
+    if (status === 401 || status === 403 || INVALID_KEY_REASON.test(reasons) || INVALID_KEY_REASON.test(message)) {
+      return new TtsAuthError(GEMINI_PROVIDER_ID, message, status);
+    }
+    if (status === 429 || /RESOURCE_EXHAUSTED/.test(reasons)) return new TtsQuotaError(GEMINI_PROVIDER_ID, message, status);
+    if (status !== undefined && status >= 500) return new TtsServerError(GEMINI_PROVIDER_ID, message, status);
+    if (status !== undefined && status >= 400) return new TtsRequestError(GEMINI_PROVIDER_ID, message, status);
+    return new TtsGenerationError(GEMINI_PROVIDER_ID, message, status);
+  }
+
+  // fetch() rejects with a TypeError when there is no response at all
+  if (error instanceof TypeError) return new TtsNetworkError(GEMINI_PROVIDER_ID, error.message || 'Network request failed');
+
+  return new TtsGenerationError(GEMINI_PROVIDER_ID, error instanceof Error ? error.message : String(error) || 'Unknown API Error');
+};
 
 /**
  * Generates speech from text using Gemini 2.5 Flash TTS
@@ -17,7 +71,7 @@ export const generateSpeechSegment = async (
   const apiKey = customApiKey || process.env.API_KEY;
 
   if (!apiKey) {
-    throw new Error("API Key not found. Please add your Custom API Key in Settings (Gear Icon) or configure the environment.");
+    throw new TtsConfigurationError(GEMINI_PROVIDER_ID, "API Key not found. Please add your Custom API Key in Settings (Gear Icon) or configure the environment.");
   }
 
   // Initialize client per request to ensure valid key usage
@@ -52,119 +106,54 @@ export const generateSpeechSegment = async (
      promptText = `${instructions}\n\n${text}`;
   }
 
-  let lastError: any;
-  const maxRetries = 3;
-
-  for (let attempt = 0; attempt < maxRetries; attempt++) {
-    try {
-      const response = await ai.models.generateContent({
-        model: "gemini-2.5-flash-preview-tts",
-        contents: [{ parts: [{ text: promptText }] }],
-        config: config,
-      });
-
-      const base64Audio = response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
-
-      if (!base64Audio) {
-        throw new Error("No audio data received. The model might have blocked the request.");
-      }
-
-      // Convert Base64 to Blob
-      const binaryString = atob(base64Audio);
-      const len = binaryString.length;
-      const bytes = new Uint8Array(len);
-      for (let i = 0; i < len; i++) {
-        bytes[i] = binaryString.charCodeAt(i);
-      }
-      
-      // Create Wav URL
-      return createWavUrl(bytes, 24000); 
-
-    } catch (error: any) {
-      console.warn(`Attempt ${attempt + 1} failed for voice generation:`, error);
-      lastError = error;
-      
-      // If we have retries left, wait and try again
-      if (attempt < maxRetries - 1) {
-        const delay = 1000 * (attempt + 1); // Exponential backoff: 1s, 2s, 3s...
-        await wait(delay);
-      }
-    }
+  // Retries are up to the caller, which knows the error class and other keys
+  let response;
+  try {
+    response = await ai.models.generateContent({
+      model: GEMINI_TTS_MODEL,
+      contents: [{ parts: [{ text: promptText }] }],
+      config: config,
+    });
+  } catch (error) {
+    console.warn("Voice generation failed:", error);
+    throw toTtsError(error);
   }
 
-  // If we exhaust retries, process and throw the last error
-  console.error("All retries failed for generating speech:", lastError);
-  
-  // Attempt to extract meaningful message from error object or string
-  let errorMessage = lastError?.message || "Unknown API Error";
-  
-  // Check if the error message is a JSON string (common with some client errors)
-  if (typeof errorMessage === 'string' && (errorMessage.includes('{') && errorMessage.includes('}'))) {
-      try {
-          // regex to find JSON object
-          const jsonMatch = errorMessage.match(/\{.*\}/);
-          if (jsonMatch) {
-              const errorObj = JSON.parse(jsonMatch[0]);
-              if (errorObj.error && errorObj.error.message) {
-                  errorMessage = `${errorObj.error.message}`;
-                  if(errorObj.error.code) errorMessage += ` (Code: ${errorObj.error.code})`;
-              } else if (errorObj.message) {
-                  errorMessage = errorObj.message;
-              }
-          }
-      } catch (e) {
-          // If parsing fails, use original message
-      }
+  const candidate = response.candidates?.[0];
+  const base64Audio = candidate?.content?.parts?.[0]?.inlineData?.data;
+
+  if (!base64Audio) {
+    const reason = response.promptFeedback?.blockReason || candidate?.finishReason;
+    throw new TtsSafetyError(
+      GEMINI_PROVIDER_ID,
+      `No audio data received. The model might have blocked the request.${reason ? ` (${reason})` : ''}`
+    );
   }
 
-  throw new Error(errorMessage);
+  // Convert Base64 to Blob
+  const binaryString = atob(base64Audio);
+  const len = binaryString.length;
+  const bytes = new Uint8Array(len);
+  for (let i = 0; i < len; i++) {
+    bytes[i] = binaryString.charCodeAt(i);
+  }
+  
+  // Create Wav URL
+  return createWavUrl(bytes, 24000); 
 };
 
-/**
- * Helper to add a WAV header to raw PCM data so it plays in standard players
- * 24000Hz is the sample rate used in the Gemini guidelines examples
- */
-export const createWavUrl = (samples: Uint8Array, sampleRate: number): string => {
-  const buffer = new ArrayBuffer(44 + samples.length);
-  const view = new DataView(buffer);
-
-  const writeString = (view: DataView, offset: number, string: string) => {
-    for (let i = 0; i < string.length; i++) {
-      view.setUint8(offset + i, string.charCodeAt(i));
-    }
-  };
-
-  // RIFF identifier
-  writeString(view, 0, 'RIFF');
-  // file length
-  view.setUint32(4, 36 + samples.length, true);
-  // RIFF type
-  writeString(view, 8, 'WAVE');
-  // format chunk identifier
-  writeString(view, 12, 'fmt ');
-  // format chunk length
-  view.setUint32(16, 16, true);
-  // sample format (raw)
-  view.setUint16(20, 1, true);
-  // channel count (1)
-  view.setUint16(22, 1, true);
-  // sample rate
-  view.setUint32(24, sampleRate, true);
-  // byte rate (sampleRate * blockAlign)
-  view.setUint32(28, sampleRate * 2, true);
-  // block align (channel count * bytes per sample)
-  view.setUint16(32, 2, true);
-  // bits per sample
-  view.setUint16(34, 16, true);
-  // data chunk identifier
-  writeString(view, 36, 'data');
-  // data chunk length
-  view.setUint32(40, samples.length, true);
-
-  // Write the PCM samples
-  const pcmData = new Uint8Array(buffer, 44);
-  pcmData.set(samples);
-
-  const blob = new Blob([buffer], { type: 'audio/wav' });
-  return URL.createObjectURL(blob);
+export const geminiProvider: TtsProvider = {
+  id: GEMINI_PROVIDER_ID,
+  label: 'Gemini 2.5 Flash TTS',
+  model: GEMINI_TTS_MODEL,
+  capabilities: {
+    styleInstructions: true,
+    speakingRate: true,
+    requiresApiKey: true,
+    sampleRate: 24000,
+    maxCharsPerRequest: 5000,
+  },
+  voices: VOICES,
+  generate: ({ text, voice, styleInstruction, speakingRate, apiKey }) =>
+    generateSpeechSegment(text, voice, styleInstruction, speakingRate, apiKey),
 };
@@ -0,0 +1,106 @@
+import { AudioSegment, ProjectState, SegmentStatus } from "../types";
+import { overridesEqual } from "./voiceOverrides";
+
+/**
+ * Per-project undo/redo. Each entry is a whole ProjectState from before an
+ * edit; states are immutable, so entries share everything that did not change.
+ */
+
+export interface ProjectHistory {
+  past: ProjectState[];
+  future: ProjectState[];
+  lastKey?: string;
+  lastTime?: number;
+}
+
+export const MAX_HISTORY = 100;
+
+// Rapid edits of the same kind (typing, dragging a slider) become one step
+const COALESCE_MS = 1000;
+
+// Runtime status, not edits: never recorded and never restored
+const TRANSIENT_KEYS: (keyof ProjectState)[] = ['isProcessing', 'isExporting', 'hasExported', 'progress'];
+
+// Results of generation, which outlive the edit that was undone
+const GENERATION_KEYS = ['status', 'audioUrl', 'error', 'errorCode', 'spokenText', 'duration', 'silence', 'cached', 'takes', 'chosenTakeId'] as const;
+
+export const createHistory = (): ProjectHistory => ({ past: [], future: [] });
+
+export const isUndoableUpdate = (updates: Partial<ProjectState>): boolean =>
+  Object.keys(updates).some(key => !TRANSIENT_KEYS.includes(key as keyof ProjectState));
+
+/**
+ * Records `before` as an undo step for `updates`. Returns the new history and
+ * the states that fell out of it (cleared redo steps, oldest overflow).
+ */
+export const recordChange = (
+  history: ProjectHistory,
+  before: ProjectState,
+  updates: Partial<ProjectState>,
+  now = Date.now()
+): { history: ProjectHistory; dropped: ProjectState[] } => {
+  // Segment count is part of the key so consecutive deletes stay separate steps
+  const key = `${Object.keys(updates).sort().join(',')}:${before.segments.length}`;
+  const coalesce = history.lastKey === key && history.lastTime !== undefined && now - history.lastTime < COALESCE_MS;
+
+  if (coalesce || history.past[history.past.length - 1] === before) {
+    return { history: { ...history, future: [], lastKey: key, lastTime: now }, dropped: history.future };
+  }
+
+  const past = [...history.past, before];
+  const overflow = past.splice(0, Math.max(0, past.length - MAX_HISTORY));
+  return { history: { past, future: [], lastKey: key, lastTime: now }, dropped: [...overflow, ...history.future] };
+};
+
+export const undoChange = (history: ProjectHistory, current: ProjectState): { history: ProjectHistory; snapshot: ProjectState } | null => {
+  if (history.past.length === 0) return null;
+  const snapshot = history.past[history.past.length - 1];
+  return { history: { past: history.past.slice(0, -1), future: [...history.future, current] }, snapshot };
+};
+
+export const redoChange = (history: ProjectHistory, current: ProjectState): { history: ProjectHistory; snapshot: ProjectState } | null => {
+  if (history.future.length === 0) return null;
+  const snapshot = history.future[history.future.length - 1];
+  return { history: { past: [...history.past, current], future: history.future.slice(0, -1) }, snapshot };
+};
+
+const sameContent = (a: AudioSegment, b: AudioSegment) =>
+  a.text === b.text && a.speaker === b.speaker && overridesEqual(a.overrides, b.overrides);
+
+/**
+ * Applies a history state over the current one. Runtime status stays current,
+ * and audio generated since the snapshot is kept for segments whose text and
+ * voice still match, so undoing an unrelated edit never discards new audio.
+ */
+export const restoreSnapshot = (snapshot: ProjectState, current: ProjectState): ProjectState => ({
+  ...snapshot,
+  isProcessing: current.isProcessing,
+  isExporting: current.isExporting,
+  progress: current.progress,
+  hasExported: false,
+  segments: snapshot.segments.map(segment => {
+    const live = current.segments.find(s => s.id === segment.id);
+    if (live && sameContent(segment, live)) {
+      const generation: Partial<AudioSegment> = {};
+      GENERATION_KEYS.forEach(key => { (generation as Record<string, unknown>)[key] = live[key]; });
+      return { ...segment, ...generation };
+    }
+    // Whatever was generating it then is no longer tracking this segment
+    return segment.status === SegmentStatus.PROCESSING ? { ...segment, status: SegmentStatus.IDLE } : segment;
+  }),
+});
+
+/**
+ * Object URLs of all audio referenced by the given states.
+ */
+export const collectAudioUrls = (states: ProjectState[]): Set<string> => {
+  const urls = new Set<string>();
+  for (const state of states) {
+    state.segments.forEach(s => {
+      if (s.audioUrl) urls.add(s.audioUrl);
+      s.takes?.forEach(t => { if (t.audioUrl) urls.add(t.audioUrl); });
+    });
+    state.musicBed.tracks.forEach(t => { if (t.audioUrl) urls.add(t.audioUrl); });
+  }
+  return urls;
+};
@@ -0,0 +1,139 @@
+import { ApiKeyEntry, ApiKeyHealth } from "../types";
+import { TtsAuthError, TtsQuotaError } from "./ttsProvider";
+
+/**
+ * API key pool: per-key health and usage, persisted in localStorage. A key is
+ * put on cooldown when rate limited and marked invalid when the API rejects
+ * it. New requests go to the healthy key with the least work today.
+ */
+
+const KEY_POOL_KEY = 'gemini_key_pool';
+const LEGACY_KEYS_KEY = 'gemini_api_keys';
+const LEGACY_SINGLE_KEY = 'gemini_api_key';
+
+export const KEY_COOLDOWN_MS = 60_000;
+
+export const todayKey = (now = Date.now()): string => {
+  const d = new Date(now);
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+};
+
+const createEntry = (key: string): ApiKeyEntry => ({
+  key,
+  enabled: true,
+  authFailed: false,
+  successCount: 0,
+  failureCount: 0,
+  usage: { date: todayKey(), requests: 0, characters: 0 },
+});
+
+/**
+ * Usage counters for today; yesterday's counts read as zero.
+ */
+export const getTodayUsage = (entry: ApiKeyEntry, now = Date.now()) =>
+  entry.usage.date === todayKey(now) ? entry.usage : { date: todayKey(now), requests: 0, characters: 0 };
+
+export const getKeyHealth = (entry: ApiKeyEntry, now = Date.now()): ApiKeyHealth => {
+  if (!entry.enabled) return 'disabled';
+  if (entry.authFailed) return 'invalid';
+  if (entry.cooldownUntil !== undefined && entry.cooldownUntil > now) return 'cooldown';
+  return 'healthy';
+};
+
+export const maskKey = (key: string): string =>
+  key.length <= 12 ? `${key.slice(0, 2)}…${key.slice(-2)}` : `${key.slice(0, 6)}…${key.slice(-4)}`;
+
+// Older versions stored a plain list of keys, or before that a single key
+const loadLegacyKeys = (): string[] => {
+  const stored = localStorage.getItem(LEGACY_KEYS_KEY);
+  if (stored) {
+    try {
+      const parsed = JSON.parse(stored);
+      return Array.isArray(parsed) ? parsed.filter((k): k is string => typeof k === 'string') : [];
+    } catch (e) {
+      return stored.startsWith('[') ? [] : [stored];
+    }
+  }
+  const single = localStorage.getItem(LEGACY_SINGLE_KEY);
+  return single ? [single] : [];
+};
+
+export const loadKeyPool = (): ApiKeyEntry[] => {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(KEY_POOL_KEY) || 'null');
+    if (Array.isArray(parsed)) return parsed;
+  } catch (e) {
+    // Fall through to the legacy keys
+  }
+  return addKeys([], loadLegacyKeys());
+};
+
+export const saveKeyPool = (entries: ApiKeyEntry[]) => {
+  localStorage.setItem(KEY_POOL_KEY, JSON.stringify(entries));
+  localStorage.removeItem(LEGACY_KEYS_KEY);
+  localStorage.removeItem(LEGACY_SINGLE_KEY);
+};
+
+/**
+ * Appends keys not already in the pool.
+ */
+export const addKeys = (entries: ApiKeyEntry[], keys: string[]): ApiKeyEntry[] => {
+  const result = [...entries];
+  for (const raw of keys) {
+    const key = raw.trim();
+    if (key && !result.some(e => e.key === key)) result.push(createEntry(key));
+  }
+  return result;
+};
+
+export const updateKey = (entries: ApiKeyEntry[], key: string, update: (entry: ApiKeyEntry) => ApiKeyEntry): ApiKeyEntry[] =>
+  entries.map(e => e.key === key ? update(e) : e);
+
+/**
+ * Healthy key with the fewest requests in flight, then the fewest today.
+ * Returns undefined when no key is usable right now.
+ */
+export const pickKey = (entries: ApiKeyEntry[], inFlight: Record<string, number> = {}, now = Date.now()): string | undefined => {
+  const healthy = entries.filter(e => getKeyHealth(e, now) === 'healthy');
+  if (healthy.length === 0) return undefined;
+  return [...healthy].sort((a, b) =>
+    (inFlight[a.key] || 0) - (inFlight[b.key] || 0)
+    || getTodayUsage(a, now).requests - getTodayUsage(b, now).requests
+    || (a.lastUsedAt ?? 0) - (b.lastUsedAt ?? 0)
+  )[0].key;
+};
+
+/**
+ * When the first key on cooldown becomes usable again, or undefined if none
+ * will (all disabled or invalid).
+ */
+export const nextAvailableAt = (entries: ApiKeyEntry[], now = Date.now()): number | undefined => {
+  const cooling = entries.filter(e => getKeyHealth(e, now) === 'cooldown').map(e => e.cooldownUntil!);
+  return cooling.length > 0 ? Math.min(...cooling) : undefined;
+};
+
+export const recordRequest = (entry: ApiKeyEntry, characters: number, now = Date.now()): ApiKeyEntry => {
+  const usage = getTodayUsage(entry, now);
+  return { ...entry, lastUsedAt: now, usage: { ...usage, requests: usage.requests + 1, characters: usage.characters + characters } };
+};
+
+export const recordSuccess = (entry: ApiKeyEntry): ApiKeyEntry => ({
+  ...entry,
+  successCount: entry.successCount + 1,
+  authFailed: false,
+  cooldownUntil: undefined,
+});
+
+/**
+ * Counts a failure against the key; rate limits start a cooldown and
+ * authentication errors mark the key invalid.
+ */
+export const recordFailure = (entry: ApiKeyEntry, error: unknown, now = Date.now()): ApiKeyEntry => {
+  return {
+    ...entry,
+    failureCount: entry.failureCount + 1,
+    lastError: error instanceof Error ? error.message : String(error),
+    authFailed: entry.authFailed || error instanceof TtsAuthError,
+    cooldownUntil: error instanceof TtsQuotaError ? now + KEY_COOLDOWN_MS : entry.cooldownUntil,
+  };
+};
@@ -0,0 +1,84 @@
+import { AudioSegment, Lexicon, LexiconEntry } from "../types";
+
+/**
+ * Pronunciation lexicon: replaces terms with a respelling or phonetic hint
+ * before the text is sent to TTS. Matching is whole-word, where a word boundary
+ * is any character that is not a letter, combining mark or digit, so it works
+ * for Bengali as well as Latin script.
+ */
+
+export interface LexiconResult {
+  text: string;
+  // Entry id -> number of replacements made
+  hits: Record<string, number>;
+}
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const patternCache = new Map<string, RegExp>();
+
+const entryPattern = (entry: LexiconEntry): RegExp => {
+  const key = `${entry.caseSensitive ? 's' : 'i'}:${entry.term}`;
+  let pattern = patternCache.get(key);
+  if (!pattern) {
+    pattern = new RegExp(
+      `(?<![\\p{L}\\p{M}\\p{N}])${escapeRegExp(entry.term.trim())}(?![\\p{L}\\p{M}\\p{N}])`,
+      entry.caseSensitive ? 'gu' : 'giu'
+    );
+    patternCache.set(key, pattern);
+  }
+  pattern.lastIndex = 0;
+  return pattern;
+};
+
+/**
+ * Applies entries in order. Longer terms are tried first so "New York Times"
+ * wins over "New York".
+ */
+export const applyLexicon = (text: string, entries: LexiconEntry[]): LexiconResult => {
+  const hits: Record<string, number> = {};
+  const ordered = entries
+    .filter(e => e.term.trim().length > 0)
+    .sort((a, b) => b.term.trim().length - a.term.trim().length);
+
+  let result = text;
+  for (const entry of ordered) {
+    result = result.replace(entryPattern(entry), () => {
+      hits[entry.id] = (hits[entry.id] || 0) + 1;
+      return entry.replacement;
+    });
+  }
+  return { text: result, hits };
+};
+
+export const entryMatches = (text: string, entry: LexiconEntry): boolean =>
+  entry.term.trim().length > 0 && entryPattern(entry).test(text);
+
+/**
+ * Segments whose text contains the entry's term.
+ */
+export const findSegmentsForEntry = (segments: AudioSegment[], entry: LexiconEntry): AudioSegment[] =>
+  segments.filter(s => entryMatches(s.text, entry));
+
+/**
+ * Project entries take precedence over global ones with the same term.
+ */
+export const mergeLexicons = (projectEntries: LexiconEntry[], globalEntries: LexiconEntry[]): LexiconEntry[] => {
+  const projectTerms = new Set(projectEntries.map(e => e.term.trim().toLowerCase()));
+  return [...projectEntries, ...globalEntries.filter(e => !projectTerms.has(e.term.trim().toLowerCase()))];
+};
+
+const GLOBAL_LEXICONS_KEY = 'global_lexicons';
+
+export const loadGlobalLexicons = (): Lexicon[] => {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(GLOBAL_LEXICONS_KEY) || '[]');
+    return Array.isArray(parsed) ? parsed : [];
+  } catch (e) {
+    return [];
+  }
+};
+
+export const saveGlobalLexicons = (lexicons: Lexicon[]) => {
+  localStorage.setItem(GLOBAL_LEXICONS_KEY, JSON.stringify(lexicons));
+};
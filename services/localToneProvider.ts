@@ -0,0 +1,91 @@
+import { VoiceConfig } from "../types";
+import { createWavUrl } from "./audioUtils";
+import { TtsProvider, TtsRequestError } from "./ttsProvider";
+
+/**
+ * Offline provider that synthesises placeholder audio instead of speech.
+ * Output is deterministic: the same text, voice and pace always produce the same
+ * PCM, sized to the text length, so chunking, queueing and export can be worked
+ * on without network access or API keys.
+ */
+
+export const LOCAL_TONE_PROVIDER_ID = 'local-tone';
+
+const SAMPLE_RATE = 24000;
+const MS_PER_CHAR = 65;
+const WORD_GAP_MS = 80;
+const SENTENCE_GAP_MS = 300;
+const FADE_MS = 8;
+const AMPLITUDE = 0.25 * 32767;
+// Simulated request latency so queue behaviour resembles a real provider
+const LATENCY_MS = 250;
+
+const TONE_VOICES: (VoiceConfig & { frequency: number })[] = [
+  { name: 'tone-low', label: 'Low Tone (220 Hz)', frequency: 220 },
+  { name: 'tone-mid', label: 'Mid Tone (330 Hz)', frequency: 330 },
+  { name: 'tone-high', label: 'High Tone (440 Hz)', frequency: 440 },
+  { name: 'silence', label: 'Silence', frequency: 0 },
+];
+
+const RATE_FACTORS: Record<string, number> = {
+  'Slow': 1.3,
+  'Normal': 1.0,
+  'Fast': 0.8,
+  'Very Fast': 0.65,
+};
+
+const msToSamples = (ms: number) => Math.round((ms / 1000) * SAMPLE_RATE);
+
+/**
+ * Renders one tone burst per word, with short gaps between words and longer
+ * gaps after sentence punctuation.
+ */
+export const synthesizeTonePcm = (text: string, frequency: number, speakingRate: string = 'Normal'): Int16Array => {
+  const rate = RATE_FACTORS[speakingRate] ?? 1.0;
+  const words = text.split(/\s+/).filter(w => w.length > 0);
+
+  const plan = words.map(word => ({
+    toneSamples: msToSamples(word.length * MS_PER_CHAR * rate),
+    gapSamples: msToSamples((/[।?!.]$/.test(word) ? SENTENCE_GAP_MS : WORD_GAP_MS) * rate),
+  }));
+
+  const total = plan.reduce((sum, p) => sum + p.toneSamples + p.gapSamples, 0);
+  const pcm = new Int16Array(total);
+  if (frequency <= 0) return pcm;
+
+  const fadeSamples = msToSamples(FADE_MS);
+  let offset = 0;
+  for (const { toneSamples, gapSamples } of plan) {
+    for (let i = 0; i < toneSamples; i++) {
+      const fade = Math.min(1, i / fadeSamples, (toneSamples - 1 - i) / fadeSamples);
+      pcm[offset + i] = Math.round(Math.sin((2 * Math.PI * frequency * i) / SAMPLE_RATE) * AMPLITUDE * fade);
+    }
+    offset += toneSamples + gapSamples;
+  }
+  return pcm;
+};
+
+export const localToneProvider: TtsProvider = {
+  id: LOCAL_TONE_PROVIDER_ID,
+  label: 'Offline Test Tones',
+  model: 'sine-v1',
+  capabilities: {
+    styleInstructions: false,
+    speakingRate: true,
+    requiresApiKey: false,
+    sampleRate: SAMPLE_RATE,
+    maxCharsPerRequest: 100000,
+  },
+  voices: TONE_VOICES.map(({ name, label }) => ({ name, label })),
+  generate: async ({ text, voice, speakingRate }) => {
+    const toneVoice = TONE_VOICES.find(v => v.name === voice);
+    if (!toneVoice) {
+      throw new TtsRequestError(LOCAL_TONE_PROVIDER_ID, `Unknown voice "${voice}" for the offline provider.`);
+    }
+
+    await new Promise(resolve => setTimeout(resolve, LATENCY_MS));
+
+    const pcm = synthesizeTonePcm(text, toneVoice.frequency, speakingRate);
+    return createWavUrl(new Uint8Array(pcm.buffer), SAMPLE_RATE);
+  },
+};
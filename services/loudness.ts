@@ -0,0 +1,227 @@
+/**
+ * Export mastering: integrated loudness per ITU-R BS.1770 / EBU R128 and a
+ * look-ahead true-peak limiter. All processing works on mono float samples
+ * in the range -1..1.
+ */
+
+export const LOUDNESS_TARGETS: { value: number; label: string }[] = [
+  { value: -16, label: '-16 LUFS (podcast / streaming)' },
+  { value: -19, label: '-19 LUFS (spoken word, quieter)' },
+  { value: -23, label: '-23 LUFS (EBU R128 broadcast)' },
+];
+
+export const DEFAULT_TRUE_PEAK_CEILING_DB = -1;
+
+// Quieter segments are not boosted by more than this, so near-silence stays quiet
+const MAX_GAIN_DB = 20;
+
+const BLOCK_SECONDS = 0.4;
+const BLOCK_OVERLAP = 0.75;
+const ABSOLUTE_GATE_LUFS = -70;
+const RELATIVE_GATE_LU = -10;
+
+const LOOKAHEAD_SECONDS = 0.005;
+const RELEASE_SECONDS = 0.08;
+const OVERSAMPLE = 4;
+const INTERPOLATION_TAPS = 12; // Per phase
+
+export const dbToGain = (db: number) => Math.pow(10, db / 20);
+export const gainToDb = (gain: number) => 20 * Math.log10(gain);
+
+export const int16ToFloat = (samples: Int16Array): Float32Array => {
+  const out = new Float32Array(samples.length);
+  for (let i = 0; i < samples.length; i++) out[i] = samples[i] / 32768;
+  return out;
+};
+
+export const floatToInt16 = (samples: Float32Array): Int16Array => {
+  const out = new Int16Array(samples.length);
+  for (let i = 0; i < samples.length; i++) {
+    const v = Math.round(samples[i] * 32768);
+    out[i] = v > 32767 ? 32767 : v < -32768 ? -32768 : v;
+  }
+  return out;
+};
+
+interface Biquad { b0: number; b1: number; b2: number; a1: number; a2: number }
+
+/**
+ * K-weighting filter pair (high shelf + high pass) for any sample rate,
+ * derived from the analog prototypes behind the BS.1770 48 kHz coefficients.
+ */
+const kWeightingFilters = (sampleRate: number): Biquad[] => {
+  // Stage 1: high shelf
+  let f0 = 1681.974450955533;
+  let G = 3.999843853973347;
+  let Q = 0.7071752369554196;
+  let K = Math.tan(Math.PI * f0 / sampleRate);
+  const Vh = Math.pow(10, G / 20);
+  const Vb = Math.pow(Vh, 0.4996667741545416);
+  let a0 = 1 + K / Q + K * K;
+  const shelf: Biquad = {
+    b0: (Vh + Vb * K / Q + K * K) / a0,
+    b1: 2 * (K * K - Vh) / a0,
+    b2: (Vh - Vb * K / Q + K * K) / a0,
+    a1: 2 * (K * K - 1) / a0,
+    a2: (1 - K / Q + K * K) / a0,
+  };
+
+  // Stage 2: RLB high pass
+  f0 = 38.13547087602444;
+  Q = 0.5003270373238773;
+  K = Math.tan(Math.PI * f0 / sampleRate);
+  a0 = 1 + K / Q + K * K;
+  const highPass: Biquad = {
+    b0: 1,
+    b1: -2,
+    b2: 1,
+    a1: 2 * (K * K - 1) / a0,
+    a2: (1 - K / Q + K * K) / a0,
+  };
+
+  return [shelf, highPass];
+};
+
+const applyBiquad = (input: Float32Array, f: Biquad): Float32Array => {
+  const out = new Float32Array(input.length);
+  let x1 = 0, x2 = 0, y1 = 0, y2 = 0;
+  for (let i = 0; i < input.length; i++) {
+    const x = input[i];
+    const y = f.b0 * x + f.b1 * x1 + f.b2 * x2 - f.a1 * y1 - f.a2 * y2;
+    x2 = x1; x1 = x;
+    y2 = y1; y1 = y;
+    out[i] = y;
+  }
+  return out;
+};
+
+/**
+ * Gated integrated loudness in LUFS, or null when the audio is too short or
+ * entirely below the absolute gate.
+ */
+export const measureIntegratedLoudness = (samples: Float32Array, sampleRate: number): number | null => {
+  const blockLength = Math.round(BLOCK_SECONDS * sampleRate);
+  if (samples.length < blockLength) return null;
+
+  let weighted = samples;
+  for (const filter of kWeightingFilters(sampleRate)) weighted = applyBiquad(weighted, filter);
+
+  const step = Math.round(blockLength * (1 - BLOCK_OVERLAP));
+  const blockPowers: number[] = [];
+  for (let start = 0; start + blockLength <= weighted.length; start += step) {
+    let sum = 0;
+    for (let i = start; i < start + blockLength; i++) sum += weighted[i] * weighted[i];
+    blockPowers.push(sum / blockLength);
+  }
+
+  const toLufs = (power: number) => -0.691 + 10 * Math.log10(power);
+  const mean = (values: number[]) => values.reduce((a, b) => a + b, 0) / values.length;
+
+  const aboveAbsolute = blockPowers.filter(p => p > 0 && toLufs(p) > ABSOLUTE_GATE_LUFS);
+  if (aboveAbsolute.length === 0) return null;
+
+  const relativeGate = toLufs(mean(aboveAbsolute)) + RELATIVE_GATE_LU;
+  const gated = aboveAbsolute.filter(p => toLufs(p) > relativeGate);
+  return toLufs(mean(gated.length > 0 ? gated : aboveAbsolute));
+};
+
+/**
+ * Linear gain that brings audio measured at `measuredLufs` to `targetLufs`,
+ * limited so quiet material is not pushed up excessively.
+ */
+export const normalizationGain = (measuredLufs: number | null, targetLufs: number): number => {
+  if (measuredLufs === null) return 1;
+  return dbToGain(Math.min(MAX_GAIN_DB, targetLufs - measuredLufs));
+};
+
+// Windowed-sinc interpolation kernel for each fractional phase
+const buildInterpolationKernels = (): Float32Array[] => {
+  const kernels: Float32Array[] = [];
+  const half = INTERPOLATION_TAPS / 2;
+  for (let phase = 1; phase < OVERSAMPLE; phase++) {
+    const frac = phase / OVERSAMPLE;
+    const kernel = new Float32Array(INTERPOLATION_TAPS);
+    for (let k = 0; k < INTERPOLATION_TAPS; k++) {
+      const x = k - half + 1 - frac;
+      const sinc = x === 0 ? 1 : Math.sin(Math.PI * x) / (Math.PI * x);
+      const window = 0.5 + 0.5 * Math.cos(Math.PI * x / half);
+      kernel[k] = sinc * window;
+    }
+    kernels.push(kernel);
+  }
+  return kernels;
+};
+
+/**
+ * Estimated true peak around each sample: the largest of the sample itself and
+ * the 4x oversampled values between it and the next sample.
+ */
+const truePeakEnvelope = (samples: Float32Array): Float32Array => {
+  const kernels = buildInterpolationKernels();
+  const half = INTERPOLATION_TAPS / 2;
+  const peaks = new Float32Array(samples.length);
+
+  for (let i = 0; i < samples.length; i++) {
+    let peak = Math.abs(samples[i]);
+    for (const kernel of kernels) {
+      let v = 0;
+      for (let k = 0; k < INTERPOLATION_TAPS; k++) {
+        const index = i + k - half + 1;
+        if (index >= 0 && index < samples.length) v += samples[index] * kernel[k];
+      }
+      const abs = Math.abs(v);
+      if (abs > peak) peak = abs;
+    }
+    peaks[i] = peak;
+  }
+  return peaks;
+};
+
+/**
+ * Look-ahead true-peak limiter. Gain reduction starts before a peak arrives
+ * and recovers smoothly afterwards, so nothing is hard clipped. Works in place.
+ */
+export const applyTruePeakLimiter = (samples: Float32Array, sampleRate: number, ceilingDb = DEFAULT_TRUE_PEAK_CEILING_DB): void => {
+  const ceiling = dbToGain(ceilingDb);
+  const peaks = truePeakEnvelope(samples);
+
+  let needsLimiting = false;
+  for (let i = 0; i < peaks.length; i++) {
+    if (peaks[i] > ceiling) { needsLimiting = true; break; }
+  }
+  if (!needsLimiting) return;
+
+  const lookahead = Math.max(1, Math.round(LOOKAHEAD_SECONDS * sampleRate));
+  const releaseCoef = Math.exp(-1 / (RELEASE_SECONDS * sampleRate));
+
+  // Required gain per sample, reused in place as the working buffer
+  const gain = peaks;
+  for (let i = 0; i < gain.length; i++) gain[i] = gain[i] > ceiling ? ceiling / gain[i] : 1;
+
+  // Forward-looking minimum so reduction is in place before the peak (monotonic deque)
+  const minAhead = new Float32Array(gain.length);
+  const deque = new Int32Array(gain.length);
+  let head = 0, tail = 0;
+  for (let i = gain.length - 1; i >= 0; i--) {
+    while (tail > head && gain[deque[tail - 1]] >= gain[i]) tail--;
+    deque[tail++] = i;
+    while (deque[head] > i + lookahead) head++;
+    minAhead[i] = gain[deque[head]];
+  }
+
+  // Exponential release back towards unity
+  let previous = 1;
+  for (let i = 0; i < minAhead.length; i++) {
+    const released = 1 - (1 - previous) * releaseCoef;
+    previous = Math.min(minAhead[i], released);
+    minAhead[i] = previous;
+  }
+
+  // Moving average over the look-ahead window smooths the attack without exceeding the ceiling
+  let sum = 0;
+  for (let i = 0; i < samples.length; i++) {
+    sum += minAhead[i];
+    if (i >= lookahead) sum -= minAhead[i - lookahead];
+    samples[i] *= sum / Math.min(i + 1, lookahead);
+  }
+};
@@ -0,0 +1,170 @@
+import { MusicBedSettings, MusicTrack } from "../types";
+import { MixStage } from "./exportService";
+import { dbToGain } from "./loudness";
+
+/**
+ * Background music mixed under the merged narration. Music is looped or faded
+ * to fit, and ducked wherever the narration envelope shows speech.
+ */
+
+export const DEFAULT_MUSIC_BED: MusicBedSettings = {
+  enabled: false,
+  tracks: [],
+  fit: 'loop',
+  levelDb: -18,
+  duckDb: 12,
+  attackMs: 250,
+  releaseMs: 700,
+  introMs: 2000,
+  outroMs: 3000,
+};
+
+const ENVELOPE_HOP_SECONDS = 0.01;
+const SPEECH_THRESHOLD_DB = -45;
+const EDGE_FADE_SECONDS = 1.5;
+const LOOP_CROSSFADE_SECONDS = 0.5;
+
+/**
+ * Decodes a music file with the browser's codecs, resampled to `sampleRate` and mixed down to mono.
+ */
+export const decodeMusicTrack = async (url: string, sampleRate: number): Promise<Float32Array> => {
+  const data = await (await fetch(url)).arrayBuffer();
+  const context = new OfflineAudioContext(1, 1, sampleRate);
+  const buffer = await context.decodeAudioData(data);
+
+  const mono = new Float32Array(buffer.length);
+  for (let c = 0; c < buffer.numberOfChannels; c++) {
+    const channel = buffer.getChannelData(c);
+    for (let i = 0; i < mono.length; i++) mono[i] += channel[i] / buffer.numberOfChannels;
+  }
+  return mono;
+};
+
+/**
+ * Reads a music file's duration in seconds, failing if the browser cannot decode it.
+ */
+export const measureMusicTrack = async (url: string): Promise<number> => {
+  const data = await (await fetch(url)).arrayBuffer();
+  const buffer = await new OfflineAudioContext(1, 1, 44100).decodeAudioData(data);
+  return buffer.duration;
+};
+
+/**
+ * Lays the tracks out end to end over `length` samples. In loop mode the
+ * playlist repeats with a short crossfade; otherwise it plays once. Music that
+ * runs to the end fades out over `fadeOutLength` samples.
+ */
+const buildBed = (tracks: Float32Array[], length: number, sampleRate: number, fit: MusicBedSettings['fit'], fadeOutLength: number): Float32Array => {
+  const bed = new Float32Array(length);
+  const playable = tracks.filter(t => t.length > 0);
+  if (playable.length === 0) return bed;
+
+  const crossfade = Math.round(LOOP_CROSSFADE_SECONDS * sampleRate);
+  let offset = 0;
+  let index = 0;
+
+  while (offset < length) {
+    const track = playable[index % playable.length];
+    const overlap = offset > 0 ? Math.min(crossfade, Math.floor(track.length / 2)) : 0;
+    const start = offset - overlap;
+
+    for (let i = 0; i < track.length && start + i < length; i++) {
+      if (i < overlap) {
+        const t = (i + 0.5) / overlap;
+        bed[start + i] = bed[start + i] * Math.cos(t * Math.PI / 2) + track[i] * Math.sin(t * Math.PI / 2);
+      } else {
+        bed[start + i] = track[i];
+      }
+    }
+
+    offset = start + track.length;
+    index++;
+    if (fit === 'fade' && index >= playable.length) break;
+  }
+
+  // Fade in at the start; fade out where the music stops, or over the outro when it is cut off
+  const end = Math.min(length, offset);
+  const edgeFade = Math.round(EDGE_FADE_SECONDS * sampleRate);
+  const fadeIn = Math.min(edgeFade, Math.floor(end / 2));
+  const fadeOut = Math.min(end < length ? edgeFade : Math.max(edgeFade, fadeOutLength), Math.floor(end / 2));
+  for (let i = 0; i < fadeIn; i++) bed[i] *= i / fadeIn;
+  for (let i = 0; i < fadeOut; i++) bed[end - 1 - i] *= i / fadeOut;
+
+  return bed;
+};
+
+/**
+ * Ducking curve in dB per envelope frame: reaches full depth when speech starts
+ * (the attack runs ahead of it) and recovers over the release time afterwards.
+ */
+const buildDuckCurve = (narration: Float32Array, sampleRate: number, bed: MusicBedSettings): Float32Array => {
+  const hop = Math.max(1, Math.round(ENVELOPE_HOP_SECONDS * sampleRate));
+  const frames = Math.ceil(narration.length / hop);
+  const threshold = dbToGain(SPEECH_THRESHOLD_DB);
+
+  const speech = new Uint8Array(frames);
+  for (let f = 0; f < frames; f++) {
+    const start = f * hop;
+    const end = Math.min(narration.length, start + hop);
+    let sum = 0;
+    for (let i = start; i < end; i++) sum += narration[i] * narration[i];
+    speech[f] = Math.sqrt(sum / (end - start)) >= threshold ? 1 : 0;
+  }
+
+  const attackFrames = Math.max(1, Math.round(bed.attackMs / 1000 / ENVELOPE_HOP_SECONDS));
+  const releaseFrames = Math.max(1, Math.round(bed.releaseMs / 1000 / ENVELOPE_HOP_SECONDS));
+  const depth = Math.max(0, bed.duckDb);
+  const curve = new Float32Array(frames);
+
+  // Forward pass: release ramps back up after speech
+  let level = 0;
+  for (let f = 0; f < frames; f++) {
+    level = speech[f] ? -depth : Math.min(0, level + depth / releaseFrames);
+    curve[f] = level;
+  }
+
+  // Backward pass: attack ramps down ahead of speech
+  level = 0;
+  for (let f = frames - 1; f >= 0; f--) {
+    level = speech[f] ? -depth : Math.min(0, level + depth / attackFrames);
+    curve[f] = Math.min(curve[f], level);
+  }
+
+  return curve;
+};
+
+/**
+ * Export stage that pads the narration with the intro/outro lead and mixes the
+ * ducked music bed underneath. Timeline entries shift by the intro.
+ */
+export const createMusicBedStage = (bed: MusicBedSettings): MixStage => async ({ samples, sampleRate, timeline }) => {
+  const tracks = bed.tracks.filter((t): t is MusicTrack & { audioUrl: string } => !!t.audioUrl);
+  const decoded: Float32Array[] = [];
+  for (const track of tracks) decoded.push(await decodeMusicTrack(track.audioUrl, sampleRate));
+
+  const intro = Math.round((Math.max(0, bed.introMs) / 1000) * sampleRate);
+  const outro = Math.round((Math.max(0, bed.outroMs) / 1000) * sampleRate);
+  const mixed = new Float32Array(intro + samples.length + outro);
+  mixed.set(samples, intro);
+
+  const music = buildBed(decoded, mixed.length, sampleRate, bed.fit, outro);
+  const curve = buildDuckCurve(mixed, sampleRate, bed);
+  const hop = Math.max(1, Math.round(ENVELOPE_HOP_SECONDS * sampleRate));
+  const level = dbToGain(bed.levelDb);
+
+  for (let i = 0; i < mixed.length; i++) {
+    // Interpolate between envelope frames so gain changes are smooth
+    const position = i / hop;
+    const frame = Math.floor(position);
+    const next = Math.min(frame + 1, curve.length - 1);
+    const db = curve[frame] + (curve[next] - curve[frame]) * (position - frame);
+    mixed[i] += music[i] * level * dbToGain(db);
+  }
+
+  const shift = intro / sampleRate;
+  return {
+    samples: mixed,
+    sampleRate,
+    timeline: timeline.map(entry => ({ ...entry, startSeconds: entry.startSeconds + shift })),
+  };
+};
@@ -0,0 +1,269 @@
+import { AudioSegment, ChunkBoundary, ExportSettings, LexiconEntry, MusicBedSettings, MusicTrack, ProjectState, SegmentStatus, AudioEdit, SegmentTake, SegmentTimecode, SilenceAnalysis, SpeakerVoice, TtsErrorCode, VoiceOverrides } from "../types";
+import { DEFAULT_PROVIDER_ID } from "./providerRegistry";
+import { DEFAULT_MAX_CHUNK_LENGTH } from "./segmenter";
+import { DEFAULT_EXPORT_SETTINGS } from "./exportService";
+import { DEFAULT_MUSIC_BED } from "./musicBed";
+import { createZip, readZip, encodeText, decodeText } from "./zipService";
+import { chooseTake } from "./takes";
+
+const BUNDLE_FORMAT = 'bangla-voice-tools-project';
+const BUNDLE_VERSION = 1;
+const MANIFEST_NAME = 'manifest.json';
+
+export const BUNDLE_EXTENSION = '.bvtproj.zip';
+
+interface BundleSegment {
+  text: string;
+  spokenText?: string;
+  volume: number;
+  status: SegmentStatus;
+  error?: string;
+  errorCode?: TtsErrorCode;
+  duration?: number;
+  silence?: SilenceAnalysis;
+  boundary?: ChunkBoundary;
+  pauseAfterMs?: number;
+  speaker?: string;
+  overrides?: VoiceOverrides;
+  cached?: boolean;
+  edit?: AudioEdit;
+  heading?: boolean;
+  timecode?: SegmentTimecode;
+  chapterTitle?: string;
+  audioFile?: string; // Audio from before takes were kept
+  takes?: BundleTake[];
+  chosenTake?: number; // Index into takes
+}
+
+type BundleTake = Omit<SegmentTake, 'id' | 'audioUrl'> & { audioFile: string };
+
+interface BundleMusicTrack {
+  name: string;
+  duration?: number;
+  mimeType?: string;
+  audioFile?: string;
+}
+
+interface BundleManifest {
+  format: typeof BUNDLE_FORMAT;
+  version: number;
+  exportedAt: string;
+  project: {
+    name: string;
+    providerId?: string;
+    selectedVoice: string;
+    speakingRate: string;
+    styleInstruction: string;
+    exportFilename: string;
+    maxChunkLength?: number;
+    normalizeText?: boolean;
+    lexicon?: LexiconEntry[];
+    exportSettings?: Partial<ExportSettings>;
+    musicBed?: Partial<Omit<MusicBedSettings, 'tracks'>> & { tracks?: BundleMusicTrack[] };
+    dialogueMode?: boolean;
+    speakers?: SpeakerVoice[];
+    segments: BundleSegment[];
+  };
+}
+
+/**
+ * Packs a project's settings, segment text, completed segment WAVs and music files into one archive.
+ */
+export const exportProjectBundle = async (project: ProjectState): Promise<Blob> => {
+  const files: { name: string; data: Uint8Array }[] = [];
+  const segments: BundleSegment[] = [];
+
+  for (let i = 0; i < project.segments.length; i++) {
+    const segment = project.segments[i];
+    const entry: BundleSegment = {
+      text: segment.text,
+      spokenText: segment.spokenText,
+      volume: segment.volume,
+      status: segment.status === SegmentStatus.PROCESSING ? SegmentStatus.QUEUED : segment.status,
+      error: segment.error,
+      errorCode: segment.errorCode,
+      duration: segment.duration,
+      silence: segment.silence,
+      boundary: segment.boundary,
+      pauseAfterMs: segment.pauseAfterMs,
+      speaker: segment.speaker,
+      overrides: segment.overrides,
+      cached: segment.cached,
+      edit: segment.edit,
+      heading: segment.heading,
+      timecode: segment.timecode,
+      chapterTitle: segment.chapterTitle,
+    };
+
+    if (segment.takes) {
+      const takes: BundleTake[] = [];
+      for (const { id, audioUrl, ...take } of segment.takes) {
+        if (!audioUrl) continue;
+        const audio = new Uint8Array(await (await fetch(audioUrl)).arrayBuffer());
+        const audioFile = `audio/${String(i + 1).padStart(4, '0')}-take${String(takes.length + 1).padStart(2, '0')}.wav`;
+        files.push({ name: audioFile, data: audio });
+        if (id === segment.chosenTakeId) entry.chosenTake = takes.length;
+        takes.push({ ...take, audioFile });
+      }
+      entry.takes = takes;
+    } else if (segment.status === SegmentStatus.COMPLETED && segment.audioUrl) {
+      const audio = new Uint8Array(await (await fetch(segment.audioUrl)).arrayBuffer());
+      entry.audioFile = `audio/${String(i + 1).padStart(4, '0')}.wav`;
+      files.push({ name: entry.audioFile, data: audio });
+    }
+
+    segments.push(entry);
+  }
+
+  const musicTracks: BundleMusicTrack[] = [];
+  for (let i = 0; i < project.musicBed.tracks.length; i++) {
+    const track = project.musicBed.tracks[i];
+    const entry: BundleMusicTrack = { name: track.name, duration: track.duration };
+    if (track.audioUrl) {
+      const blob = await (await fetch(track.audioUrl)).blob();
+      entry.mimeType = blob.type || undefined;
+      entry.audioFile = `music/${String(i + 1).padStart(2, '0')}`;
+      files.push({ name: entry.audioFile, data: new Uint8Array(await blob.arrayBuffer()) });
+    }
+    musicTracks.push(entry);
+  }
+
+  const manifest: BundleManifest = {
+    format: BUNDLE_FORMAT,
+    version: BUNDLE_VERSION,
+    exportedAt: new Date().toISOString(),
+    project: {
+      name: project.name,
+      providerId: project.providerId,
+      selectedVoice: project.selectedVoice,
+      speakingRate: project.speakingRate,
+      styleInstruction: project.styleInstruction,
+      exportFilename: project.exportFilename,
+      maxChunkLength: project.maxChunkLength,
+      normalizeText: project.normalizeText,
+      lexicon: project.lexicon,
+      exportSettings: project.exportSettings,
+      musicBed: { ...project.musicBed, tracks: musicTracks },
+      dialogueMode: project.dialogueMode,
+      speakers: project.speakers,
+      segments,
+    },
+  };
+
+  return createZip([
+    { name: MANIFEST_NAME, data: encodeText(JSON.stringify(manifest, null, 2)) },
+    ...files,
+  ]);
+};
+
+/**
+ * Reads a bundle back into the fields needed to build a new project.
+ * Segments whose audio is missing from the archive are reset to IDLE.
+ */
+export const importProjectBundle = async (
+  file: Blob,
+  generateId: () => string
+): Promise<Omit<ProjectState, 'id'>> => {
+  const entries = await readZip(file);
+  const byName = new Map(entries.map(e => [e.name, e.data]));
+
+  const manifestData = byName.get(MANIFEST_NAME);
+  if (!manifestData) {
+    throw new Error("This archive has no manifest.json; it is not a project bundle.");
+  }
+
+  const manifest = JSON.parse(decodeText(manifestData)) as BundleManifest;
+  if (manifest.format !== BUNDLE_FORMAT) {
+    throw new Error("Unrecognised project bundle format.");
+  }
+  if (manifest.version > BUNDLE_VERSION) {
+    throw new Error("This bundle was made by a newer version of the app.");
+  }
+
+  const segments: AudioSegment[] = manifest.project.segments.map(s => {
+    const segment: AudioSegment = {
+      id: generateId(),
+      text: s.text,
+      spokenText: s.spokenText,
+      volume: s.volume ?? 1.0,
+      status: s.status,
+      error: s.error,
+      errorCode: s.errorCode,
+      duration: s.duration,
+      silence: s.silence,
+      boundary: s.boundary,
+      pauseAfterMs: s.pauseAfterMs,
+      speaker: s.speaker,
+      overrides: s.overrides,
+      cached: s.cached,
+      edit: s.edit,
+      heading: s.heading,
+      timecode: s.timecode,
+      chapterTitle: s.chapterTitle,
+      isSelected: false,
+    };
+
+    if (s.takes) {
+      // Takes missing from the archive are dropped
+      const takes: SegmentTake[] = [];
+      let chosenId: string | undefined;
+      s.takes.forEach(({ audioFile, ...take }, index) => {
+        const audio = byName.get(audioFile);
+        if (!audio) return;
+        const id = generateId();
+        if (index === s.chosenTake) chosenId = id;
+        takes.push({ ...take, id, audioUrl: URL.createObjectURL(new Blob([audio as BlobPart], { type: 'audio/wav' })) });
+      });
+      if (takes.length > 0) return chooseTake({ ...segment, takes }, chosenId ?? takes[takes.length - 1].id);
+      if (s.status === SegmentStatus.COMPLETED) segment.status = SegmentStatus.IDLE;
+    } else if (s.status === SegmentStatus.COMPLETED) {
+      const audio = s.audioFile ? byName.get(s.audioFile) : undefined;
+      if (audio) {
+        segment.audioUrl = URL.createObjectURL(new Blob([audio as BlobPart], { type: 'audio/wav' }));
+      } else {
+        segment.status = SegmentStatus.IDLE;
+      }
+    }
+
+    return segment;
+  });
+
+  const { name, providerId, selectedVoice, speakingRate, styleInstruction, exportFilename, maxChunkLength, normalizeText, lexicon, exportSettings, musicBed, dialogueMode, speakers } = manifest.project;
+
+  // Music files missing from the archive are dropped
+  const musicTracks: MusicTrack[] = [];
+  for (const track of musicBed?.tracks ?? []) {
+    const audio = track.audioFile ? byName.get(track.audioFile) : undefined;
+    if (!audio) continue;
+    musicTracks.push({
+      id: generateId(),
+      name: track.name,
+      duration: track.duration,
+      audioUrl: URL.createObjectURL(new Blob([audio as BlobPart], { type: track.mimeType || '' })),
+    });
+  }
+
+  return {
+    name,
+    inputText: '',
+    styleInstruction: styleInstruction ?? '',
+    segments,
+    isProcessing: false,
+    isExporting: false,
+    hasExported: false,
+    providerId: providerId || DEFAULT_PROVIDER_ID,
+    selectedVoice,
+    speakingRate: speakingRate ?? 'Normal',
+    exportFilename: exportFilename ?? '',
+    maxChunkLength: maxChunkLength || DEFAULT_MAX_CHUNK_LENGTH,
+    normalizeText: normalizeText ?? false,
+    // Global lexicons live on the exporting machine and are not bundled
+    lexicon: lexicon || [],
+    globalLexiconIds: [],
+    exportSettings: { ...DEFAULT_EXPORT_SETTINGS, ...exportSettings },
+    musicBed: { ...DEFAULT_MUSIC_BED, ...musicBed, tracks: musicTracks },
+    dialogueMode: dialogueMode ?? false,
+    speakers: speakers || [],
+    progress: { current: 0, total: 0 },
+  };
+};
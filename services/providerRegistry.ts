@@ -0,0 +1,14 @@
+import { TtsProvider } from "./ttsProvider";
+import { geminiProvider, GEMINI_PROVIDER_ID } from "./geminiService";
+import { localToneProvider } from "./localToneProvider";
+
+export const DEFAULT_PROVIDER_ID = GEMINI_PROVIDER_ID;
+
+export const TTS_PROVIDERS: TtsProvider[] = [geminiProvider, localToneProvider];
+
+/**
+ * Looks up a provider by id, falling back to the default for unknown ids
+ * (e.g. projects saved by a build that had a provider this one lacks).
+ */
+export const getProvider = (id: string | undefined): TtsProvider =>
+  TTS_PROVIDERS.find(p => p.id === id) || TTS_PROVIDERS.find(p => p.id === DEFAULT_PROVIDER_ID)!;
@@ -0,0 +1,37 @@
+import { TtsErrorCode } from "../types";
+import { TtsError, getErrorCode } from "./ttsProvider";
+
+/**
+ * How often, and after how long, a failed request is sent again, by error
+ * class. Delays grow exponentially with full jitter so parallel retries do
+ * not arrive together.
+ */
+
+export interface RetryPolicy {
+  maxAttempts: number; // Including the first one
+  baseDelayMs: number;
+  maxDelayMs: number;
+  switchKey: boolean; // Retry on another key right away; the failed key cools down
+}
+
+const NO_RETRY: RetryPolicy = { maxAttempts: 1, baseDelayMs: 0, maxDelayMs: 0, switchKey: false };
+
+export const RETRY_POLICIES: Record<TtsErrorCode, RetryPolicy> = {
+  config: NO_RETRY,
+  auth: NO_RETRY,
+  safety: NO_RETRY,
+  'invalid-request': NO_RETRY,
+  quota: { maxAttempts: 4, baseDelayMs: 5000, maxDelayMs: 60000, switchKey: true },
+  network: { maxAttempts: 4, baseDelayMs: 1000, maxDelayMs: 15000, switchKey: false },
+  server: { maxAttempts: 3, baseDelayMs: 2000, maxDelayMs: 20000, switchKey: false },
+  unknown: { maxAttempts: 2, baseDelayMs: 1000, maxDelayMs: 5000, switchKey: false },
+};
+
+export const getRetryPolicy = (error: unknown): RetryPolicy =>
+  error instanceof TtsError && !error.retryable ? NO_RETRY : RETRY_POLICIES[getErrorCode(error)];
+
+/**
+ * Delay before retry number `attempt` (1 for the first retry).
+ */
+export const getRetryDelayMs = (policy: RetryPolicy, attempt: number, random = Math.random): number =>
+  Math.round(random() * Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** (attempt - 1)));
@@ -0,0 +1,385 @@
+import { ApiKeyEntry, ProjectPriority, SchedulerSettings } from "../types";
+import { getKeyHealth, pickKey, nextAvailableAt } from "./keyPool";
+import { TtsConfigurationError, TtsQuotaError } from "./ttsProvider";
+import { getRetryPolicy, getRetryDelayMs } from "./retryPolicy";
+
+/**
+ * App-wide generation scheduler. Every project submits its segments here;
+ * requests start in project priority order, within the global and per-key
+ * concurrency limits and each key's requests-per-minute budget. After a
+ * rate-limit error the concurrency limit is halved, then raised again one
+ * step at a time once requests succeed. Failed requests are queued again
+ * according to their error class's retry policy.
+ */
+
+export interface GenerationJob {
+  id: string;
+  projectId: string;
+  providerId: string;
+  requiresApiKey: boolean;
+  // Rejects when the request failed; the scheduler decides whether to retry
+  run: (apiKey: string | undefined) => Promise<void>;
+  onRetry?: (error: unknown, attempt: number, delayMs: number) => void;
+  // Failed for good: not retryable, out of attempts, or no key can run it
+  onFail: (error: unknown) => void;
+  // Removed from the queue by cancel() before it started
+  onCancel: () => void;
+}
+
+export interface ScheduledProject {
+  projectId: string;
+  priority: ProjectPriority;
+  paused: boolean;
+  queued: number;
+  running: number;
+}
+
+export interface SchedulerSnapshot {
+  settings: SchedulerSettings;
+  concurrencyLimit: number; // Current limit, below the setting after rate limits
+  running: number;
+  projects: ScheduledProject[]; // In run order
+}
+
+export interface GenerationScheduler {
+  submit: (projectId: string, jobs: GenerationJob[]) => Promise<void>;
+  cancel: (projectId: string) => void;
+  setPaused: (projectId: string, paused: boolean) => void;
+  setPriority: (projectId: string, priority: ProjectPriority) => void;
+  moveProject: (projectId: string, direction: -1 | 1) => void;
+  setProjects: (projectIds: string[]) => void;
+  updateSettings: (settings: SchedulerSettings) => void;
+  refresh: () => void; // Re-check keys, e.g. after the pool changed
+  subscribe: (listener: () => void) => () => void;
+  getSnapshot: () => SchedulerSnapshot;
+}
+
+export const DEFAULT_SCHEDULER_SETTINGS: SchedulerSettings = {
+  maxConcurrent: 2,
+  perKeyConcurrent: 2,
+  requestsPerMinute: 0,
+  adaptive: true,
+};
+
+export const PRIORITY_LABELS: Record<ProjectPriority, string> = {
+  high: 'High',
+  normal: 'Normal',
+  low: 'Low',
+};
+
+const PRIORITY_RANK: Record<ProjectPriority, number> = { high: 0, normal: 1, low: 2 };
+
+const SCHEDULER_SETTINGS_KEY = 'scheduler_settings';
+const RATE_WINDOW_MS = 60_000;
+// Quiet time after a rate limit before concurrency is raised again
+const RECOVERY_MS = 30_000;
+// Bucket for requests made without a pool key (environment key or no key)
+const DEFAULT_BUCKET = '';
+
+export const loadSchedulerSettings = (): SchedulerSettings => {
+  try {
+    return { ...DEFAULT_SCHEDULER_SETTINGS, ...JSON.parse(localStorage.getItem(SCHEDULER_SETTINGS_KEY) || '{}') };
+  } catch (e) {
+    return DEFAULT_SCHEDULER_SETTINGS;
+  }
+};
+
+export const saveSchedulerSettings = (settings: SchedulerSettings) => {
+  localStorage.setItem(SCHEDULER_SETTINGS_KEY, JSON.stringify(settings));
+};
+
+export const isRateLimitError = (error: unknown): boolean => error instanceof TtsQuotaError;
+
+interface QueuedJob {
+  job: GenerationJob;
+  attempts: number; // Made so far
+  notBefore: number; // Retry backoff
+}
+
+interface ProjectQueue {
+  priority: ProjectPriority;
+  paused: boolean;
+  jobs: QueuedJob[];
+  running: number;
+  waiters: (() => void)[];
+}
+
+export const createGenerationScheduler = (
+  getKeys: () => ApiKeyEntry[],
+  initialSettings: SchedulerSettings = DEFAULT_SCHEDULER_SETTINGS
+): GenerationScheduler => {
+  let settings = initialSettings;
+  let concurrencyLimit = settings.maxConcurrent;
+  let running = 0;
+  let lastRateLimitAt = 0;
+  let successStreak = 0;
+  let order: string[] = [];
+  const queues = new Map<string, ProjectQueue>();
+  const inFlight: Record<string, number> = {};
+  const recentStarts: Record<string, number[]> = {};
+  const listeners = new Set<() => void>();
+  let wakeTimer: ReturnType<typeof setTimeout> | undefined;
+  let wakeAt = Infinity;
+  let snapshot: SchedulerSnapshot;
+
+  const getQueue = (projectId: string): ProjectQueue => {
+    let queue = queues.get(projectId);
+    if (!queue) {
+      queue = { priority: 'normal', paused: false, jobs: [], running: 0, waiters: [] };
+      queues.set(projectId, queue);
+      order.push(projectId);
+    }
+    return queue;
+  };
+
+  const runOrder = () => order
+    .map((projectId, index) => ({ projectId, index, queue: queues.get(projectId)! }))
+    .sort((a, b) => PRIORITY_RANK[a.queue.priority] - PRIORITY_RANK[b.queue.priority] || a.index - b.index);
+
+  const buildSnapshot = (): SchedulerSnapshot => ({
+    settings,
+    concurrencyLimit,
+    running,
+    projects: runOrder().map(({ projectId, queue }) => ({
+      projectId,
+      priority: queue.priority,
+      paused: queue.paused,
+      queued: queue.jobs.length,
+      running: queue.running,
+    })),
+  });
+  snapshot = buildSnapshot();
+
+  const emit = () => {
+    snapshot = buildSnapshot();
+    listeners.forEach(listener => listener());
+  };
+
+  const settleAfter = (queue: ProjectQueue, callback: () => void) => {
+    callback();
+    settleIfIdle(queue);
+  };
+
+  const settleIfIdle = (queue: ProjectQueue) => {
+    if (queue.jobs.length > 0 || queue.running > 0) return;
+    const waiters = queue.waiters;
+    queue.waiters = [];
+    waiters.forEach(resolve => resolve());
+  };
+
+  // Starts within the last minute for a key; older entries are dropped
+  const startsInWindow = (bucket: string, now: number) => {
+    const starts = (recentStarts[bucket] || []).filter(t => now - t < RATE_WINDOW_MS);
+    recentStarts[bucket] = starts;
+    return starts;
+  };
+
+  const hasCapacity = (bucket: string, now: number) =>
+    (inFlight[bucket] || 0) < settings.perKeyConcurrent
+    && (settings.requestsPerMinute <= 0 || startsInWindow(bucket, now).length < settings.requestsPerMinute);
+
+  // When a key that is full only because of its minute budget frees up
+  const nextWindowOpening = (buckets: string[], now: number): number | undefined => {
+    if (settings.requestsPerMinute <= 0) return undefined;
+    const openings = buckets
+      .filter(bucket => (inFlight[bucket] || 0) < settings.perKeyConcurrent)
+      .map(bucket => startsInWindow(bucket, now))
+      .filter(starts => starts.length >= settings.requestsPerMinute)
+      .map(starts => starts[starts.length - settings.requestsPerMinute] + RATE_WINDOW_MS);
+    return openings.length > 0 ? Math.min(...openings) : undefined;
+  };
+
+  const scheduleWake = (at: number | undefined, now: number) => {
+    if (at === undefined || at >= wakeAt) return;
+    clearTimeout(wakeTimer);
+    wakeAt = at;
+    wakeTimer = setTimeout(pump, Math.max(50, at - now));
+  };
+
+  // First job of the first unpaused, unblocked project that has one ready to start
+  const nextJob = (now: number, blocked: Set<string>): QueuedJob | undefined => {
+    for (const { projectId, queue } of runOrder()) {
+      if (queue.paused || blocked.has(projectId)) continue;
+      const ready = queue.jobs.find(entry => entry.notBefore <= now);
+      if (ready) return ready;
+      scheduleWake(Math.min(...queue.jobs.map(entry => entry.notBefore)), now);
+    }
+    return undefined;
+  };
+
+  const dequeue = (entry: QueuedJob) => {
+    const queue = getQueue(entry.job.projectId);
+    queue.jobs = queue.jobs.filter(e => e !== entry);
+    return queue;
+  };
+
+  const start = (entry: QueuedJob, apiKey: string | undefined, now: number) => {
+    const { job } = entry;
+    const queue = dequeue(entry);
+    const bucket = apiKey ?? DEFAULT_BUCKET;
+    queue.running++;
+    running++;
+    inFlight[bucket] = (inFlight[bucket] || 0) + 1;
+    startsInWindow(bucket, now).push(now);
+
+    job.run(apiKey)
+      .then(() => {
+        successStreak++;
+        if (settings.adaptive && concurrencyLimit < settings.maxConcurrent
+          && successStreak >= concurrencyLimit && Date.now() - lastRateLimitAt > RECOVERY_MS) {
+          concurrencyLimit++;
+          successStreak = 0;
+        }
+      }, (error) => {
+        if (settings.adaptive && isRateLimitError(error)) {
+          concurrencyLimit = Math.max(1, Math.floor(concurrencyLimit / 2));
+          lastRateLimitAt = Date.now();
+          successStreak = 0;
+        }
+
+        const policy = getRetryPolicy(error);
+        const attempts = entry.attempts + 1;
+        if (attempts >= policy.maxAttempts || queues.get(job.projectId) !== queue) {
+          job.onFail(error);
+          return;
+        }
+        // A pool key that hit its quota is cooling down, so the retry lands on another key
+        const delayMs = policy.switchKey && apiKey !== undefined ? 0 : getRetryDelayMs(policy, attempts);
+        queue.jobs.unshift({ job, attempts, notBefore: Date.now() + delayMs });
+        job.onRetry?.(error, attempts, delayMs);
+      })
+      .finally(() => {
+        queue.running--;
+        running--;
+        inFlight[bucket]--;
+        settleIfIdle(queue);
+        pump();
+      });
+  };
+
+  function pump() {
+    clearTimeout(wakeTimer);
+    wakeTimer = undefined;
+    wakeAt = Infinity;
+    const now = Date.now();
+    // Projects whose next job is waiting for a key; later projects may still start
+    const blocked = new Set<string>();
+
+    while (running < concurrencyLimit) {
+      const entry = nextJob(now, blocked);
+      if (!entry) break;
+      const { job } = entry;
+
+      const keys = job.requiresApiKey ? getKeys() : [];
+      if (keys.length === 0) {
+        // No pool: requests share one bucket and use the environment key, if any
+        if (job.requiresApiKey && !hasCapacity(DEFAULT_BUCKET, now)) {
+          scheduleWake(nextWindowOpening([DEFAULT_BUCKET], now), now);
+          blocked.add(job.projectId);
+          continue;
+        }
+        start(entry, undefined, now);
+        continue;
+      }
+
+      const apiKey = pickKey(keys.filter(e => hasCapacity(e.key, now)), inFlight, now);
+      if (apiKey) {
+        start(entry, apiKey, now);
+        continue;
+      }
+
+      const cooldownEnds = nextAvailableAt(keys, now);
+      const usable = keys.filter(e => getKeyHealth(e, now) === 'healthy');
+      if (usable.length === 0 && cooldownEnds === undefined) {
+        // Every key is disabled or invalid; waiting will not help
+        settleAfter(dequeue(entry), () => job.onFail(new TtsConfigurationError(job.providerId, "All API keys are disabled or invalid. Check them in Settings (Gear Icon).")));
+        continue;
+      }
+
+      const windowOpens = nextWindowOpening(usable.map(e => e.key), now);
+      const wakeAt = [cooldownEnds, windowOpens].filter((t): t is number => t !== undefined);
+      scheduleWake(wakeAt.length > 0 ? Math.min(...wakeAt) : undefined, now);
+      blocked.add(job.projectId);
+    }
+
+    emit();
+  }
+
+  return {
+    submit: (projectId, jobs) => {
+      const queue = getQueue(projectId);
+      queue.jobs.push(...jobs.map(job => ({ job, attempts: 0, notBefore: 0 })));
+      const done = new Promise<void>(resolve => queue.waiters.push(resolve));
+      settleIfIdle(queue);
+      pump();
+      return done;
+    },
+
+    cancel: (projectId) => {
+      const queue = queues.get(projectId);
+      if (!queue) return;
+      const cancelled = queue.jobs;
+      queue.jobs = [];
+      cancelled.forEach(entry => entry.job.onCancel());
+      settleIfIdle(queue);
+      pump();
+    },
+
+    setPaused: (projectId, paused) => {
+      getQueue(projectId).paused = paused;
+      pump();
+    },
+
+    setPriority: (projectId, priority) => {
+      getQueue(projectId).priority = priority;
+      pump();
+    },
+
+    // Moves a project past its neighbour in run order, taking that neighbour's priority
+    moveProject: (projectId, direction) => {
+      const ordered = runOrder();
+      const index = ordered.findIndex(p => p.projectId === projectId);
+      const neighbour = ordered[index + direction];
+      if (index === -1 || !neighbour) return;
+
+      const queue = getQueue(projectId);
+      queue.priority = neighbour.queue.priority;
+      const ids = ordered.map(p => p.projectId);
+      [ids[index], ids[index + direction]] = [ids[index + direction], ids[index]];
+      order = ids;
+      pump();
+    },
+
+    // Registers open projects; work of closed projects is cancelled
+    setProjects: (projectIds) => {
+      projectIds.forEach(getQueue);
+      for (const projectId of [...order]) {
+        if (projectIds.includes(projectId)) continue;
+        const queue = queues.get(projectId)!;
+        queue.jobs.forEach(entry => entry.job.onCancel());
+        queue.jobs = [];
+        settleIfIdle(queue);
+        queues.delete(projectId);
+        order = order.filter(id => id !== projectId);
+      }
+      pump();
+    },
+
+    updateSettings: (next) => {
+      settings = next;
+      // Keep a reduced limit only while the last rate limit is recent
+      const recovering = settings.adaptive && Date.now() - lastRateLimitAt < RECOVERY_MS;
+      concurrencyLimit = recovering ? Math.min(concurrencyLimit, settings.maxConcurrent) : settings.maxConcurrent;
+      pump();
+    },
+
+    refresh: () => pump(),
+
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => { listeners.delete(listener); };
+    },
+
+    getSnapshot: () => snapshot,
+  };
+};
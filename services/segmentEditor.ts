@@ -0,0 +1,110 @@
+import { AudioSegment, SegmentStatus } from "../types";
+
+/**
+ * Pure list operations behind the segment editor. Each returns a new array;
+ * segments whose text changes lose their audio and go back to IDLE.
+ */
+
+// Segment text changed, so previous audio and its analysis no longer apply
+const resetAudio = (segment: AudioSegment, text: string): AudioSegment => ({
+  ...segment,
+  text,
+  status: SegmentStatus.IDLE,
+  audioUrl: undefined,
+  error: undefined,
+  errorCode: undefined,
+  spokenText: undefined,
+  duration: undefined,
+  silence: undefined,
+  cached: undefined,
+  takes: undefined,
+  chosenTakeId: undefined,
+  edit: undefined,
+});
+
+/**
+ * Segments that are being generated cannot be edited: the in-flight result
+ * would overwrite the new text's state.
+ */
+export const isEditable = (segment: AudioSegment): boolean => segment.status !== SegmentStatus.PROCESSING;
+
+export const editSegmentText = (segments: AudioSegment[], id: string, text: string): AudioSegment[] => {
+  const trimmed = text.trim();
+  return segments.map(s => s.id === id && trimmed && trimmed !== s.text ? resetAudio(s, trimmed) : s);
+};
+
+/**
+ * Splits a segment's text at `offset`. The first part keeps the id; the
+ * second part takes the original boundary and pause, since it now ends where
+ * the original did; a chapter still starts at the first. Returns the list unchanged if either part would be empty.
+ */
+export const splitSegment = (
+  segments: AudioSegment[],
+  id: string,
+  text: string,
+  offset: number,
+  newId: string
+): AudioSegment[] => {
+  const index = segments.findIndex(s => s.id === id);
+  if (index === -1) return segments;
+
+  const before = text.slice(0, offset).trim();
+  const after = text.slice(offset).trim();
+  if (!before || !after) return segments;
+
+  const original = segments[index];
+  const first: AudioSegment = { ...resetAudio(original, before), boundary: undefined, pauseAfterMs: undefined, isSelected: false };
+  const second: AudioSegment = { ...resetAudio(original, after), id: newId, isSelected: false, chapterTitle: undefined };
+
+  return [...segments.slice(0, index), first, second, ...segments.slice(index + 1)];
+};
+
+/**
+ * Whether the segment at `index` can be joined with the one after it.
+ * Segments of different speakers, or across a chapter start, are never joined.
+ */
+export const canJoinWithNext = (segments: AudioSegment[], index: number): boolean => {
+  const current = segments[index];
+  const next = segments[index + 1];
+  return !!current && !!next && isEditable(current) && isEditable(next) && current.speaker === next.speaker
+    && next.chapterTitle === undefined;
+};
+
+/**
+ * Joins a segment with the next one. The result keeps the first segment's id,
+ * volume and overrides and the second's boundary and pause.
+ */
+export const joinWithNext = (segments: AudioSegment[], id: string): AudioSegment[] => {
+  const index = segments.findIndex(s => s.id === id);
+  if (!canJoinWithNext(segments, index)) return segments;
+
+  const current = segments[index];
+  const next = segments[index + 1];
+  const joined: AudioSegment = {
+    ...resetAudio(current, `${current.text} ${next.text}`),
+    boundary: next.boundary,
+    pauseAfterMs: next.pauseAfterMs,
+  };
+
+  return [...segments.slice(0, index), joined, ...segments.slice(index + 2)];
+};
+
+export const insertSegments = (segments: AudioSegment[], index: number, inserted: AudioSegment[]): AudioSegment[] => {
+  const at = Math.max(0, Math.min(index, segments.length));
+  return [...segments.slice(0, at), ...inserted, ...segments.slice(at)];
+};
+
+/**
+ * Moves a segment so it ends up at `toIndex` in the resulting list.
+ */
+export const moveSegment = (segments: AudioSegment[], id: string, toIndex: number): AudioSegment[] => {
+  const from = segments.findIndex(s => s.id === id);
+  if (from === -1) return segments;
+  const to = Math.max(0, Math.min(toIndex, segments.length - 1));
+  if (from === to) return segments;
+
+  const result = [...segments];
+  const [moved] = result.splice(from, 1);
+  result.splice(to, 0, moved);
+  return result;
+};
@@ -0,0 +1,261 @@
+import { ChunkBoundary } from "../types";
+
+/**
+ * Bengali-aware text segmenter.
+ *
+ * Text is split into paragraphs (blank lines), paragraphs into sentences, and
+ * sentences are packed into chunks no longer than `maxChunkLength`. Chunks never
+ * span a paragraph break. A sentence that is too long on its own is split at
+ * clause punctuation, then before a conjunction, then at whitespace. Every
+ * chunk records why it ended so the split can be reviewed. A paragraph whose
+ * first line starts with `#` and a space opens with a heading: that line becomes
+ * its own paragraph and its chunks are marked.
+ */
+
+// Maximum characters per chunk (approx 1.5 mins of speech depending on speed)
+export const DEFAULT_MAX_CHUNK_LENGTH = 1000;
+export const MIN_CHUNK_LENGTH = 100;
+
+export interface TextChunk {
+  text: string;
+  boundary: ChunkBoundary;
+  heading?: boolean;
+}
+
+export interface SegmenterOptions {
+  maxChunkLength?: number;
+}
+
+const SENTENCE_TERMINATORS = new Set(['।', '॥', '?', '!', '.', '？', '！']);
+const CLOSING_TRAILERS = new Set(['"', '”', '’', '»', ')', ']', '}', '\'']);
+const OPEN_QUOTES: Record<string, string> = { '“': '”', '‘': '’', '«': '»' };
+const CLAUSE_PUNCTUATION = /[,;:،—–]/;
+
+// Words that end with a full stop but do not end a sentence
+const ABBREVIATIONS = new Set([
+  'ড', 'ডা', 'মো', 'মোঃ', 'মু', 'মোসা', 'মোছা', 'সৈ', 'শ্রী', 'প্রফে', 'অধ্যা', 'সং', 'পৃ', 'খ্রি', 'খ্রিঃ',
+  'dr', 'mr', 'mrs', 'ms', 'prof', 'st', 'jr', 'sr', 'vs', 'etc', 'e.g', 'i.e',
+]);
+
+// A single initial: one letter with its vowel signs/conjuncts, e.g. "এ", "কে", "A"
+const INITIAL = /^[^\s.]{1,3}$/;
+
+const CONJUNCTIONS = ['এবং', 'কিন্তু', 'অথবা', 'কিংবা', 'তবে', 'তবু', 'যদিও', 'কারণ', 'সুতরাং', 'তাই', 'অতএব', 'বরং', 'নাকি', 'ফলে', 'যেহেতু'];
+
+const isDigit = (ch: string | undefined) => !!ch && /[0-9০-৯]/.test(ch);
+
+/**
+ * Marks a heading, e.g. "# Chapter One". It only counts at the start of a
+ * paragraph (after a blank line); a `#` anywhere else is read as written.
+ */
+export const HEADING_MARK = '# ';
+const HEADING_LINE = /^#{1,6}[ \t]+/;
+
+interface Paragraph {
+  text: string;
+  heading: boolean;
+}
+
+const splitParagraphs = (text: string): Paragraph[] =>
+  text
+    .replace(/\r\n?/g, '\n')
+    .split(/\n[ \t]*\n+/)
+    .map(block => block.trim())
+    .flatMap((block): Paragraph[] => {
+      if (!HEADING_LINE.test(block)) return [{ text: block, heading: false }];
+      // Lines after the heading line form a paragraph of their own
+      const lineEnd = block.indexOf('\n');
+      const title = lineEnd === -1 ? block : block.slice(0, lineEnd);
+      const rest = lineEnd === -1 ? '' : block.slice(lineEnd + 1);
+      return [{ text: title.replace(HEADING_LINE, ''), heading: true }, { text: rest, heading: false }];
+    })
+    .map(p => ({ ...p, text: p.text.replace(/\s+/g, ' ').trim() }))
+    .filter(p => p.text.length > 0);
+
+/**
+ * Returns true if the full stop at `index` belongs to an abbreviation,
+ * a decimal number or an ellipsis rather than ending the sentence.
+ */
+const isNonTerminalPeriod = (text: string, index: number): boolean => {
+  if (isDigit(text[index - 1]) && isDigit(text[index + 1])) return true;
+  if (text[index - 1] === '.' || text[index + 1] === '.') return true;
+
+  const wordStart = text.lastIndexOf(' ', index - 1) + 1;
+  const word = text.slice(wordStart, index).replace(/^["“‘'(]+/, '').toLowerCase();
+  if (ABBREVIATIONS.has(word)) return true;
+
+  // Initials: "এ.কে. ফজলুল", "এ. কে. ফজলুল", "A.K."
+  if (word.includes('.') && word.split('.').every(part => INITIAL.test(part))) return true;
+  if (INITIAL.test(word)) {
+    const next = text.slice(index + 1).trimStart();
+    if (/^[^\s.]{1,3}\./.test(next)) return true;
+    const previousWord = text.slice(0, wordStart).trimEnd().split(' ').pop() || '';
+    if (/^[^\s.]{1,3}\.$/.test(previousWord)) return true;
+  }
+  return false;
+};
+
+/**
+ * Splits a paragraph into sentences. Terminators inside quotes do not end a
+ * sentence; the sentence ends after the closing quote instead.
+ */
+export const splitSentences = (paragraph: string): string[] => {
+  const sentences: string[] = [];
+  const quoteStack: string[] = [];
+  let straightQuoteOpen = false;
+  let start = 0;
+
+  for (let i = 0; i < paragraph.length; i++) {
+    const ch = paragraph[i];
+
+    if (OPEN_QUOTES[ch]) {
+      quoteStack.push(OPEN_QUOTES[ch]);
+      continue;
+    }
+    if (quoteStack.length > 0 && ch === quoteStack[quoteStack.length - 1]) {
+      quoteStack.pop();
+      continue;
+    }
+    if (ch === '"') {
+      straightQuoteOpen = !straightQuoteOpen;
+      continue;
+    }
+
+    if (!SENTENCE_TERMINATORS.has(ch)) continue;
+    if (ch === '.' && isNonTerminalPeriod(paragraph, i)) continue;
+
+    // Swallow repeated terminators ("?!", "।।") and closing quotes/brackets
+    let end = i + 1;
+    while (end < paragraph.length && (SENTENCE_TERMINATORS.has(paragraph[end]) || CLOSING_TRAILERS.has(paragraph[end]))) {
+      const trailer = paragraph[end];
+      if (quoteStack.length > 0 && trailer === quoteStack[quoteStack.length - 1]) quoteStack.pop();
+      else if (trailer === '"') straightQuoteOpen = !straightQuoteOpen;
+      end++;
+    }
+    i = end - 1;
+
+    if (quoteStack.length > 0 || straightQuoteOpen) continue;
+
+    const sentence = paragraph.slice(start, end).trim();
+    if (sentence) sentences.push(sentence);
+    start = end;
+  }
+
+  const rest = paragraph.slice(start).trim();
+  if (rest) sentences.push(rest);
+  return sentences;
+};
+
+/**
+ * Finds where to cut an over-long sentence so the head is at most `max` characters.
+ */
+const findClauseCut = (sentence: string, max: number): { index: number; boundary: ChunkBoundary } => {
+  const minHead = Math.floor(max * 0.3);
+  const window = sentence.slice(0, max + 1);
+
+  // Positions inside quotes are only used if nothing outside them fits
+  const insideQuote: boolean[] = [];
+  let depth = 0;
+  for (let i = 0; i < window.length; i++) {
+    const ch = window[i];
+    if (OPEN_QUOTES[ch]) depth++;
+    else if ((ch === '”' || ch === '’' || ch === '»') && depth > 0) depth--;
+    insideQuote[i] = depth > 0;
+  }
+
+  const clauseCuts: number[] = [];
+  const conjunctionCuts: number[] = [];
+  const spaceCuts: number[] = [];
+
+  for (let i = 1; i < window.length; i++) {
+    if (window[i] !== ' ') continue;
+    if (CLAUSE_PUNCTUATION.test(window[i - 1])) clauseCuts.push(i);
+    const nextWord = sentence.slice(i + 1).split(/[\s,]/, 1)[0];
+    if (CONJUNCTIONS.includes(nextWord)) conjunctionCuts.push(i);
+    spaceCuts.push(i);
+  }
+
+  const pick = (cuts: number[], allowQuoted: boolean) =>
+    cuts.filter(c => c >= minHead && c <= max && (allowQuoted || !insideQuote[c])).pop();
+
+  for (const allowQuoted of [false, true]) {
+    const clause = pick(clauseCuts, allowQuoted);
+    if (clause !== undefined) return { index: clause, boundary: 'clause' };
+    const conjunction = pick(conjunctionCuts, allowQuoted);
+    if (conjunction !== undefined) return { index: conjunction, boundary: 'conjunction' };
+  }
+
+  const space = spaceCuts.filter(c => c <= max && !insideQuote[c]).pop() ?? spaceCuts.filter(c => c <= max).pop();
+  if (space !== undefined && space > 0) return { index: space, boundary: 'whitespace' };
+
+  return { index: max, boundary: 'hard' };
+};
+
+/**
+ * Cuts a sentence longer than `max` into pieces at clauses, conjunctions or whitespace.
+ */
+export const splitLongSentence = (sentence: string, max: number): TextChunk[] => {
+  const pieces: TextChunk[] = [];
+  let rest = sentence;
+  while (rest.length > max) {
+    const { index, boundary } = findClauseCut(rest, max);
+    pieces.push({ text: rest.slice(0, index).trim(), boundary });
+    rest = rest.slice(index).trim();
+  }
+  if (rest) pieces.push({ text: rest, boundary: 'sentence' });
+  return pieces;
+};
+
+/**
+ * Splits text into TTS-sized chunks. The last chunk of each paragraph has
+ * boundary 'paragraph'.
+ */
+export const segmentText = (text: string, options: SegmenterOptions = {}): TextChunk[] => {
+  const max = Math.max(MIN_CHUNK_LENGTH, options.maxChunkLength ?? DEFAULT_MAX_CHUNK_LENGTH);
+  const chunks: TextChunk[] = [];
+
+  for (const { text: paragraph, heading } of splitParagraphs(text)) {
+    const paragraphChunks: TextChunk[] = [];
+    let current = '';
+
+    const flush = (boundary: ChunkBoundary) => {
+      if (current) paragraphChunks.push({ text: current, boundary });
+      current = '';
+    };
+
+    for (const sentence of splitSentences(paragraph)) {
+      if (sentence.length > max) {
+        flush('sentence');
+        const pieces = splitLongSentence(sentence, max);
+        // The tail of a split sentence can still share a chunk with what follows
+        const tail = pieces.pop()!;
+        paragraphChunks.push(...pieces);
+        current = tail.text;
+        continue;
+      }
+
+      if (current && current.length + 1 + sentence.length > max) {
+        flush('sentence');
+      }
+      current += (current ? ' ' : '') + sentence;
+    }
+    flush('sentence');
+
+    if (paragraphChunks.length > 0) {
+      paragraphChunks[paragraphChunks.length - 1].boundary = 'paragraph';
+    }
+    if (heading) paragraphChunks.forEach(chunk => { chunk.heading = true; });
+    chunks.push(...paragraphChunks);
+  }
+
+  return chunks;
+};
+
+export const BOUNDARY_LABELS: Record<ChunkBoundary, string> = {
+  paragraph: 'Paragraph end',
+  sentence: 'Sentence end',
+  clause: 'Clause (punctuation)',
+  conjunction: 'Before conjunction',
+  whitespace: 'Word break (no clause found)',
+  hard: 'Forced cut (no break found)',
+};
@@ -0,0 +1,112 @@
+import { AudioSegment, ExportSettings, SilenceAnalysis } from "../types";
+import { getEditedDuration } from "./audioEdit";
+
+/**
+ * Leading/trailing silence detection and the fades used where segments join.
+ * Trimming keeps a fixed head and tail of silence so every clip starts and
+ * ends the same way regardless of how the TTS engine padded it.
+ */
+
+// Window used to decide whether audio is above the threshold
+const DETECTION_WINDOW_SECONDS = 0.01;
+
+/**
+ * Measures how much silence (below `thresholdDb` dBFS) a clip starts and ends with.
+ */
+export const analyzeSilence = (samples: Int16Array | Float32Array, sampleRate: number, thresholdDb: number): SilenceAnalysis => {
+  const scale = samples instanceof Int16Array ? 1 / 32768 : 1;
+  const threshold = Math.pow(10, thresholdDb / 20);
+  const windowLength = Math.max(1, Math.round(DETECTION_WINDOW_SECONDS * sampleRate));
+  const windows = Math.ceil(samples.length / windowLength);
+
+  const isLoud = (w: number) => {
+    const start = w * windowLength;
+    const end = Math.min(samples.length, start + windowLength);
+    let sum = 0;
+    for (let i = start; i < end; i++) {
+      const v = samples[i] * scale;
+      sum += v * v;
+    }
+    return Math.sqrt(sum / (end - start)) >= threshold;
+  };
+
+  let first = 0;
+  while (first < windows && !isLoud(first)) first++;
+  if (first === windows) {
+    // Entirely silent: treat it all as leading silence
+    return { thresholdDb, leadingSeconds: samples.length / sampleRate, trailingSeconds: 0 };
+  }
+
+  let last = windows - 1;
+  while (last > first && !isLoud(last)) last--;
+
+  return {
+    thresholdDb,
+    leadingSeconds: (first * windowLength) / sampleRate,
+    trailingSeconds: Math.max(0, samples.length - (last + 1) * windowLength) / sampleRate,
+  };
+};
+
+/**
+ * Sample range to keep once silence beyond the configured head/tail is removed.
+ */
+export const getTrimRange = (
+  length: number,
+  sampleRate: number,
+  analysis: SilenceAnalysis,
+  settings: ExportSettings
+): { start: number; end: number } => {
+  if (!settings.trimSilence) return { start: 0, end: length };
+  const start = Math.max(0, Math.round((analysis.leadingSeconds - settings.trimHeadMs / 1000) * sampleRate));
+  const end = Math.min(length, length - Math.round((analysis.trailingSeconds - settings.trimTailMs / 1000) * sampleRate));
+  return end > start ? { start, end } : { start: 0, end: 0 };
+};
+
+/**
+ * A segment's length in the export: its edited length, further trimmed when
+ * trimming is on and the clip has been analyzed at the current threshold.
+ */
+export const getEffectiveDuration = (segment: AudioSegment, settings: ExportSettings): number => {
+  const duration = getEditedDuration(segment.duration || 0, segment.edit);
+  const analysis = segment.silence;
+  if (!settings.trimSilence || !analysis || analysis.thresholdDb !== settings.silenceThresholdDb) return duration;
+  const removed =
+    Math.max(0, analysis.leadingSeconds - settings.trimHeadMs / 1000) +
+    Math.max(0, analysis.trailingSeconds - settings.trimTailMs / 1000);
+  return Math.max(0, duration - removed);
+};
+
+/**
+ * Whether a segment still needs analysis for the current trim settings.
+ */
+export const needsSilenceAnalysis = (segment: AudioSegment, settings: ExportSettings): boolean =>
+  settings.trimSilence && segment.silence?.thresholdDb !== settings.silenceThresholdDb;
+
+/**
+ * Short linear fades so a clip never starts or stops mid-waveform. Works in place.
+ */
+export const applyDeclick = (samples: Float32Array, fadeLength: number, fadeIn = true, fadeOut = true): void => {
+  const length = Math.min(fadeLength, Math.floor(samples.length / 2));
+  for (let i = 0; i < length; i++) {
+    const g = i / length;
+    if (fadeIn) samples[i] *= g;
+    if (fadeOut) samples[samples.length - 1 - i] *= g;
+  }
+};
+
+/**
+ * Mixes `incoming` into `target` at `offset` with an equal-power crossfade over
+ * `overlap` samples. The tail of `target` before `offset + overlap` must already be written.
+ */
+export const mixWithCrossfade = (target: Float32Array, incoming: Float32Array, offset: number, overlap: number): void => {
+  for (let i = 0; i < incoming.length; i++) {
+    const index = offset + i;
+    if (index >= target.length) break;
+    if (i < overlap) {
+      const t = (i + 0.5) / overlap;
+      target[index] = target[index] * Math.cos(t * Math.PI / 2) + incoming[i] * Math.sin(t * Math.PI / 2);
+    } else {
+      target[index] = incoming[i];
+    }
+  }
+};
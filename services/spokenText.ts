@@ -0,0 +1,41 @@
+import { LexiconEntry } from "../types";
+import { applyLexicon } from "./lexicon";
+import { normalizeBengaliText, TextRewrite } from "./textNormalizer";
+
+export interface SpokenTextOptions {
+  normalize: boolean;
+  lexicon: LexiconEntry[];
+}
+
+export interface SpokenTextPreview {
+  text: string;
+  rewrites: (Omit<TextRewrite, 'kind'> & { kind: TextRewrite['kind'] | 'lexicon' })[];
+}
+
+/**
+ * Builds the text sent to TTS for a segment: the pronunciation lexicon first
+ * (so entries can target terms containing digits), then number normalization.
+ */
+export const previewSpokenText = (text: string, { normalize, lexicon }: SpokenTextOptions): SpokenTextPreview => {
+  const rewrites: SpokenTextPreview['rewrites'] = [];
+  let result = text;
+
+  if (lexicon.length > 0) {
+    const applied = applyLexicon(result, lexicon);
+    lexicon
+      .filter(entry => applied.hits[entry.id])
+      .forEach(entry => rewrites.push({ kind: 'lexicon', original: entry.term, spoken: entry.replacement }));
+    result = applied.text;
+  }
+
+  if (normalize) {
+    const normalized = normalizeBengaliText(result);
+    rewrites.push(...normalized.rewrites);
+    result = normalized.text;
+  }
+
+  return { text: result, rewrites };
+};
+
+export const buildSpokenText = (text: string, options: SpokenTextOptions): string =>
+  previewSpokenText(text, options).text;
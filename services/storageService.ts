@@ -0,0 +1,207 @@
+import { AudioSegment, MusicBedSettings, MusicTrack, ProjectState, SegmentStatus, SegmentTake } from "../types";
+import { DEFAULT_PROVIDER_ID } from "./providerRegistry";
+import { DEFAULT_MAX_CHUNK_LENGTH } from "./segmenter";
+import { DEFAULT_EXPORT_SETTINGS } from "./exportService";
+import { DEFAULT_MUSIC_BED } from "./musicBed";
+import { chooseTake } from "./takes";
+
+const DB_NAME = 'bangla-voice-tools';
+const DB_VERSION = 2;
+
+const PROJECTS_STORE = 'projects';
+const AUDIO_STORE = 'audio';
+const META_STORE = 'meta';
+export const CACHE_AUDIO_STORE = 'cacheAudio';
+export const CACHE_INDEX_STORE = 'cacheIndex';
+
+/**
+ * Project as written to disk. Runtime-only flags (processing, exporting, progress)
+ * and blob URLs are not stored; audio lives in its own store keyed by take,
+ * segment (from before takes were kept) or music track id.
+ */
+type StoredSegment = Omit<AudioSegment, 'audioUrl' | 'takes'> & { takes?: Omit<SegmentTake, 'audioUrl'>[] };
+
+interface StoredProject extends Omit<ProjectState, 'segments' | 'musicBed' | 'isProcessing' | 'isExporting' | 'progress'> {
+  segments: StoredSegment[];
+  musicBed?: Omit<MusicBedSettings, 'tracks'> & { tracks: Omit<MusicTrack, 'audioUrl'>[] };
+  order: number;
+}
+
+export interface RestoredWorkspace {
+  projects: ProjectState[];
+  activeProjectId: string | null;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(PROJECTS_STORE)) db.createObjectStore(PROJECTS_STORE, { keyPath: 'id' });
+        if (!db.objectStoreNames.contains(AUDIO_STORE)) db.createObjectStore(AUDIO_STORE);
+        if (!db.objectStoreNames.contains(META_STORE)) db.createObjectStore(META_STORE);
+        if (!db.objectStoreNames.contains(CACHE_AUDIO_STORE)) db.createObjectStore(CACHE_AUDIO_STORE);
+        if (!db.objectStoreNames.contains(CACHE_INDEX_STORE)) db.createObjectStore(CACHE_INDEX_STORE, { keyPath: 'hash' });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+export const promisify = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+export const transactionDone = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+
+export const isStorageAvailable = (): boolean => typeof indexedDB !== 'undefined';
+
+const toStoredProject = (project: ProjectState, order: number): StoredProject => {
+  const { isProcessing, isExporting, progress, segments, musicBed, ...rest } = project;
+  return {
+    ...rest,
+    order,
+    segments: segments.map(({ audioUrl, takes, ...segment }) => ({
+      ...segment,
+      takes: takes?.map(({ audioUrl, ...take }) => take),
+    })),
+    musicBed: { ...musicBed, tracks: musicBed.tracks.map(({ audioUrl, ...track }) => track) },
+  };
+};
+
+/**
+ * Loads all saved projects and re-creates blob URLs for their audio.
+ * Segments that were mid-generation when the page closed come back as QUEUED.
+ */
+export const loadWorkspace = async (): Promise<RestoredWorkspace | null> => {
+  if (!isStorageAvailable()) return null;
+
+  const db = await openDb();
+  const tx = db.transaction([PROJECTS_STORE, AUDIO_STORE, META_STORE], 'readonly');
+  const storedProjects = await promisify(tx.objectStore(PROJECTS_STORE).getAll()) as StoredProject[];
+  const activeProjectId = await promisify(tx.objectStore(META_STORE).get('activeProjectId')) as string | undefined;
+
+  if (storedProjects.length === 0) return null;
+
+  const audioStore = tx.objectStore(AUDIO_STORE);
+  const projects: ProjectState[] = [];
+
+  for (const { order, ...stored } of storedProjects.sort((a, b) => a.order - b.order)) {
+    const segments: AudioSegment[] = [];
+    for (const { takes: storedTakes, ...segment } of stored.segments) {
+      let restored: AudioSegment = { ...segment };
+      if (restored.status === SegmentStatus.PROCESSING) {
+        restored.status = SegmentStatus.QUEUED;
+      }
+      if (storedTakes) {
+        // Takes whose audio is gone are dropped
+        const takes: SegmentTake[] = [];
+        for (const take of storedTakes) {
+          const blob = await promisify(audioStore.get(take.id)) as Blob | undefined;
+          if (blob) takes.push({ ...take, audioUrl: URL.createObjectURL(blob) });
+        }
+        const chosen = takes.find(t => t.id === restored.chosenTakeId) ?? takes[takes.length - 1];
+        if (chosen) {
+          restored = chooseTake({ ...restored, takes }, chosen.id);
+        } else {
+          restored.chosenTakeId = undefined;
+          if (restored.status === SegmentStatus.COMPLETED) restored.status = SegmentStatus.QUEUED;
+        }
+      } else if (restored.status === SegmentStatus.COMPLETED) {
+        const blob = await promisify(audioStore.get(segment.id)) as Blob | undefined;
+        if (blob) {
+          restored.audioUrl = URL.createObjectURL(blob);
+        } else {
+          // Audio never made it to disk; generate it again
+          restored.status = SegmentStatus.QUEUED;
+        }
+      }
+      segments.push(restored);
+    }
+
+    // Music tracks whose file is gone are dropped
+    const tracks: MusicTrack[] = [];
+    for (const track of stored.musicBed?.tracks ?? []) {
+      const blob = await promisify(audioStore.get(track.id)) as Blob | undefined;
+      if (blob) tracks.push({ ...track, audioUrl: URL.createObjectURL(blob) });
+    }
+
+    projects.push({
+      ...stored,
+      providerId: stored.providerId || DEFAULT_PROVIDER_ID,
+      maxChunkLength: stored.maxChunkLength || DEFAULT_MAX_CHUNK_LENGTH,
+      normalizeText: stored.normalizeText ?? false,
+      lexicon: stored.lexicon || [],
+      globalLexiconIds: stored.globalLexiconIds || [],
+      exportSettings: { ...DEFAULT_EXPORT_SETTINGS, ...stored.exportSettings },
+      musicBed: { ...DEFAULT_MUSIC_BED, ...stored.musicBed, tracks },
+      dialogueMode: stored.dialogueMode ?? false,
+      speakers: stored.speakers || [],
+      segments,
+      isProcessing: false,
+      isExporting: false,
+      progress: { current: 0, total: 0 },
+    });
+  }
+
+  return { projects, activeProjectId: activeProjectId ?? null };
+};
+
+/**
+ * Writes the project list and active tab. Projects no longer open are removed.
+ */
+export const saveProjects = async (projects: ProjectState[], activeProjectId: string): Promise<void> => {
+  if (!isStorageAvailable()) return;
+
+  const db = await openDb();
+  const tx = db.transaction([PROJECTS_STORE, META_STORE], 'readwrite');
+  const store = tx.objectStore(PROJECTS_STORE);
+
+  const existingIds = await promisify(store.getAllKeys()) as string[];
+  const openIds = new Set(projects.map(p => p.id));
+  existingIds.filter(id => !openIds.has(id)).forEach(id => store.delete(id));
+
+  projects.forEach((project, index) => store.put(toStoredProject(project, index)));
+  tx.objectStore(META_STORE).put(activeProjectId, 'activeProjectId');
+
+  await transactionDone(tx);
+};
+
+/**
+ * Stores a segment's or music track's audio under its id.
+ */
+export const saveAudio = async (id: string, blob: Blob): Promise<void> => {
+  if (!isStorageAvailable()) return;
+  const db = await openDb();
+  const tx = db.transaction(AUDIO_STORE, 'readwrite');
+  tx.objectStore(AUDIO_STORE).put(blob, id);
+  await transactionDone(tx);
+};
+
+/**
+ * Deletes stored audio for every segment or track id not in `keepIds`.
+ */
+export const pruneAudio = async (keepIds: Set<string>): Promise<void> => {
+  if (!isStorageAvailable()) return;
+  const db = await openDb();
+  const tx = db.transaction(AUDIO_STORE, 'readwrite');
+  const store = tx.objectStore(AUDIO_STORE);
+  const storedIds = await promisify(store.getAllKeys()) as string[];
+  storedIds.filter(id => !keepIds.has(id)).forEach(id => store.delete(id));
+  await transactionDone(tx);
+};
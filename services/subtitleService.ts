@@ -0,0 +1,122 @@
+import { AudioSegment, SubtitleFormat } from "../types";
+import { TimelineEntry } from "./exportService";
+import { splitSentences, splitLongSentence } from "./segmenter";
+
+/**
+ * SRT / WebVTT captions aligned to the merged export. Times come from the
+ * export timeline, so gaps and per-segment pauses are already accounted for.
+ */
+
+// Two lines of roughly 42 characters, the usual broadcast limit
+const MAX_LINE_LENGTH = 42;
+const MAX_CAPTION_LENGTH = MAX_LINE_LENGTH * 2;
+
+export interface Caption {
+  index: number;
+  startSeconds: number;
+  endSeconds: number;
+  text: string; // May contain a single line break
+}
+
+export const SUBTITLE_FORMATS: Record<SubtitleFormat, { label: string; extension: string; mimeType: string }> = {
+  srt: { label: 'SRT', extension: '.srt', mimeType: 'application/x-subrip' },
+  vtt: { label: 'WebVTT', extension: '.vtt', mimeType: 'text/vtt' },
+};
+
+/**
+ * Breaks a segment's text into caption-sized pieces: whole sentences where
+ * they fit, packed together while short, long ones cut at clauses.
+ */
+export const splitCaptionText = (text: string): string[] => {
+  const pieces: string[] = [];
+  let current = '';
+
+  for (const paragraph of text.split(/\n\s*\n/)) {
+    for (const sentence of splitSentences(paragraph.replace(/\s+/g, ' ').trim())) {
+      const parts = sentence.length > MAX_CAPTION_LENGTH
+        ? splitLongSentence(sentence, MAX_CAPTION_LENGTH).map(p => p.text)
+        : [sentence];
+      for (const part of parts) {
+        if (current && current.length + 1 + part.length > MAX_CAPTION_LENGTH) {
+          pieces.push(current);
+          current = '';
+        }
+        current += (current ? ' ' : '') + part;
+      }
+    }
+    // Never carry a caption across a paragraph break
+    if (current) pieces.push(current);
+    current = '';
+  }
+
+  return pieces;
+};
+
+/**
+ * Wraps caption text onto at most two lines, breaking at the space closest to the middle.
+ */
+const wrapCaption = (text: string): string => {
+  if (text.length <= MAX_LINE_LENGTH) return text;
+  const middle = text.length / 2;
+  let best = -1;
+  for (let i = text.indexOf(' '); i !== -1; i = text.indexOf(' ', i + 1)) {
+    if (best === -1 || Math.abs(i - middle) < Math.abs(best - middle)) best = i;
+  }
+  return best === -1 ? text : `${text.slice(0, best)}\n${text.slice(best + 1)}`;
+};
+
+/**
+ * Builds captions for every segment on the timeline. A segment's duration is
+ * shared between its pieces in proportion to their length.
+ */
+export const buildCaptions = (segments: AudioSegment[], timeline: TimelineEntry[]): Caption[] => {
+  const byId = new Map(segments.map(s => [s.id, s]));
+  const captions: Caption[] = [];
+
+  for (const entry of timeline) {
+    const segment = byId.get(entry.segmentId);
+    if (!segment || entry.durationSeconds <= 0) continue;
+
+    const pieces = splitCaptionText(segment.text);
+    const totalLength = pieces.reduce((sum, p) => sum + p.length, 0);
+    let consumed = 0;
+
+    for (const piece of pieces) {
+      const startSeconds = entry.startSeconds + (consumed / totalLength) * entry.durationSeconds;
+      consumed += piece.length;
+      const endSeconds = entry.startSeconds + (consumed / totalLength) * entry.durationSeconds;
+      captions.push({ index: captions.length + 1, startSeconds, endSeconds, text: wrapCaption(piece) });
+    }
+  }
+
+  return captions;
+};
+
+export const formatTimestamp = (seconds: number, separator: ',' | '.'): string => {
+  const totalMs = Math.max(0, Math.round(seconds * 1000));
+  const h = Math.floor(totalMs / 3600000);
+  const m = Math.floor((totalMs % 3600000) / 60000);
+  const s = Math.floor((totalMs % 60000) / 1000);
+  const ms = totalMs % 1000;
+  const pad = (n: number, width = 2) => n.toString().padStart(width, '0');
+  return `${pad(h)}:${pad(m)}:${pad(s)}${separator}${pad(ms, 3)}`;
+};
+
+export const formatSrt = (captions: Caption[]): string =>
+  captions
+    .map(c => `${c.index}\n${formatTimestamp(c.startSeconds, ',')} --> ${formatTimestamp(c.endSeconds, ',')}\n${c.text}\n`)
+    .join('\n');
+
+export const formatVtt = (captions: Caption[]): string =>
+  'WEBVTT\n\n' + captions
+    .map(c => `${c.index}\n${formatTimestamp(c.startSeconds, '.')} --> ${formatTimestamp(c.endSeconds, '.')}\n${c.text}\n`)
+    .join('\n');
+
+/**
+ * Serializes captions and returns a blob URL ready for download.
+ */
+export const createSubtitleUrl = (captions: Caption[], format: SubtitleFormat): string => {
+  const body = format === 'srt' ? formatSrt(captions) : formatVtt(captions);
+  const blob = new Blob([body], { type: `${SUBTITLE_FORMATS[format].mimeType};charset=utf-8` });
+  return URL.createObjectURL(blob);
+};
@@ -0,0 +1,76 @@
+import { AudioSegment, SegmentTake } from "../types";
+
+/**
+ * Takes: every generation of a segment is kept, and the chosen one's audio is
+ * mirrored onto the segment so export and playback need not know about takes.
+ */
+
+export const MAX_TAKES = 10;
+export const MAX_TAKES_PER_RUN = 5;
+
+// Audio generated before takes were kept becomes the first take
+const getTakes = (segment: AudioSegment): SegmentTake[] => {
+  if (segment.takes) return segment.takes;
+  if (!segment.audioUrl) return [];
+  return [{
+    id: `${segment.id}-earlier`,
+    audioUrl: segment.audioUrl,
+    spokenText: segment.spokenText,
+    voice: '',
+    createdAt: 0,
+    duration: segment.duration,
+    silence: segment.silence,
+    cached: segment.cached,
+    edit: segment.edit,
+  }];
+};
+
+export const getChosenTake = (segment: AudioSegment): SegmentTake | undefined =>
+  segment.takes?.find(t => t.id === segment.chosenTakeId);
+
+const withChosen = (segment: AudioSegment, takes: SegmentTake[], take: SegmentTake): AudioSegment => ({
+  ...segment,
+  takes,
+  chosenTakeId: take.id,
+  audioUrl: take.audioUrl,
+  spokenText: take.spokenText,
+  duration: take.duration,
+  silence: take.silence,
+  cached: take.cached,
+  edit: take.edit,
+});
+
+/**
+ * Keeps a new take and chooses it. Past MAX_TAKES the oldest other take is
+ * dropped; dropped takes are returned so the caller can release their audio.
+ */
+export const addTake = (segment: AudioSegment, take: SegmentTake): { segment: AudioSegment; dropped: SegmentTake[] } => {
+  const takes = [...getTakes(segment), take];
+  const dropped: SegmentTake[] = [];
+  while (takes.length > MAX_TAKES) dropped.push(...takes.splice(takes.findIndex(t => t.id !== take.id), 1));
+  return { segment: withChosen(segment, takes, take), dropped };
+};
+
+export const chooseTake = (segment: AudioSegment, takeId: string): AudioSegment => {
+  const take = segment.takes?.find(t => t.id === takeId);
+  return take ? withChosen(segment, segment.takes!, take) : segment;
+};
+
+/**
+ * Removes a take other than the chosen one.
+ */
+export const deleteTake = (segment: AudioSegment, takeId: string): AudioSegment =>
+  takeId === segment.chosenTakeId || !segment.takes
+    ? segment
+    : { ...segment, takes: segment.takes.filter(t => t.id !== takeId) };
+
+/**
+ * Keeps the chosen take's copy of measurements made on the segment's audio.
+ */
+export const syncChosenTake = (segment: AudioSegment): AudioSegment =>
+  segment.takes && segment.chosenTakeId
+    ? {
+        ...segment,
+        takes: segment.takes.map(t => t.id === segment.chosenTakeId ? { ...t, duration: segment.duration, silence: segment.silence } : t),
+      }
+    : segment;
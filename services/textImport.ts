@@ -0,0 +1,276 @@
+import { SegmentTimecode } from "../types";
+import { readZip, decodeText, ZipEntry } from "./zipService";
+import { HEADING_MARK } from "./segmenter";
+
+/**
+ * Pulls narration text out of source documents in the browser. Headings are
+ * kept as `# Title` paragraphs, which the segmenter turns into heading
+ * segments; footnotes and markup are dropped. Subtitle files come back as
+ * cues instead, one per segment, with their original times.
+ */
+
+export interface SubtitleCue extends SegmentTimecode {
+  text: string;
+}
+
+export type ImportedSource =
+  | { kind: 'text'; text: string }
+  | { kind: 'cues'; cues: SubtitleCue[] };
+
+export const IMPORT_EXTENSIONS = ['.txt', '.docx', '.epub', '.srt'];
+
+interface Block {
+  text: string;
+  heading: boolean;
+}
+
+const WORD_NS = 'http://schemas.openxmlformats.org/wordprocessingml/2006/main';
+
+const collapseWhitespace = (text: string) => text.replace(/\s+/g, ' ').trim();
+
+const joinBlocks = (blocks: Block[]): string =>
+  blocks
+    .map(b => ({ ...b, text: collapseWhitespace(b.text) }))
+    .filter(b => b.text)
+    .map(b => b.heading ? `${HEADING_MARK}${b.text}` : b.text)
+    .join('\n\n');
+
+// Plain text files are UTF-8 unless they start with a UTF-16 byte order mark
+const decodeTextFile = (bytes: Uint8Array): string => {
+  if (bytes[0] === 0xFF && bytes[1] === 0xFE) return new TextDecoder('utf-16le').decode(bytes);
+  if (bytes[0] === 0xFE && bytes[1] === 0xFF) return new TextDecoder('utf-16be').decode(bytes);
+  return new TextDecoder().decode(bytes);
+};
+
+const parseXml = (text: string, type: DOMParserSupportedType = 'application/xml'): Document => {
+  const doc = new DOMParser().parseFromString(text, type);
+  if (doc.getElementsByTagName('parsererror').length > 0) {
+    throw new Error("The file contains malformed XML.");
+  }
+  return doc;
+};
+
+const findEntry = (entries: ZipEntry[], path: string): ZipEntry | undefined =>
+  entries.find(e => e.name === path) ?? entries.find(e => e.name.toLowerCase() === path.toLowerCase());
+
+// --- Word ---
+
+const getAttr = (element: Element | null | undefined, name: string): string | null =>
+  element ? element.getAttributeNS(WORD_NS, name) ?? element.getAttribute(`w:${name}`) : null;
+
+const firstChild = (element: Element | null | undefined, localName: string): Element | null =>
+  element ? Array.from(element.children).find(c => c.localName === localName) ?? null : null;
+
+/**
+ * Style ids that mark headings: the built-in "heading N" and "Title" styles
+ * (whatever the document's language calls them) and any style with an outline level.
+ */
+const readHeadingStyles = (entries: ZipEntry[]): Set<string> => {
+  const styles = new Set<string>();
+  const entry = findEntry(entries, 'word/styles.xml');
+  if (!entry) return styles;
+
+  for (const style of Array.from(parseXml(decodeText(entry.data)).getElementsByTagNameNS(WORD_NS, 'style'))) {
+    const id = getAttr(style, 'styleId');
+    const name = getAttr(firstChild(style, 'name'), 'val') ?? '';
+    const outline = firstChild(firstChild(style, 'pPr'), 'outlineLvl');
+    if (id && (/^(heading \d|title)$/i.test(name) || outline)) styles.add(id);
+  }
+  return styles;
+};
+
+// Text of one paragraph. Nested paragraphs (text boxes) are read on their own.
+const readWordParagraph = (paragraph: Element): string => {
+  let text = '';
+  const visit = (node: Element) => {
+    for (const child of Array.from(node.children)) {
+      switch (child.localName) {
+        case 't': text += child.textContent ?? ''; break;
+        case 'tab': case 'br': case 'cr': text += ' '; break;
+        // Deleted revisions, field codes and footnote marks are not read aloud
+        case 'p': case 'pPr': case 'rPr': case 'delText': case 'instrText':
+        case 'footnoteReference': case 'endnoteReference':
+          break;
+        default: visit(child);
+      }
+    }
+  };
+  visit(paragraph);
+  return text;
+};
+
+const importDocx = async (file: Blob): Promise<string> => {
+  const entries = await readZip(file);
+  const document = findEntry(entries, 'word/document.xml');
+  if (!document) throw new Error("Not a Word document (word/document.xml is missing).");
+
+  const headingStyles = readHeadingStyles(entries);
+  const blocks: Block[] = [];
+  for (const paragraph of Array.from(parseXml(decodeText(document.data)).getElementsByTagNameNS(WORD_NS, 'p'))) {
+    const properties = firstChild(paragraph, 'pPr');
+    const style = getAttr(firstChild(properties, 'pStyle'), 'val');
+    const heading = !!firstChild(properties, 'outlineLvl') || (!!style && headingStyles.has(style));
+    blocks.push({ text: readWordParagraph(paragraph), heading });
+  }
+  return joinBlocks(blocks);
+};
+
+// --- ePub ---
+
+const SKIPPED_TAGS = new Set(['script', 'style', 'head', 'aside', 'nav', 'img', 'svg', 'math', 'rt', 'rp']);
+const BLOCK_TAGS = new Set([
+  'p', 'div', 'li', 'ul', 'ol', 'dl', 'dt', 'dd', 'blockquote', 'section', 'article', 'header', 'footer',
+  'main', 'figure', 'figcaption', 'pre', 'table', 'tr', 'td', 'th', 'hr',
+]);
+const NOTE_TYPES = /\b(noteref|footnotes?|endnotes?|rearnotes?|doc-noteref|doc-footnote|doc-endnotes?)\b/;
+// Superscript that holds only a reference mark, e.g. "3", "*", "[12]"
+const REFERENCE_MARK = /^[\s\d০-৯*†‡§[\](),]+$/;
+
+const isNote = (element: Element): boolean => {
+  const type = element.getAttributeNS('http://www.idpf.org/2007/ops', 'type') ?? element.getAttribute('epub:type') ?? '';
+  const role = element.getAttribute('role') ?? '';
+  const className = element.getAttribute('class') ?? '';
+  if (NOTE_TYPES.test(type) || NOTE_TYPES.test(role) || /\b(footnotes?|endnotes?)\b/.test(className)) return true;
+  return element.localName.toLowerCase() === 'sup' && REFERENCE_MARK.test(element.textContent ?? '');
+};
+
+const readHtmlBlocks = (body: Element): Block[] => {
+  const blocks: Block[] = [];
+  let current = '';
+
+  const flush = (heading = false) => {
+    blocks.push({ text: current, heading });
+    current = '';
+  };
+
+  const visit = (node: Node) => {
+    for (const child of Array.from(node.childNodes)) {
+      if (child.nodeType === Node.TEXT_NODE || child.nodeType === Node.CDATA_SECTION_NODE) {
+        current += child.textContent ?? '';
+        continue;
+      }
+      if (child.nodeType !== Node.ELEMENT_NODE) continue;
+
+      const element = child as Element;
+      const tag = element.localName.toLowerCase();
+      if (SKIPPED_TAGS.has(tag) || isNote(element)) continue;
+
+      if (tag === 'br') {
+        current += ' ';
+      } else if (/^h[1-6]$/.test(tag)) {
+        flush();
+        visit(element);
+        flush(true);
+      } else if (BLOCK_TAGS.has(tag)) {
+        flush();
+        visit(element);
+        flush();
+      } else {
+        visit(element);
+      }
+    }
+  };
+
+  visit(body);
+  flush();
+  return blocks;
+};
+
+const resolvePath = (base: string, href: string): string => {
+  const parts = base.split('/').slice(0, -1);
+  for (const part of decodeURIComponent(href.split('#')[0]).split('/')) {
+    if (part === '..') parts.pop();
+    else if (part && part !== '.') parts.push(part);
+  }
+  return parts.join('/');
+};
+
+const importEpub = async (file: Blob): Promise<string> => {
+  const entries = await readZip(file);
+  const container = findEntry(entries, 'META-INF/container.xml');
+  if (!container) throw new Error("Not an ePub book (META-INF/container.xml is missing).");
+
+  const opfPath = parseXml(decodeText(container.data)).getElementsByTagName('rootfile')[0]?.getAttribute('full-path');
+  const opf = opfPath ? findEntry(entries, opfPath) : undefined;
+  if (!opfPath || !opf) throw new Error("The ePub package file is missing.");
+
+  const pkg = parseXml(decodeText(opf.data));
+  const manifest = new Map(Array.from(pkg.getElementsByTagName('item')).map(item => [item.getAttribute('id'), item]));
+  const blocks: Block[] = [];
+
+  for (const itemref of Array.from(pkg.getElementsByTagName('itemref'))) {
+    // Non-linear items are notes and other supplementary pages
+    if (itemref.getAttribute('linear') === 'no') continue;
+    const item = manifest.get(itemref.getAttribute('idref'));
+    const href = item?.getAttribute('href');
+    if (!item || !href || /\bnav\b/.test(item.getAttribute('properties') ?? '')) continue;
+
+    const entry = findEntry(entries, resolvePath(opfPath, href));
+    if (!entry) continue;
+
+    const markup = decodeText(entry.data);
+    let page: Document;
+    try {
+      page = parseXml(markup, 'application/xhtml+xml');
+    } catch {
+      // Some books ship tag soup; the HTML parser copes with it
+      page = new DOMParser().parseFromString(markup, 'text/html');
+    }
+    const body = page.getElementsByTagName('body')[0];
+    if (body) blocks.push(...readHtmlBlocks(body));
+  }
+
+  return joinBlocks(blocks);
+};
+
+// --- Subtitles ---
+
+const SRT_TIMING = /(\d+):(\d{1,2}):(\d{1,2})[,.](\d{1,3})\s*-->\s*(\d+):(\d{1,2}):(\d{1,2})[,.](\d{1,3})/;
+
+const toSeconds = (h: string, m: string, s: string, ms: string) =>
+  parseInt(h, 10) * 3600 + parseInt(m, 10) * 60 + parseInt(s, 10) + parseInt(ms.padEnd(3, '0'), 10) / 1000;
+
+/**
+ * Parses SubRip cues. Formatting tags (`<i>`, `{\an8}`) are removed and the
+ * lines of a cue are joined; cues without text are skipped.
+ */
+export const parseSrt = (text: string): SubtitleCue[] => {
+  const cues: SubtitleCue[] = [];
+  for (const block of text.replace(/\r\n?/g, '\n').split(/\n[ \t]*\n+/)) {
+    const lines = block.split('\n');
+    const timingIndex = lines.findIndex(line => SRT_TIMING.test(line));
+    if (timingIndex === -1) continue;
+
+    const [, h1, m1, s1, ms1, h2, m2, s2, ms2] = lines[timingIndex].match(SRT_TIMING)!;
+    const cueText = collapseWhitespace(
+      lines.slice(timingIndex + 1).join(' ').replace(/<[^>]*>/g, '').replace(/\{\\[^}]*\}/g, '')
+    );
+    if (!cueText) continue;
+
+    cues.push({ startSeconds: toSeconds(h1, m1, s1, ms1), endSeconds: toSeconds(h2, m2, s2, ms2), text: cueText });
+  }
+  return cues;
+};
+
+/**
+ * Reads a .txt, .docx, .epub or .srt file. Throws when the format is not
+ * supported or nothing readable is found.
+ */
+export const importSourceFile = async (file: File): Promise<ImportedSource> => {
+  const extension = file.name.slice(file.name.lastIndexOf('.')).toLowerCase();
+
+  if (extension === '.srt') {
+    const cues = parseSrt(decodeTextFile(new Uint8Array(await file.arrayBuffer())));
+    if (cues.length === 0) throw new Error("No subtitle cues found.");
+    return { kind: 'cues', cues };
+  }
+
+  let text: string;
+  if (extension === '.txt') text = decodeTextFile(new Uint8Array(await file.arrayBuffer())).trim();
+  else if (extension === '.docx') text = await importDocx(file);
+  else if (extension === '.epub') text = await importEpub(file);
+  else throw new Error(`Unsupported file type. Use ${IMPORT_EXTENSIONS.join(', ')}.`);
+
+  if (!text) throw new Error("No text found in the file.");
+  return { kind: 'text', text };
+};
@@ -0,0 +1,272 @@
+/**
+ * Expands numbers, dates, times, currency, percentages, ordinals and symbols in
+ * Bengali text into spoken Bengali words before the text is sent to TTS.
+ * Both Bengali (০-৯) and ASCII (0-9) digits are understood, and integers are read
+ * with the South Asian lakh/crore grouping.
+ */
+
+export type RewriteKind = 'phone' | 'date' | 'time' | 'currency' | 'percent' | 'ordinal' | 'range' | 'decimal' | 'number' | 'symbol';
+
+export interface TextRewrite {
+  kind: RewriteKind;
+  original: string;
+  spoken: string;
+}
+
+export interface NormalizedText {
+  text: string;
+  rewrites: TextRewrite[];
+}
+
+const UNITS = [
+  'শূন্য', 'এক', 'দুই', 'তিন', 'চার', 'পাঁচ', 'ছয়', 'সাত', 'আট', 'নয়',
+  'দশ', 'এগারো', 'বারো', 'তেরো', 'চৌদ্দ', 'পনেরো', 'ষোলো', 'সতেরো', 'আঠারো', 'উনিশ',
+  'বিশ', 'একুশ', 'বাইশ', 'তেইশ', 'চব্বিশ', 'পঁচিশ', 'ছাব্বিশ', 'সাতাশ', 'আঠাশ', 'ঊনত্রিশ',
+  'ত্রিশ', 'একত্রিশ', 'বত্রিশ', 'তেত্রিশ', 'চৌত্রিশ', 'পঁয়ত্রিশ', 'ছত্রিশ', 'সাঁইত্রিশ', 'আটত্রিশ', 'ঊনচল্লিশ',
+  'চল্লিশ', 'একচল্লিশ', 'বিয়াল্লিশ', 'তেতাল্লিশ', 'চুয়াল্লিশ', 'পঁয়তাল্লিশ', 'ছেচল্লিশ', 'সাতচল্লিশ', 'আটচল্লিশ', 'ঊনপঞ্চাশ',
+  'পঞ্চাশ', 'একান্ন', 'বায়ান্ন', 'তিপ্পান্ন', 'চুয়ান্ন', 'পঞ্চান্ন', 'ছাপ্পান্ন', 'সাতান্ন', 'আটান্ন', 'ঊনষাট',
+  'ষাট', 'একষট্টি', 'বাষট্টি', 'তেষট্টি', 'চৌষট্টি', 'পঁয়ষট্টি', 'ছেষট্টি', 'সাতষট্টি', 'আটষট্টি', 'ঊনসত্তর',
+  'সত্তর', 'একাত্তর', 'বাহাত্তর', 'তিয়াত্তর', 'চুয়াত্তর', 'পঁচাত্তর', 'ছিয়াত্তর', 'সাতাত্তর', 'আটাত্তর', 'ঊনআশি',
+  'আশি', 'একাশি', 'বিরাশি', 'তিরাশি', 'চুরাশি', 'পঁচাশি', 'ছিয়াশি', 'সাতাশি', 'অষ্টাশি', 'ঊননব্বই',
+  'নব্বই', 'একানব্বই', 'বিরানব্বই', 'তিরানব্বই', 'চুরানব্বই', 'পঁচানব্বই', 'ছিয়ানব্বই', 'সাতানব্বই', 'আটানব্বই', 'নিরানব্বই',
+];
+
+const ORDINALS = ['', 'প্রথম', 'দ্বিতীয়', 'তৃতীয়', 'চতুর্থ', 'পঞ্চম', 'ষষ্ঠ', 'সপ্তম', 'অষ্টম', 'নবম', 'দশম'];
+
+const DATE_DAYS: Record<number, string> = { 1: 'পহেলা', 2: 'দোসরা', 3: 'তেসরা', 4: 'চৌঠা' };
+
+const MONTHS = ['জানুয়ারি', 'ফেব্রুয়ারি', 'মার্চ', 'এপ্রিল', 'মে', 'জুন', 'জুলাই', 'আগস্ট', 'সেপ্টেম্বর', 'অক্টোবর', 'নভেম্বর', 'ডিসেম্বর'];
+
+const CURRENCIES: { pattern: string; name: string; subunit?: string }[] = [
+  { pattern: '৳|Tk\\.?|BDT', name: 'টাকা', subunit: 'পয়সা' },
+  { pattern: '\\$|USD', name: 'ডলার', subunit: 'সেন্ট' },
+  { pattern: '€', name: 'ইউরো', subunit: 'সেন্ট' },
+  { pattern: '£', name: 'পাউন্ড', subunit: 'পেন্স' },
+  { pattern: '₹|Rs\\.?', name: 'রুপি', subunit: 'পয়সা' },
+];
+
+const SYMBOLS: [RegExp, string][] = [
+  [/\s*&\s*/g, ' এবং '],
+  [/°\s*C\b/g, ' ডিগ্রি সেলসিয়াস'],
+  [/°\s*F\b/g, ' ডিগ্রি ফারেনহাইট'],
+  [/°/g, ' ডিগ্রি'],
+  [/\s*=\s*/g, ' সমান '],
+  [/(?<=\s)@(?=\s)/g, 'অ্যাট'],
+];
+
+const D = '[0-9০-৯]';
+// A number with optional western (1,250,000) or lakh (12,50,000) grouping
+const INT = `${D}{1,3}(?:,${D}{2,3})+|${D}+`;
+const NUM = `(?:${INT})(?:\\.${D}+)?`;
+// Not preceded or followed by another digit or a letter joined to the number
+const START = `(?<![0-9০-৯.,])`;
+const END = `(?![0-9০-৯])`;
+
+/** Converts Bengali digits to ASCII and drops grouping commas. */
+export const toAsciiDigits = (value: string): string =>
+  value.replace(/[০-৯]/g, d => String(d.charCodeAt(0) - 0x09E6)).replace(/,/g, '');
+
+const digitsToWords = (digits: string): string =>
+  toAsciiDigits(digits).split('').map(d => UNITS[Number(d)]).join(' ');
+
+/**
+ * Spells a non-negative integer in Bengali words using শো/হাজার/লাখ/কোটি.
+ */
+export const numberToBengaliWords = (n: number): string => {
+  if (!Number.isFinite(n) || n < 0) return String(n);
+  n = Math.floor(n);
+  if (n < 100) return UNITS[n];
+
+  const parts: string[] = [];
+  const crore = Math.floor(n / 10000000);
+  if (crore > 0) {
+    parts.push(`${numberToBengaliWords(crore)} কোটি`);
+    n %= 10000000;
+  }
+  const lakh = Math.floor(n / 100000);
+  if (lakh > 0) {
+    parts.push(`${UNITS[lakh]} লাখ`);
+    n %= 100000;
+  }
+  const thousand = Math.floor(n / 1000);
+  if (thousand > 0) {
+    parts.push(`${UNITS[thousand]} হাজার`);
+    n %= 1000;
+  }
+  const hundred = Math.floor(n / 100);
+  if (hundred > 0) {
+    parts.push(`${UNITS[hundred]}শো`);
+    n %= 100;
+  }
+  if (n > 0) parts.push(UNITS[n]);
+  return parts.join(' ');
+};
+
+/** Reads a year the way it is spoken: 1971 -> উনিশশো একাত্তর, 2024 -> দুই হাজার চব্বিশ. */
+export const yearToBengaliWords = (year: number): string => {
+  if (year >= 1100 && year < 2000) {
+    const rest = year % 100;
+    return `${UNITS[Math.floor(year / 100)]}শো${rest ? ` ${UNITS[rest]}` : ''}`;
+  }
+  return numberToBengaliWords(year);
+};
+
+export const ordinalToBengaliWords = (n: number): string =>
+  n >= 1 && n <= 10 ? ORDINALS[n] : `${numberToBengaliWords(n)}তম`;
+
+/** Day of month as used in dates: পহেলা, দোসরা, ... পাঁচই, ... উনিশে. */
+const dayToBengaliWords = (day: number): string => {
+  if (DATE_DAYS[day]) return DATE_DAYS[day];
+  // 19-31 all end in শ and take -এ: উনিশে, একুশে, একত্রিশে
+  return day <= 18 ? `${UNITS[day]}ই` : `${UNITS[day]}ে`;
+};
+
+const decimalToWords = (value: string): string => {
+  const [whole, fraction] = toAsciiDigits(value).split('.');
+  const wholeWords = readInteger(whole);
+  return fraction ? `${wholeWords} দশমিক ${digitsToWords(fraction)}` : wholeWords;
+};
+
+// Leading zeros ("007") are read digit by digit
+const readInteger = (digits: string): string => {
+  const ascii = toAsciiDigits(digits);
+  return ascii.length > 1 && ascii.startsWith('0') ? digitsToWords(ascii) : numberToBengaliWords(Number(ascii));
+};
+
+const hourWithSuffix = (hour: number): string => `${UNITS[hour]}টা`;
+
+const dayPeriod = (hour24: number): string => {
+  if (hour24 >= 5 && hour24 < 12) return 'সকাল';
+  if (hour24 >= 12 && hour24 < 15) return 'দুপুর';
+  if (hour24 >= 15 && hour24 < 18) return 'বিকেল';
+  if (hour24 >= 18 && hour24 < 20) return 'সন্ধ্যা';
+  return 'রাত';
+};
+
+interface Rule {
+  kind: RewriteKind;
+  pattern: RegExp;
+  speak: (match: RegExpExecArray) => string | null;
+}
+
+const RULES: Rule[] = [
+  {
+    // Bangladeshi mobile numbers: 01733263106, +880 1733-263106, ০১৭৩৩-২৬৩১০৬
+    kind: 'phone',
+    pattern: new RegExp(`${START}(\\+?(?:880|৮৮০)[-\\s]?)?([0০]?[1১]${D}{3}[-\\s]?${D}{6})${END}`, 'g'),
+    speak: m => {
+      const prefix = m[1] ? `প্লাস ${digitsToWords(m[1].replace(/[^0-9০-৯]/g, ''))} ` : '';
+      return prefix + digitsToWords(m[2].replace(/[-\s]/g, ''));
+    },
+  },
+  {
+    kind: 'date',
+    pattern: new RegExp(`${START}(${D}{1,2})([/.-])(${D}{1,2})\\2(${D}{4}|${D}{2})${END}`, 'g'),
+    speak: m => {
+      const day = Number(toAsciiDigits(m[1]));
+      const month = Number(toAsciiDigits(m[3]));
+      let year = Number(toAsciiDigits(m[4]));
+      if (day < 1 || day > 31 || month < 1 || month > 12) return null;
+      if (m[4].length === 2) year += 2000;
+      return `${dayToBengaliWords(day)} ${MONTHS[month - 1]}, ${yearToBengaliWords(year)} সাল`;
+    },
+  },
+  {
+    kind: 'time',
+    pattern: new RegExp(`${START}(${D}{1,2}):(${D}{2})(?::${D}{2})?(\\s*(?:[AaPp]\\.?[Mm]\\.?))?${END}`, 'g'),
+    speak: m => {
+      const hour = Number(toAsciiDigits(m[1]));
+      const minute = Number(toAsciiDigits(m[2]));
+      if (hour > 23 || minute > 59) return null;
+
+      const meridiem = m[3]?.trim().toLowerCase().replace(/\./g, '');
+      let hour24 = hour;
+      if (meridiem === 'pm' && hour < 12) hour24 = hour + 12;
+      if (meridiem === 'am' && hour === 12) hour24 = 0;
+
+      const displayHour = hour24 % 12 === 0 ? 12 : hour24 % 12;
+      const period = meridiem || hour >= 13 || hour === 0 ? `${dayPeriod(hour24)} ` : '';
+      const minutes = minute > 0 ? ` ${numberToBengaliWords(minute)} মিনিট` : '';
+      return `${period}${hourWithSuffix(displayHour)}${minutes}`;
+    },
+  },
+  ...CURRENCIES.map((currency): Rule => ({
+    kind: 'currency',
+    pattern: new RegExp(`(?:${currency.pattern})\\s?(${NUM})${END}`, 'g'),
+    speak: m => {
+      const [whole, fraction] = toAsciiDigits(m[1]).split('.');
+      let spoken = `${numberToBengaliWords(Number(whole))} ${currency.name}`;
+      if (fraction && Number(fraction) > 0 && currency.subunit) {
+        spoken += ` ${numberToBengaliWords(Number(fraction.padEnd(2, '0').slice(0, 2)))} ${currency.subunit}`;
+      }
+      return spoken;
+    },
+  })),
+  {
+    // "১২০০/-" is the conventional way to write a taka amount
+    kind: 'currency',
+    pattern: new RegExp(`${START}(${INT})/-(?:\\s*টাকা)?`, 'g'),
+    speak: m => `${numberToBengaliWords(Number(toAsciiDigits(m[1])))} টাকা`,
+  },
+  {
+    kind: 'percent',
+    pattern: new RegExp(`${START}(${NUM})\\s?%`, 'g'),
+    speak: m => `${decimalToWords(m[1])} শতাংশ`,
+  },
+  {
+    kind: 'ordinal',
+    pattern: new RegExp(`${START}(${D}+)(লা|রা|ঠা)(?![\\u0980-\\u09FF])`, 'g'),
+    speak: m => {
+      const n = Number(toAsciiDigits(m[1]));
+      return n >= 1 && n <= 4 ? DATE_DAYS[n] : null;
+    },
+  },
+  {
+    kind: 'ordinal',
+    pattern: new RegExp(`${START}(${D}+)(ম|য়|য়|র্থ|ষ্ঠ|তম|st|nd|rd|th)(?![\\u0980-\\u09FFA-Za-z])`, 'g'),
+    speak: m => ordinalToBengaliWords(Number(toAsciiDigits(m[1]))),
+  },
+  {
+    kind: 'range',
+    pattern: new RegExp(`${START}(${NUM})\\s?[-–]\\s?(${NUM})${END}`, 'g'),
+    speak: m => `${decimalToWords(m[1])} থেকে ${decimalToWords(m[2])}`,
+  },
+  {
+    kind: 'decimal',
+    pattern: new RegExp(`${START}(${INT})\\.(${D}+)${END}`, 'g'),
+    speak: m => decimalToWords(`${m[1]}.${m[2]}`),
+  },
+  {
+    kind: 'number',
+    pattern: new RegExp(`${START}(${INT})${END}`, 'g'),
+    speak: m => readInteger(m[1]),
+  },
+];
+
+/**
+ * Rewrites `text` into spoken form and lists every rewrite made, in order.
+ */
+export const normalizeBengaliText = (text: string): NormalizedText => {
+  const rewrites: TextRewrite[] = [];
+  let result = text;
+
+  for (const rule of RULES) {
+    result = result.replace(rule.pattern, (...args) => {
+      const match = args.slice(0, -2) as unknown as RegExpExecArray;
+      const original = match[0];
+      const spoken = rule.speak(match);
+      if (spoken === null) return original;
+      rewrites.push({ kind: rule.kind, original, spoken });
+      return spoken;
+    });
+  }
+
+  for (const [pattern, replacement] of SYMBOLS) {
+    result = result.replace(pattern, original => {
+      rewrites.push({ kind: 'symbol', original: original.trim(), spoken: replacement.trim() });
+      return replacement;
+    });
+  }
+
+  return { text: result.replace(/ {2,}/g, ' '), rewrites };
+};
@@ -0,0 +1,154 @@
+import { TtsErrorCode, VoiceConfig } from "../types";
+
+/**
+ * What a provider can do, so the UI can hide controls it would ignore.
+ */
+export interface TtsCapabilities {
+  styleInstructions: boolean;
+  speakingRate: boolean;
+  requiresApiKey: boolean;
+  sampleRate: number;
+  maxCharsPerRequest: number;
+}
+
+export interface TtsRequest {
+  text: string;
+  voice: string;
+  styleInstruction?: string;
+  speakingRate?: string;
+  apiKey?: string;
+}
+
+/**
+ * A text-to-speech backend. `generate` resolves to a WAV blob URL
+ * (16-bit mono PCM at `capabilities.sampleRate`).
+ */
+export interface TtsProvider {
+  id: string;
+  label: string;
+  model: string; // Changes when the same request would sound different
+  capabilities: TtsCapabilities;
+  voices: VoiceConfig[];
+  generate: (request: TtsRequest) => Promise<string>;
+}
+
+
+/**
+ * Base class for failures raised by a provider. `retryable` says whether the
+ * same request may succeed if sent again; see retryPolicy.ts for how.
+ */
+export class TtsError extends Error {
+  readonly providerId: string;
+  readonly code: TtsErrorCode;
+  readonly retryable: boolean;
+
+  constructor(providerId: string, message: string, code: TtsErrorCode = 'unknown', retryable = false) {
+    super(message);
+    this.name = 'TtsError';
+    this.providerId = providerId;
+    this.code = code;
+    this.retryable = retryable;
+  }
+}
+
+/**
+ * The provider cannot run at all with the current setup (e.g. no API key).
+ */
+export class TtsConfigurationError extends TtsError {
+  constructor(providerId: string, message: string) {
+    super(providerId, message, 'config', false);
+    this.name = 'TtsConfigurationError';
+  }
+}
+
+/**
+ * The provider ran but could not produce audio for this request. Used as is
+ * for failures that fit no narrower class; those get one more try.
+ */
+export class TtsGenerationError extends TtsError {
+  readonly status?: number; // HTTP status of the failed request, when known
+
+  constructor(providerId: string, message: string, status?: number, code: TtsErrorCode = 'unknown', retryable = code === 'unknown') {
+    super(providerId, message, code, retryable);
+    this.name = 'TtsGenerationError';
+    this.status = status;
+  }
+}
+
+/**
+ * The API key was rejected. Retrying with the same key cannot help.
+ */
+export class TtsAuthError extends TtsGenerationError {
+  constructor(providerId: string, message: string, status?: number) {
+    super(providerId, message, status, 'auth', false);
+    this.name = 'TtsAuthError';
+  }
+}
+
+/**
+ * Rate limit or quota exhausted for the key; another key, or the same one
+ * later, may succeed.
+ */
+export class TtsQuotaError extends TtsGenerationError {
+  constructor(providerId: string, message: string, status?: number) {
+    super(providerId, message, status, 'quota', true);
+    this.name = 'TtsQuotaError';
+  }
+}
+
+/**
+ * The model refused or returned no audio for this text.
+ */
+export class TtsSafetyError extends TtsGenerationError {
+  constructor(providerId: string, message: string) {
+    super(providerId, message, undefined, 'safety', false);
+    this.name = 'TtsSafetyError';
+  }
+}
+
+/**
+ * The request itself was rejected as malformed (e.g. text too long).
+ */
+export class TtsRequestError extends TtsGenerationError {
+  constructor(providerId: string, message: string, status?: number) {
+    super(providerId, message, status, 'invalid-request', false);
+    this.name = 'TtsRequestError';
+  }
+}
+
+/**
+ * The request never got a response.
+ */
+export class TtsNetworkError extends TtsGenerationError {
+  constructor(providerId: string, message: string) {
+    super(providerId, message, undefined, 'network', true);
+    this.name = 'TtsNetworkError';
+  }
+}
+
+/**
+ * The service failed or was overloaded (5xx).
+ */
+export class TtsServerError extends TtsGenerationError {
+  constructor(providerId: string, message: string, status?: number) {
+    super(providerId, message, status, 'server', true);
+    this.name = 'TtsServerError';
+  }
+}
+
+/**
+ * Short badge label and a suggested fix for each kind of failure.
+ */
+export const ERROR_CATEGORIES: Record<TtsErrorCode, { label: string; fix: string }> = {
+  config: { label: 'Setup', fix: 'Add an API key in Settings (Gear Icon), or pick a provider that needs none.' },
+  auth: { label: 'Invalid key', fix: 'Check or replace the key in Settings; a successful test re-enables it.' },
+  quota: { label: 'Quota', fix: 'Add more API keys, lower requests per minute in the Queue, or retry later.' },
+  safety: { label: 'Blocked', fix: 'Reword this segment or remove the style instruction, then retry.' },
+  'invalid-request': { label: 'Rejected', fix: 'Shorten or edit this segment, then retry.' },
+  network: { label: 'Network', fix: 'Check your connection, then retry.' },
+  server: { label: 'Server', fix: 'The service is busy or failing; retry in a few minutes.' },
+  unknown: { label: 'Error', fix: 'Retry; if it keeps failing, check the browser console for details.' },
+};
+
+export const getErrorCode = (error: unknown): TtsErrorCode =>
+  error instanceof TtsError ? error.code : 'unknown';
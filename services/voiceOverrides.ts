@@ -0,0 +1,72 @@
+import { AudioSegment, ProjectState, SegmentStatus, VoiceConfig, VoiceOverrides } from "../types";
+import { resolveSpeakerVoice } from "./dialogue";
+
+export interface ResolvedVoice {
+  voice: string;
+  styleInstruction: string;
+  speakingRate: string;
+}
+
+/**
+ * Drops empty fields; returns undefined when nothing is overridden.
+ */
+export const cleanOverrides = (overrides: VoiceOverrides | undefined): VoiceOverrides | undefined => {
+  if (!overrides) return undefined;
+  const cleaned: VoiceOverrides = {};
+  if (overrides.voice) cleaned.voice = overrides.voice;
+  if (overrides.styleInstruction?.trim()) cleaned.styleInstruction = overrides.styleInstruction;
+  if (overrides.speakingRate) cleaned.speakingRate = overrides.speakingRate;
+  return Object.keys(cleaned).length > 0 ? cleaned : undefined;
+};
+
+export const overridesEqual = (a: VoiceOverrides | undefined, b: VoiceOverrides | undefined): boolean => {
+  const x = cleanOverrides(a);
+  const y = cleanOverrides(b);
+  return x?.voice === y?.voice && x?.styleInstruction === y?.styleInstruction && x?.speakingRate === y?.speakingRate;
+};
+
+/**
+ * Sets a segment's overrides. A real change sends finished (or failed)
+ * segments back to the queue so they are regenerated with the new settings.
+ */
+export const withOverrides = (segment: AudioSegment, overrides: VoiceOverrides | undefined): AudioSegment => {
+  if (overridesEqual(segment.overrides, overrides)) {
+    return { ...segment, overrides: cleanOverrides(overrides) };
+  }
+  const needsRegeneration = segment.status === SegmentStatus.COMPLETED || segment.status === SegmentStatus.ERROR;
+  return {
+    ...segment,
+    overrides: cleanOverrides(overrides),
+    ...(needsRegeneration ? { status: SegmentStatus.QUEUED, error: undefined } : {}),
+  };
+};
+
+/**
+ * Summary for the segment badge tooltip.
+ */
+export const describeOverrides = (overrides: VoiceOverrides, voices: VoiceConfig[]): string => {
+  const parts: string[] = [];
+  if (overrides.voice) parts.push(`Voice: ${voices.find(v => v.name === overrides.voice)?.label ?? overrides.voice}`);
+  if (overrides.speakingRate) parts.push(`Pace: ${overrides.speakingRate}`);
+  if (overrides.styleInstruction) parts.push(`Style: ${overrides.styleInstruction}`);
+  return parts.join('\n');
+};
+
+/**
+ * Settings a segment is generated with: its own overrides first, then its
+ * speaker's mapping (dialogue mode), then the project defaults. An override
+ * voice the provider does not offer is ignored.
+ */
+export const resolveSegmentVoice = (
+  project: Pick<ProjectState, 'dialogueMode' | 'speakers' | 'selectedVoice' | 'styleInstruction' | 'speakingRate'>,
+  segment: Pick<AudioSegment, 'speaker' | 'overrides'>,
+  voices: VoiceConfig[]
+): ResolvedVoice => {
+  const base = resolveSpeakerVoice(project, segment.speaker, voices);
+  const overrides = cleanOverrides(segment.overrides);
+  return {
+    voice: overrides?.voice && voices.some(v => v.name === overrides.voice) ? overrides.voice : base.voice,
+    styleInstruction: overrides?.styleInstruction ?? base.styleInstruction,
+    speakingRate: overrides?.speakingRate ?? project.speakingRate,
+  };
+};
@@ -6,15 +6,161 @@ export enum SegmentStatus {
   ERROR = 'ERROR',
 }
 
+/**
+ * Why the segmenter ended a chunk where it did.
+ */
+export type ChunkBoundary = 'paragraph' | 'sentence' | 'clause' | 'conjunction' | 'whitespace' | 'hard';
+
+/**
+ * Error class of a failed generation; decides whether and how it is retried.
+ */
+export type TtsErrorCode = 'config' | 'auth' | 'quota' | 'safety' | 'invalid-request' | 'network' | 'server' | 'unknown';
+
 export interface AudioSegment {
   id: string;
   text: string;
+  spokenText?: string; // Text actually sent to TTS, after normalization
   status: SegmentStatus;
   audioUrl?: string;
   error?: string;
+  errorCode?: TtsErrorCode; // Set with error
   duration?: number; // Estimated or actual
+  silence?: SilenceAnalysis; // Leading/trailing silence, measured for export trimming
   volume: number; // 1.0 is 100%, range 0.0 to 2.0
   isSelected?: boolean;
+  boundary?: ChunkBoundary; // Set when created by the segmenter
+  pauseAfterMs?: number; // Overrides the export gap after this segment
+  speaker?: string; // Dialogue mode: who speaks this segment
+  overrides?: VoiceOverrides; // Per-segment voice settings, ahead of speaker and project
+  cached?: boolean; // Audio came from the local cache, not a new request
+  bypassCache?: boolean; // Next generation skips the cache lookup
+  takes?: SegmentTake[]; // Every generation kept, oldest first
+  chosenTakeId?: string; // The take whose audio the fields above mirror
+  takesRequested?: number; // Generations to make on the next run (default 1)
+  edit?: AudioEdit; // Trim and cuts on the chosen take, applied on playback and export
+  heading?: boolean; // Chapter or section title from the source text
+  timecode?: SegmentTimecode; // Subtitle cue the segment was imported from
+  chapterTitle?: string; // Set on the first segment of a chapter
+}
+
+/**
+ * Where a subtitle cue sits on its original track. Export never starts the
+ * segment earlier than `startSeconds`, so a dub stays in sync.
+ */
+export interface SegmentTimecode {
+  startSeconds: number;
+  endSeconds: number;
+}
+
+/**
+ * Non-destructive edit of a clip. Times are in seconds of the original audio.
+ */
+export interface AudioEdit {
+  inSeconds: number;
+  outSeconds?: number; // Undefined keeps the clip to its end
+  cuts: { startSeconds: number; endSeconds: number }[]; // Sorted, not overlapping
+}
+
+/**
+ * One generation of a segment. The chosen take's audio is what export and
+ * playback use.
+ */
+export interface SegmentTake {
+  id: string;
+  audioUrl?: string;
+  spokenText?: string;
+  voice: string; // Empty for audio made before takes were kept
+  styleInstruction?: string;
+  speakingRate?: string;
+  createdAt: number;
+  duration?: number;
+  silence?: SilenceAnalysis;
+  cached?: boolean;
+  edit?: AudioEdit;
+}
+
+export interface VoiceOverrides {
+  voice?: string;
+  styleInstruction?: string;
+  speakingRate?: string;
+}
+
+export interface LexiconEntry {
+  id: string;
+  term: string;
+  replacement: string; // Respelling or phonetic hint sent to TTS instead of the term
+  caseSensitive?: boolean;
+}
+
+export interface Lexicon {
+  id: string;
+  name: string;
+  entries: LexiconEntry[];
+}
+
+export type ApiKeyHealth = 'healthy' | 'cooldown' | 'disabled' | 'invalid';
+
+export interface ApiKeyEntry {
+  key: string;
+  enabled: boolean; // Turned off by the user
+  authFailed: boolean; // Rejected by the API; cleared by a successful test
+  cooldownUntil?: number; // Rate limited until this time (ms since epoch)
+  successCount: number;
+  failureCount: number;
+  lastError?: string;
+  lastUsedAt?: number;
+  usage: { date: string; requests: number; characters: number }; // Local calendar day
+}
+
+export type ProjectPriority = 'high' | 'normal' | 'low';
+
+/**
+ * Limits for the generation scheduler shared by all projects.
+ */
+export interface SchedulerSettings {
+  maxConcurrent: number; // Requests in flight across all projects
+  perKeyConcurrent: number; // Requests in flight per API key
+  requestsPerMinute: number; // Per API key; 0 for no limit
+  adaptive: boolean; // Lower concurrency after rate-limit errors, then recover
+}
+
+export interface AudioCacheSettings {
+  enabled: boolean;
+  maxSizeMb: number; // Least recently used audio is evicted past this
+}
+
+// Leading and trailing silence measured in a segment's audio
+export interface SilenceAnalysis {
+  thresholdDb: number; // Threshold the clip was analyzed at
+  leadingSeconds: number;
+  trailingSeconds: number;
+}
+
+export type JoinFade = 'none' | 'declick' | 'crossfade';
+
+export type ExportFormat = 'wav' | 'mp3' | 'opus' | 'm4b';
+
+export type SubtitleFormat = 'srt' | 'vtt';
+
+/**
+ * How segments are joined in the merged export.
+ */
+export interface ExportSettings {
+  segmentGapMs: number; // Silence between segments
+  paragraphGapMs: number; // Silence after a segment that ends a paragraph
+  format: ExportFormat;
+  bitrateKbps: number; // Ignored for WAV
+  subtitleFormat: SubtitleFormat;
+  includeSubtitles: boolean; // Download captions alongside the merged audio
+  loudnessTarget: number | null; // Integrated LUFS each segment is normalized to; null leaves levels as generated
+  truePeakCeilingDb: number; // Limiter ceiling in dBTP
+  trimSilence: boolean;
+  silenceThresholdDb: number; // dBFS below which audio counts as silence
+  trimHeadMs: number; // Silence kept before speech
+  trimTailMs: number; // Silence kept after speech
+  joinFade: JoinFade;
+  joinFadeMs: number;
+  chapterFileTemplate: string; // Name of each per-chapter file; {n}, {title} and {project} are filled in
 }
 
 export interface VoiceConfig {
@@ -22,6 +168,33 @@ export interface VoiceConfig {
   label: string;
 }
 
+export interface MusicTrack {
+  id: string;
+  name: string;
+  audioUrl?: string; // Blob URL of the original file
+  duration?: number;
+}
+
+export type MusicFit = 'loop' | 'fade'; // Repeat to cover the narration, or play once and fade out
+
+export interface MusicBedSettings {
+  enabled: boolean;
+  tracks: MusicTrack[]; // Played in order
+  fit: MusicFit;
+  levelDb: number; // Music level when nobody is speaking
+  duckDb: number; // Extra attenuation while narration is present
+  attackMs: number; // Time to duck before speech starts
+  releaseMs: number; // Time to recover after speech stops
+  introMs: number; // Music alone before the narration
+  outroMs: number; // Music alone after the narration
+}
+
+export interface SpeakerVoice {
+  name: string; // As written in the text, e.g. "রহিম"
+  voice: string;
+  styleInstruction: string; // Empty to use the project's style
+}
+
 export interface ProjectState {
   id: string;
   name: string;
@@ -31,12 +204,23 @@ export interface ProjectState {
   isProcessing: boolean;
   isExporting: boolean;
   hasExported: boolean;
+  providerId: string;
   selectedVoice: string;
   speakingRate: string;
   exportFilename: string;
+  maxChunkLength: number;
+  normalizeText: boolean;
+  lexicon: LexiconEntry[];
+  globalLexiconIds: string[]; // Shared lexicons enabled for this project
+  exportSettings: ExportSettings;
+  musicBed: MusicBedSettings;
+  dialogueMode: boolean; // Text uses "Speaker: line" tags
+  speakers: SpeakerVoice[];
   progress: { current: number; total: number };
 }
 
+export const SPEAKING_RATES = ['Slow', 'Normal', 'Fast', 'Very Fast'];
+
 export const VOICES: VoiceConfig[] = [
   { name: 'Zephyr', label: 'Zephyr (Female, Bright)' },
   { name: 'Puck', label: 'Puck (Male, Upbeat)' },
@@ -0,0 +1,51 @@
+import { encodeMp3, encodeOpus, encodeM4b } from '../services/encoders';
+import { applyTruePeakLimiter, floatToInt16, measureIntegratedLoudness } from '../services/loudness';
+import type { EncodeRequest, EncodeResponse, MasteringRequest } from '../services/audioEncoder';
+
+// Typed view of the dedicated worker scope (the project compiles against the DOM lib)
+const ctx = self as unknown as {
+  onmessage: ((event: MessageEvent<EncodeRequest | MasteringRequest>) => void) | null;
+  postMessage: (message: EncodeResponse, transfer?: Transferable[]) => void;
+};
+
+const PROGRESS_INTERVAL_MS = 100;
+
+ctx.onmessage = async (event) => {
+  const request = event.data;
+
+  if (request.type !== 'encode') {
+    try {
+      if (request.type === 'measure') {
+        ctx.postMessage({ type: 'loudness', lufs: measureIntegratedLoudness(request.samples, request.sampleRate) });
+      } else {
+        applyTruePeakLimiter(request.samples, request.sampleRate, request.ceilingDb);
+        const samples = floatToInt16(request.samples);
+        ctx.postMessage({ type: 'limited', samples }, [samples.buffer]);
+      }
+    } catch (e) {
+      ctx.postMessage({ type: 'error', message: e instanceof Error && e.message ? e.message : 'Mastering failed' });
+    }
+    return;
+  }
+
+  const { format, samples, sampleRate, bitrateKbps, chapters } = request;
+
+  let lastReport = 0;
+  const onProgress = (fraction: number) => {
+    const now = Date.now();
+    if (now - lastReport < PROGRESS_INTERVAL_MS && fraction < 1) return;
+    lastReport = now;
+    ctx.postMessage({ type: 'progress', fraction });
+  };
+
+  try {
+    const parts = format === 'mp3'
+      ? encodeMp3(samples, sampleRate, bitrateKbps, onProgress)
+      : format === 'opus'
+        ? await encodeOpus(samples, sampleRate, bitrateKbps, onProgress)
+        : await encodeM4b(samples, sampleRate, bitrateKbps, chapters, onProgress);
+    ctx.postMessage({ type: 'done', parts }, parts.map(p => p.buffer as ArrayBuffer));
+  } catch (e: any) {
+    ctx.postMessage({ type: 'error', message: e?.message || 'Encoding failed' });
+  }
+};